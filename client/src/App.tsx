@@ -3,21 +3,53 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Route, Switch } from "wouter";
+import { CurrencyProvider } from "@/hooks/use-currency";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import Index from "./pages/Index";
+import StockDetail from "./pages/StockDetail";
+import Screener from "./pages/Screener";
 import NotFound from "./pages/NotFound";
+import Login from "./pages/Login";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
+// The app for a signed-in user; settings and holdings load once there is a session
+const AuthenticatedApp = () => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="h-8 w-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+  if (!user) {
+    return <Login />;
+  }
+
+  return (
+    // Keyed by account so nothing from a previous session carries over
+    <CurrencyProvider key={user.id}>
       <Switch>
         <Route path="/" component={Index} />
+        <Route path="/stock/:symbol" component={StockDetail} />
+        <Route path="/screener" component={Screener} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route component={NotFound} />
       </Switch>
+    </CurrencyProvider>
+  );
+};
+
+const App = () => (
+  <QueryClientProvider client={queryClient}>
+    <TooltipProvider>
+      <AuthProvider>
+        <Toaster />
+        <Sonner />
+        <AuthenticatedApp />
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -6,9 +6,11 @@ import { Label } from "@/components/ui/label";
 import { Plus, Search, AlertTriangle, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { searchStocks, StockError, createStockError } from "@/services/stockApi";
+import { PositionDialog } from "@/components/PositionDialog";
+import type { Position } from "@/lib/portfolio";
 
 interface AddStockFormProps {
-  onAddStock: (symbol: string) => Promise<void>;
+  onAddStock: (symbol: string, position?: Position) => Promise<void>;
 }
 
 export const AddStockForm = ({ onAddStock }: AddStockFormProps) => {
@@ -16,6 +18,7 @@ export const AddStockForm = ({ onAddStock }: AddStockFormProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [searchResults, setSearchResults] = useState<{ symbol: string; companyName: string; match: string }[]>([]);
   const [currentError, setCurrentError] = useState<StockError | null>(null);
+  const [pendingSymbol, setPendingSymbol] = useState<string | null>(null);
   const { toast } = useToast();
 
   const handleSearch = async () => {
@@ -43,12 +46,12 @@ export const AddStockForm = ({ onAddStock }: AddStockFormProps) => {
     }
   };
 
-  const handleAddStock = async (symbol: string) => {
+  const handleAddStock = async (symbol: string, position?: Position) => {
     setIsLoading(true);
     setCurrentError(null);
     
     try {
-      await onAddStock(symbol);
+      await onAddStock(symbol, position);
       setQuery("");
       setSearchResults([]);
       toast({
@@ -64,7 +67,7 @@ export const AddStockForm = ({ onAddStock }: AddStockFormProps) => {
         description: stockError.solution,
         variant: "destructive",
         action: stockError.canRetry ? (
-          <Button variant="outline" size="sm" onClick={() => handleAddStock(symbol)}>
+          <Button variant="outline" size="sm" onClick={() => handleAddStock(symbol, position)}>
             <RefreshCw className="h-3 w-3 mr-1" />
             Retry
           </Button>
@@ -192,7 +195,7 @@ export const AddStockForm = ({ onAddStock }: AddStockFormProps) => {
                   </div>
                   <Button
                     size="sm"
-                    onClick={() => handleAddStock(result.symbol)}
+                    onClick={() => setPendingSymbol(result.symbol)}
                     disabled={isLoading}
                     className="bg-gradient-success hover:shadow-success shrink-0"
                   >
@@ -212,6 +215,13 @@ export const AddStockForm = ({ onAddStock }: AddStockFormProps) => {
           </div>
         )}
       </div>
+
+      <PositionDialog
+        symbol={pendingSymbol ?? ""}
+        open={pendingSymbol !== null}
+        onOpenChange={(open) => !open && setPendingSymbol(null)}
+        onSave={(position) => handleAddStock(pendingSymbol!, position)}
+      />
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, CheckCheck, Settings2 } from "lucide-react";
+import { AlertsDialog } from "@/components/AlertsDialog";
+import { addLog } from "@/components/DebugPanel";
+import { getAlertEvents, markAlertEventsRead } from "@/services/alertApi";
+import { useToast } from "@/hooks/use-toast";
+import type { AlertEvent } from "@shared/schema";
+
+const POLL_INTERVAL = 60_000;
+const SHOWN_EVENTS = 20;
+
+// Bell in the header with the alerts that fired; new ones also pop up as toasts
+export const AlertNotifications = () => {
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [managing, setManaging] = useState(false);
+  const lastSeenId = useRef<number>();
+  const { toast } = useToast();
+
+  const load = () => getAlertEvents(SHOWN_EVENTS)
+    .then(list => {
+      // Only events that arrived since the previous poll, not the backlog on first load
+      if (lastSeenId.current !== undefined) {
+        list.events
+          .filter(event => event.id > lastSeenId.current! && !event.readAt)
+          .forEach(event => toast({ title: `Alert: ${event.symbol}`, description: event.message }));
+      }
+      lastSeenId.current = Math.max(lastSeenId.current ?? 0, ...list.events.map(event => event.id));
+      setEvents(list.events);
+      setUnread(list.unread);
+    })
+    .catch(error => addLog("error", "Failed to load alert notifications", { error: error.message }, "Alerts"));
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const markAllRead = async () => {
+    try {
+      await markAlertEventsRead();
+      const now = new Date();
+      setEvents(current => current.map(event => event.readAt ? event : { ...event, readAt: now }));
+      setUnread(0);
+    } catch (error) {
+      addLog("error", "Failed to mark alerts read", { error: (error as Error).message }, "Alerts");
+    }
+  };
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" className="relative h-9 w-9 p-0" aria-label={`Alerts, ${unread} unread`}>
+            <Bell className="h-4 w-4" />
+            {unread > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-danger text-[10px] font-semibold leading-5 text-danger-foreground text-center">
+                {unread > 99 ? "99+" : unread}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border/50">
+            <h4 className="text-sm font-semibold text-foreground">Alerts</h4>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={markAllRead} disabled={unread === 0}>
+                <CheckCheck className="h-3 w-3 mr-1" />
+                Mark all read
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setManaging(true)} aria-label="Manage alerts">
+                <Settings2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+          {events.length === 0 ? (
+            <div className="text-center px-4 py-6 space-y-3">
+              <p className="text-sm text-muted-foreground">No alerts have fired yet</p>
+              <Button variant="outline" size="sm" onClick={() => setManaging(true)}>Manage Alerts</Button>
+            </div>
+          ) : (
+            <div className="max-h-80 overflow-y-auto">
+              {events.map(event => (
+                <div key={event.id} className={`px-4 py-3 border-b border-border/30 last:border-0 ${event.readAt ? "" : "bg-primary/5"}`}>
+                  <p className={`text-sm ${event.readAt ? "text-muted-foreground" : "text-foreground font-medium"}`}>{event.message}</p>
+                  {event.triggeredAt && (
+                    <p className="text-xs text-muted-foreground">{new Date(event.triggeredAt).toLocaleString()}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <AlertsDialog open={managing} onOpenChange={setManaging} />
+    </>
+  );
+};
@@ -0,0 +1,235 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { addLog } from "@/components/DebugPanel";
+import { createStockError } from "@/services/stockApi";
+import { createAlert, deleteAlert, getAlerts, updateAlert, type AlertInput } from "@/services/alertApi";
+import { useToast } from "@/hooks/use-toast";
+import type { Alert, AlertDirection, AlertType } from "@shared/schema";
+
+interface AlertsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TYPE_LABELS: Record<AlertType, string> = {
+  price_cross: "Price crosses a level",
+  daily_move: "Moves % in a day",
+  rsi: "RSI crosses a level",
+  forecast_deviation: "Strays % from forecast",
+  sentiment_flip: "News sentiment flips",
+};
+
+const needsDirection = (type: AlertType) => type === "price_cross" || type === "rsi";
+
+// One line describing the condition, e.g. "AAPL price below 180"
+const describeAlert = (alert: Alert) => {
+  const threshold = Number(alert.threshold);
+  switch (alert.type) {
+    case "price_cross": return `${alert.symbol} price ${alert.direction} ${threshold}`;
+    case "daily_move": return `${alert.symbol} moves ${threshold}% in a day`;
+    case "rsi": return `${alert.symbol} RSI ${alert.direction} ${threshold}`;
+    case "forecast_deviation": return `${alert.symbol} ${threshold}% off its forecast`;
+    case "sentiment_flip": return `${alert.symbol} news sentiment flips`;
+  }
+};
+
+const toInput = (alert: Alert): AlertInput => ({
+  symbol: alert.symbol,
+  type: alert.type,
+  direction: alert.direction,
+  threshold: alert.threshold !== null ? Number(alert.threshold) : null,
+  active: alert.active,
+});
+
+// Lists the user's alerts and adds new ones; the server checks them against cached quotes
+export const AlertsDialog = ({ open, onOpenChange }: AlertsDialogProps) => {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [symbol, setSymbol] = useState("");
+  const [type, setType] = useState<AlertType>("price_cross");
+  const [direction, setDirection] = useState<AlertDirection>("above");
+  const [threshold, setThreshold] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (error: unknown, action: string) => {
+    const stockError = createStockError(error, action);
+    addLog("error", `Failed ${action}`, { error: (error as Error).message }, "Alerts");
+    toast({ title: stockError.message, description: stockError.solution, variant: "destructive" });
+  };
+
+  useEffect(() => {
+    if (open) {
+      getAlerts()
+        .then(setAlerts)
+        .catch(error => showError(error, 'loading alerts'));
+    }
+  }, [open]);
+
+  const usesThreshold = type !== "sentiment_flip";
+  const isValid = symbol.trim() !== "" && (!usesThreshold || Number(threshold) > 0);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      const alert = await createAlert({
+        symbol: symbol.trim(),
+        type,
+        direction: needsDirection(type) ? direction : null,
+        threshold: usesThreshold ? Number(threshold) : null,
+      });
+      setAlerts(current => [...current, alert]);
+      setSymbol("");
+      setThreshold("");
+      addLog("info", `Created alert: ${describeAlert(alert)}`, alert, "Alerts");
+    } catch (error) {
+      showError(error, 'creating alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (alert: Alert, active: boolean) => {
+    try {
+      const updated = await updateAlert(alert.id, { ...toInput(alert), active });
+      setAlerts(current => current.map(existing => existing.id === updated.id ? updated : existing));
+    } catch (error) {
+      showError(error, 'updating alert');
+    }
+  };
+
+  const handleDelete = async (alert: Alert) => {
+    try {
+      await deleteAlert(alert.id);
+      setAlerts(current => current.filter(existing => existing.id !== alert.id));
+    } catch (error) {
+      showError(error, 'deleting alert');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Alerts</DialogTitle>
+          <DialogDescription>
+            Checked every few minutes against the latest quotes. An alert fires when its condition becomes true, and again only after it has cleared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="space-y-3 p-3 rounded-lg bg-secondary/20 border border-border/30">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="alert-symbol">Symbol</Label>
+              <Input
+                id="alert-symbol"
+                value={symbol}
+                onChange={e => setSymbol(e.target.value)}
+                placeholder="e.g. AAPL"
+                className="uppercase placeholder:normal-case"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select value={type} onValueChange={value => setType(value as AlertType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TYPE_LABELS) as AlertType[]).map(alertType => (
+                    <SelectItem key={alertType} value={alertType}>{TYPE_LABELS[alertType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {usesThreshold && (
+            <div className="grid grid-cols-2 gap-3">
+              {needsDirection(type) && (
+                <div className="space-y-2">
+                  <Label>Direction</Label>
+                  <Select value={direction} onValueChange={value => setDirection(value as AlertDirection)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="above">Above</SelectItem>
+                      <SelectItem value="below">Below</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="alert-threshold">{needsDirection(type) ? "Level" : "Percent"}</Label>
+                <Input
+                  id="alert-threshold"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={threshold}
+                  onChange={e => setThreshold(e.target.value)}
+                  placeholder={type === "rsi" ? "e.g. 70" : type === "price_cross" ? "e.g. 180" : "e.g. 5"}
+                />
+              </div>
+            </div>
+          )}
+
+          <Button type="submit" variant="outline" size="sm" disabled={saving || !isValid} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            {saving ? "Adding..." : "Add Alert"}
+          </Button>
+        </form>
+
+        {alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No alerts yet</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {alerts.map(alert => (
+              <div key={alert.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/20 border border-border/30">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">{describeAlert(alert)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {alert.lastTriggeredAt
+                      ? `Last fired ${new Date(alert.lastTriggeredAt).toLocaleString()}`
+                      : alert.lastCheckedAt ? "Not fired yet" : "Not checked yet"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={alert.active}
+                    onCheckedChange={active => handleToggle(alert, active)}
+                    aria-label={alert.active ? "Pause alert" : "Resume alert"}
+                  />
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleDelete(alert)} aria-label="Delete alert">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
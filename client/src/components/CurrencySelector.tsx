@@ -0,0 +1,40 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { currencies, type Currency } from "@shared/schema";
+
+export const CurrencySelector = () => {
+  const { baseCurrency, setBaseCurrency } = useCurrency();
+  const { toast } = useToast();
+
+  const handleChange = async (value: string) => {
+    try {
+      await setBaseCurrency(value as Currency);
+    } catch (error) {
+      toast({
+        title: "Error changing currency",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Select value={baseCurrency} onValueChange={handleChange}>
+      <SelectTrigger className="w-24 border-border/50" aria-label="Display currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map((currency) => (
+          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
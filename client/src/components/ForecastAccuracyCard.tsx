@@ -0,0 +1,56 @@
+import { Card } from "@/components/ui/card";
+import { Target } from "lucide-react";
+import { formatCurrency } from "@/services/stockApi";
+import type { ForecastAccuracy } from "@shared/schema";
+
+interface ForecastAccuracyCardProps {
+  accuracy: ForecastAccuracy[];
+  pending: number;
+  currency: string;
+}
+
+const HORIZON_LABELS: Record<ForecastAccuracy["horizon"], string> = { "1d": "1 Day", "1w": "1 Week", "1m": "1 Month" };
+
+const percent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+// Track record of past forecasts: median error, direction hit rate, and how often the
+// actual close fell inside the 80% interval (well calibrated when close to 80%)
+export const ForecastAccuracyCard = ({ accuracy, pending, currency }: ForecastAccuracyCardProps) => (
+  <Card className="bg-gradient-card shadow-card border-border/50 animate-slide-in">
+    <div className="p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Target className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Forecast Track Record</h3>
+      </div>
+
+      {accuracy.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No forecast has reached its target day yet{pending > 0 ? ` (${pending} pending)` : ""}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-5 gap-2 text-xs text-muted-foreground">
+            <span>Horizon</span>
+            <span className="text-right">Scored</span>
+            <span className="text-right">MAE (MAPE)</span>
+            <span className="text-right">Direction</span>
+            <span className="text-right">In 80% band</span>
+          </div>
+          {accuracy.map(row => (
+            <div
+              key={`${row.model}:${row.horizon}`}
+              className="grid grid-cols-5 gap-2 p-3 rounded-lg bg-secondary/20 border border-border/30 text-xs"
+            >
+              <span className="font-medium text-foreground">{HORIZON_LABELS[row.horizon]} · {row.model}</span>
+              <span className="text-right">{row.count}</span>
+              <span className="text-right">{formatCurrency(row.mae, currency)} ({row.mape.toFixed(1)}%)</span>
+              <span className="text-right">{percent(row.hitRate)}</span>
+              <span className="text-right">{percent(row.coverage80)}</span>
+            </div>
+          ))}
+          {pending > 0 && <p className="text-xs text-muted-foreground">{pending} forecasts still pending</p>}
+        </div>
+      )}
+    </div>
+  </Card>
+);
@@ -2,12 +2,17 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUp, TrendingDown, Clock, Brain } from "lucide-react";
-import { convertToEur, formatEurCurrency } from "@/services/stockApi";
+import { convert, formatCurrency } from "@/services/stockApi";
+import { useCurrency } from "@/hooks/use-currency";
+import { ForecastFanChart } from "@/components/ForecastFanChart";
+import type { ForecastQuantiles } from "@shared/schema";
 
 interface ForecastData {
+  model?: string;
   period: "1d" | "1w" | "1m";
   label: string;
   prediction: number;
+  quantiles?: ForecastQuantiles;
   confidence: number;
   trend: "up" | "down" | "neutral";
   reasoning?: string;
@@ -15,38 +20,44 @@ interface ForecastData {
 
 interface ForecastCardProps {
   currentPrice: number;
+  currency: string;
   forecasts: ForecastData[];
   aiInsight?: string;
 }
 
-export const ForecastCard = ({ currentPrice, forecasts, aiInsight }: ForecastCardProps) => {
-  const [eurCurrentPrice, setEurCurrentPrice] = useState<number | null>(null);
-  const [eurForecasts, setEurForecasts] = useState<Array<ForecastData & { eurPrediction: number; usdPrediction: number }> | null>(null);
+export const ForecastCard = ({ currentPrice, currency, forecasts, aiInsight }: ForecastCardProps) => {
+  const { baseCurrency } = useCurrency();
+  const [displayCurrentPrice, setDisplayCurrentPrice] = useState<number | null>(null);
+  const [displayForecasts, setDisplayForecasts] = useState<Array<ForecastData & { displayPrediction: number; nativePrediction: number }> | null>(null);
+  // Listing to base currency; conversion is linear, so the bands scale by the same rate
+  const [displayRate, setDisplayRate] = useState(1);
 
   useEffect(() => {
     const convertPrices = async () => {
       try {
         const [convertedCurrentPrice, ...convertedForecasts] = await Promise.all([
-          convertToEur(currentPrice),
-          ...forecasts.map(f => convertToEur(f.prediction))
+          convert(currentPrice, currency, baseCurrency),
+          ...forecasts.map(f => convert(f.prediction, currency, baseCurrency))
         ]);
         
-        setEurCurrentPrice(convertedCurrentPrice);
-        setEurForecasts(forecasts.map((forecast, index) => ({
+        setDisplayCurrentPrice(convertedCurrentPrice);
+        setDisplayRate(currentPrice > 0 ? convertedCurrentPrice / currentPrice : 1);
+        setDisplayForecasts(forecasts.map((forecast, index) => ({
           ...forecast,
-          eurPrediction: convertedForecasts[index],
-          usdPrediction: forecast.prediction
+          displayPrediction: convertedForecasts[index],
+          nativePrediction: forecast.prediction
         })));
       } catch (error) {
-        console.error("Error converting forecast to EUR:", error);
-        // Fallback to USD values
-        setEurCurrentPrice(currentPrice);
-        setEurForecasts(forecasts.map(f => ({ ...f, eurPrediction: f.prediction, usdPrediction: f.prediction })));
+        console.error(`Error converting forecast to ${baseCurrency}:`, error);
+        // Fallback to the listing currency values
+        setDisplayCurrentPrice(currentPrice);
+        setDisplayRate(1);
+        setDisplayForecasts(forecasts.map(f => ({ ...f, displayPrediction: f.prediction, nativePrediction: f.prediction })));
       }
     };
     
     convertPrices();
-  }, [currentPrice, forecasts]);
+  }, [currentPrice, currency, forecasts, baseCurrency]);
   const getTrendIcon = (trend: string) => {
     switch (trend) {
       case "up":
@@ -70,12 +81,24 @@ export const ForecastCard = ({ currentPrice, forecasts, aiInsight }: ForecastCar
         <div className="flex items-center gap-2">
           <Brain className="h-5 w-5 text-primary" />
           <h3 className="text-lg font-semibold text-foreground">AI Price Forecast</h3>
+          {forecasts[0]?.model && (
+            <Badge variant="outline" className="ml-auto text-xs">{forecasts[0].model}</Badge>
+          )}
         </div>
 
+        {displayForecasts && (
+          <ForecastFanChart
+            currentPrice={currentPrice}
+            forecasts={forecasts}
+            currency={baseCurrency}
+            rate={displayRate}
+          />
+        )}
+
         <div className="space-y-4">
-          {eurForecasts?.map((forecast) => {
-            const change = forecast.eurPrediction - (eurCurrentPrice || 0);
-            const changePercent = (change / (eurCurrentPrice || 1)) * 100;
+          {displayForecasts?.map((forecast) => {
+            const change = forecast.displayPrediction - (displayCurrentPrice || 0);
+            const changePercent = (change / (displayCurrentPrice || 1)) * 100;
             
             return (
               <div
@@ -100,14 +123,21 @@ export const ForecastCard = ({ currentPrice, forecasts, aiInsight }: ForecastCar
                 <div className="text-right">
                   <div className="space-y-1">
                     <p className="text-sm font-semibold text-foreground">
-                      {formatEurCurrency(forecast.eurPrediction)}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      ${forecast.usdPrediction.toFixed(2)} USD
+                      {formatCurrency(forecast.displayPrediction, baseCurrency)}
                     </p>
+                    {baseCurrency !== currency && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(forecast.nativePrediction, currency)}
+                      </p>
+                    )}
                     <p className={`text-xs ${change >= 0 ? "text-success" : "text-danger"}`}>
-                      {change >= 0 ? "+" : ""}{formatEurCurrency(change)} ({changePercent.toFixed(1)}%)
+                      {change >= 0 ? "+" : ""}{formatCurrency(change, baseCurrency)} ({changePercent.toFixed(1)}%)
                     </p>
+                    {forecast.quantiles && (
+                      <p className="text-xs text-muted-foreground">
+                        80%: {formatCurrency(forecast.quantiles.p10 * displayRate, baseCurrency)} – {formatCurrency(forecast.quantiles.p90 * displayRate, baseCurrency)}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
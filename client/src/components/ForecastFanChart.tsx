@@ -0,0 +1,94 @@
+import { Area, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { formatCurrency, type ForecastData } from "@/services/stockApi";
+
+interface ForecastFanChartProps {
+  currentPrice: number;
+  forecasts: ForecastData[];
+  currency: string;
+  rate: number; // from the forecast's listing currency into `currency`
+}
+
+interface FanPoint {
+  days: number;
+  label: string;
+  outer: [number, number]; // 10th to 90th percentile
+  inner: [number, number]; // 25th to 75th percentile
+  median: number;
+}
+
+// Trading days after today of each horizon, matching the server's model
+const HORIZON_DAYS: Record<ForecastData["period"], number> = { "1d": 1, "1w": 5, "1m": 21 };
+
+const chartConfig = {
+  outer: { label: "80% interval", color: "rgb(var(--primary))" },
+  inner: { label: "50% interval", color: "rgb(var(--primary))" },
+  median: { label: "Median", color: "rgb(var(--primary))" },
+} satisfies ChartConfig;
+
+// Fan of prediction intervals widening from today's price out to the longest horizon
+export const ForecastFanChart = ({ currentPrice, forecasts, currency, rate }: ForecastFanChartProps) => {
+  const withBands = forecasts.filter(forecast => forecast.quantiles);
+  if (withBands.length === 0) {
+    return null;
+  }
+
+  const start = currentPrice * rate;
+  const data: FanPoint[] = [
+    { days: 0, label: "Today", outer: [start, start], inner: [start, start], median: start },
+    ...withBands.map(({ period, label, quantiles }): FanPoint => ({
+      days: HORIZON_DAYS[period],
+      label,
+      outer: [quantiles!.p10 * rate, quantiles!.p90 * rate],
+      inner: [quantiles!.p25 * rate, quantiles!.p75 * rate],
+      median: quantiles!.p50 * rate,
+    })),
+  ];
+  data.sort((a, b) => a.days - b.days);
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[180px] w-full">
+      <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+        <XAxis
+          dataKey="days"
+          type="number"
+          domain={[0, "dataMax"]}
+          ticks={data.map(point => point.days)}
+          tickFormatter={(days: number) => data.find(point => point.days === days)?.label ?? ""}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis
+          domain={["auto", "auto"]}
+          tickFormatter={(value: number) => formatCurrency(value, currency)}
+          tickLine={false}
+          axisLine={false}
+          width={80}
+        />
+        <ChartTooltip
+          content={({ active, payload }) => {
+            const point = payload?.[0]?.payload as FanPoint | undefined;
+            if (!active || !point || point.days === 0) {
+              return null;
+            }
+            return (
+              <div className="grid gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                <p className="font-medium">{point.label}</p>
+                <p>Median {formatCurrency(point.median, currency)}</p>
+                <p className="text-muted-foreground">
+                  50%: {formatCurrency(point.inner[0], currency)} – {formatCurrency(point.inner[1], currency)}
+                </p>
+                <p className="text-muted-foreground">
+                  80%: {formatCurrency(point.outer[0], currency)} – {formatCurrency(point.outer[1], currency)}
+                </p>
+              </div>
+            );
+          }}
+        />
+        <Area dataKey="outer" stroke="none" fill="var(--color-outer)" fillOpacity={0.15} isAnimationActive={false} />
+        <Area dataKey="inner" stroke="none" fill="var(--color-inner)" fillOpacity={0.3} isAnimationActive={false} />
+        <Line dataKey="median" stroke="var(--color-median)" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,93 @@
+import { Bar, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { formatDate } from "@/components/PriceChart";
+import { formatCurrency } from "@/services/stockApi";
+import type { IndicatorValues } from "@shared/schema";
+
+export type Oscillator = "rsi" | "macd" | "atr";
+
+interface IndicatorPaneProps {
+  kind: Oscillator;
+  values: IndicatorValues[];
+  domain: [number, number]; // the price chart's time axis, so the panes line up under it
+  currency: string;
+}
+
+const TITLES: Record<Oscillator, string> = { rsi: "RSI (14)", macd: "MACD (12, 26, 9)", atr: "ATR (14)" };
+
+const chartConfig = {
+  rsi: { label: "RSI", color: "rgb(var(--primary))" },
+  macd: { label: "MACD", color: "rgb(var(--primary))" },
+  macdSignal: { label: "Signal", color: "rgb(var(--warning))" },
+  macdHistogram: { label: "Histogram", color: "rgb(var(--muted-foreground))" },
+  atr: { label: "ATR", color: "rgb(var(--primary))" },
+} satisfies ChartConfig;
+
+// Keys of each pane's series, in drawing order
+const SERIES: Record<Oscillator, (keyof typeof chartConfig)[]> = {
+  rsi: ["rsi"],
+  macd: ["macdHistogram", "macd", "macdSignal"],
+  atr: ["atr"],
+};
+
+// An oscillator under the price chart: RSI with its 30/70 bands, MACD with signal and
+// histogram, or ATR in the listing currency
+export const IndicatorPane = ({ kind, values, domain, currency }: IndicatorPaneProps) => {
+  const format = (value: number) => kind === "atr" ? formatCurrency(value, currency) : value.toFixed(2);
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{TITLES[kind]}</p>
+      <ChartContainer config={chartConfig} className="aspect-auto h-[120px] w-full">
+        <ComposedChart data={values} margin={{ top: 4, right: 8, bottom: 0, left: 8 }}>
+          <XAxis dataKey="time" type="number" scale="time" domain={domain} hide />
+          <YAxis
+            orientation="right"
+            domain={kind === "rsi" ? [0, 100] : ["auto", "auto"]}
+            ticks={kind === "rsi" ? [30, 70] : undefined}
+            tickFormatter={format}
+            tickLine={false}
+            axisLine={false}
+            width={80}
+          />
+          <ChartTooltip
+            content={({ active, payload }) => {
+              const row = payload?.[0]?.payload as IndicatorValues | undefined;
+              if (!active || !row) {
+                return null;
+              }
+              return (
+                <div className="grid gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                  <p className="font-medium">{formatDate(row.time)}</p>
+                  {SERIES[kind].map(key => {
+                    const value = row[key];
+                    return typeof value === "number" && <p key={key}>{chartConfig[key].label} {format(value)}</p>;
+                  })}
+                </div>
+              );
+            }}
+          />
+          {kind === "rsi" && (
+            <>
+              <ReferenceLine y={70} stroke="rgb(var(--danger))" strokeDasharray="3 3" />
+              <ReferenceLine y={30} stroke="rgb(var(--success))" strokeDasharray="3 3" />
+            </>
+          )}
+          {kind === "macd" && <ReferenceLine y={0} stroke="rgb(var(--border))" />}
+          {SERIES[kind].map(key => key === "macdHistogram" ? (
+            <Bar key={key} dataKey={key} fill={`var(--color-${key})`} opacity={0.4} isAnimationActive={false} />
+          ) : (
+            <Line
+              key={key}
+              dataKey={key}
+              stroke={`var(--color-${key})`}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </ComposedChart>
+      </ChartContainer>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { AlertTriangle, Clock } from "lucide-react";
+import { getMarketStatus } from "@/services/marketDataApi";
+import type { UpstreamStatus } from "@shared/schema";
+
+const POLL_INTERVAL = 5000;
+
+const formatWait = (ms: number) => ms < 60000 ? `${Math.ceil(ms / 1000)}s` : `${Math.ceil(ms / 60000)}min`;
+
+// Shows when market data providers are failing or requests wait behind the
+// server's rate limits; hidden while everything is healthy and nothing is queued
+export const MarketDataStatus = () => {
+  const [status, setStatus] = useState<UpstreamStatus[]>([]);
+
+  useEffect(() => {
+    const poll = () => getMarketStatus()
+      .then(setStatus)
+      .catch(error => console.error("Error loading market data status:", error));
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const degraded = status.filter(service => service.degraded);
+  const busy = status.filter(service => service.queued.interactive + service.queued.background > 0);
+
+  const totalQueued = busy.reduce((sum, service) => sum + service.queued.interactive + service.queued.background, 0);
+  const longestWait = Math.max(0, ...busy.map(service => service.estimatedWaitMs.interactive));
+
+  return (
+    <>
+      {degraded.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="danger" className="gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Provider degraded
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>
+            {degraded.map(service => (
+              <p key={service.service} className="text-xs">
+                {service.service}: circuit {service.circuit}, {service.consecutiveFailures} failed
+                {service.retryAt && `, retrying ${new Date(service.retryAt).toLocaleTimeString()}`}
+                {service.lastError && ` (${service.lastError})`}
+              </p>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {busy.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="warning" className="gap-1">
+              <Clock className="h-3 w-3" />
+              {totalQueued} queued · ~{formatWait(longestWait)}
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>
+            {busy.map(service => (
+              <p key={service.service} className="text-xs">
+                {service.service}: {service.queued.interactive} interactive, {service.queued.background} background
+                ({service.limit}, next in ~{formatWait(service.estimatedWaitMs.interactive)})
+              </p>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </>
+  );
+};
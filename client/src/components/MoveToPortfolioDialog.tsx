@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { MoveToPortfolio, Portfolio } from "@shared/schema";
+
+interface MoveToPortfolioDialogProps {
+  symbol: string;
+  currency: string;
+  price?: number; // current quote, the default purchase price
+  portfolios: Portfolio[];
+  defaultPortfolioId?: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMove: (move: MoveToPortfolio) => Promise<void>;
+}
+
+// Buys a watched symbol into a portfolio; the buy goes into the ledger like any other
+export const MoveToPortfolioDialog = ({
+  symbol, currency, price, portfolios, defaultPortfolioId, open, onOpenChange, onMove
+}: MoveToPortfolioDialogProps) => {
+  const [portfolioId, setPortfolioId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [buyPrice, setBuyPrice] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPortfolioId(String(defaultPortfolioId ?? portfolios[0]?.id ?? ""));
+      setQuantity("");
+      setBuyPrice(price !== undefined ? String(price) : "");
+    }
+  }, [open]);
+
+  const isValid = Number(portfolioId) > 0 && Number(quantity) > 0 && buyPrice !== "" && Number(buyPrice) >= 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onMove({ portfolioId: Number(portfolioId), quantity: Number(quantity), price: Number(buyPrice) });
+      onOpenChange(false);
+    } catch {
+      // Already reported by the caller
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Move {symbol} to Portfolio</DialogTitle>
+            <DialogDescription>
+              Records a buy in the portfolio's ledger and takes {symbol} off the watchlist. The price is in {currency}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Portfolio</Label>
+            <Select value={portfolioId} onValueChange={setPortfolioId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a portfolio" />
+              </SelectTrigger>
+              <SelectContent>
+                {portfolios.map(portfolio => (
+                  <SelectItem key={portfolio.id} value={String(portfolio.id)}>{portfolio.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="move-quantity">Shares</Label>
+              <Input
+                id="move-quantity"
+                type="number"
+                min="0"
+                step="any"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder="e.g. 10"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="move-price">Price</Label>
+              <Input
+                id="move-price"
+                type="number"
+                min="0"
+                step="any"
+                value={buyPrice}
+                onChange={(e) => setBuyPrice(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !isValid} className="bg-gradient-primary">
+              {saving ? "Saving..." : "Buy"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,85 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface NameDialogProps {
+  title: string;
+  description: string;
+  initialName?: string;
+  placeholder?: string;
+  submitLabel: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Rejecting keeps the dialog open to try another name; the caller reports the error
+  onSave: (name: string) => Promise<void>;
+}
+
+// Asks for the name of a new or renamed portfolio or watchlist
+export const NameDialog = ({ title, description, initialName = "", placeholder, submitLabel, open, onOpenChange, onSave }: NameDialogProps) => {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(initialName);
+    }
+  }, [open, initialName]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSave(name.trim());
+      onOpenChange(false);
+    } catch {
+      // Already reported by the caller
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="name-dialog-name">Name</Label>
+            <Input
+              id="name-dialog-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              maxLength={60}
+              placeholder={placeholder}
+              autoFocus
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()} className="bg-gradient-primary">
+              {saving ? "Saving..." : submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
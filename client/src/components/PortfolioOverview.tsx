@@ -1,46 +1,39 @@
-import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
-import { TrendingUp, TrendingDown, DollarSign, BarChart3 } from "lucide-react";
-import { convertToEur, formatEurCurrency } from "@/services/stockApi";
-
-interface PortfolioData {
-  totalValue: number;
-  totalChange: number;
-  totalChangePercent: number;
-  stockCount: number;
-}
+import { TrendingUp, TrendingDown, DollarSign, BarChart3, Wallet, Briefcase } from "lucide-react";
+import { formatCurrency } from "@/services/stockApi";
+import { useCurrency } from "@/hooks/use-currency";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PortfolioTotals } from "@/lib/portfolio";
+import type { CostBasisMethod } from "@shared/schema";
 
 interface PortfolioOverviewProps {
-  portfolio: PortfolioData;
+  portfolio: PortfolioTotals; // already converted into the base currency
+  costBasisMethod?: CostBasisMethod;
+  onCostBasisMethodChange?: (method: CostBasisMethod) => void;
+  breakdown?: { name: string; value: number }[]; // value of each portfolio in the consolidated view, in the base currency
 }
 
-export const PortfolioOverview = ({ portfolio }: PortfolioOverviewProps) => {
-  const [eurTotalValue, setEurTotalValue] = useState<number | null>(null);
-  const [eurTotalChange, setEurTotalChange] = useState<number | null>(null);
+const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  average: "Average Cost",
+};
 
-  useEffect(() => {
-    const convertValues = async () => {
-      try {
-        const [convertedValue, convertedChange] = await Promise.all([
-          convertToEur(portfolio.totalValue),
-          convertToEur(portfolio.totalChange)
-        ]);
-        setEurTotalValue(convertedValue);
-        setEurTotalChange(convertedChange);
-      } catch (error) {
-        console.error("Error converting portfolio to EUR:", error);
-        setEurTotalValue(portfolio.totalValue);
-        setEurTotalChange(portfolio.totalChange);
-      }
-    };
-    
-    convertValues();
-  }, [portfolio.totalValue, portfolio.totalChange]);
+export const PortfolioOverview = ({ portfolio, costBasisMethod, onCostBasisMethodChange, breakdown }: PortfolioOverviewProps) => {
+  const { baseCurrency } = useCurrency();
   const isPositive = portfolio.totalChange >= 0;
   const TrendIcon = isPositive ? TrendingUp : TrendingDown;
+  const isPnlPositive = portfolio.unrealizedPnl >= 0;
+  const isRealizedPositive = portfolio.realizedPnl >= 0;
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
       {/* Total Portfolio Value */}
       <Card className="bg-gradient-card shadow-card border-border/50 animate-slide-in">
         <div className="p-6">
@@ -51,7 +44,7 @@ export const PortfolioOverview = ({ portfolio }: PortfolioOverviewProps) => {
             <div>
               <p className="text-sm text-muted-foreground">Total Value</p>
               <p className="text-2xl font-bold text-foreground">
-                {eurTotalValue !== null ? formatEurCurrency(eurTotalValue) : "Loading..."}
+                {formatCurrency(portfolio.totalValue, baseCurrency)}
               </p>
             </div>
           </div>
@@ -69,10 +62,7 @@ export const PortfolioOverview = ({ portfolio }: PortfolioOverviewProps) => {
               <p className="text-sm text-muted-foreground">Today's Change</p>
               <div className="flex items-center gap-2">
                 <p className={`text-2xl font-bold ${isPositive ? 'text-success' : 'text-danger'}`}>
-                  {eurTotalChange !== null 
-                    ? `${isPositive ? '+' : ''}${formatEurCurrency(eurTotalChange)}`
-                    : "Loading..."
-                  }
+                  {`${isPositive ? '+' : ''}${formatCurrency(portfolio.totalChange, baseCurrency)}`}
                 </p>
                 <span className={`text-sm font-medium ${isPositive ? 'text-success' : 'text-danger'}`}>
                   ({isPositive ? '+' : ''}{portfolio.totalChangePercent.toFixed(2)}%)
@@ -83,6 +73,34 @@ export const PortfolioOverview = ({ portfolio }: PortfolioOverviewProps) => {
         </div>
       </Card>
 
+      {/* Unrealized P&L */}
+      <Card className="bg-gradient-card shadow-card border-border/50 animate-slide-in">
+        <div className="p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <div className={`p-2 rounded-lg ${isPnlPositive ? 'bg-success/20' : 'bg-danger/20'}`}>
+              <Wallet className={`h-5 w-5 ${isPnlPositive ? 'text-success' : 'text-danger'}`} />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Unrealized P&L</p>
+              <div className="flex items-center gap-2">
+                <p className={`text-2xl font-bold ${isPnlPositive ? 'text-success' : 'text-danger'}`}>
+                  {`${isPnlPositive ? '+' : ''}${formatCurrency(portfolio.unrealizedPnl, baseCurrency)}`}
+                </p>
+                <span className={`text-sm font-medium ${isPnlPositive ? 'text-success' : 'text-danger'}`}>
+                  ({isPnlPositive ? '+' : ''}{portfolio.unrealizedPnlPercent.toFixed(2)}%)
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Realized:{' '}
+                <span className={isRealizedPositive ? 'text-success' : 'text-danger'}>
+                  {`${isRealizedPositive ? '+' : ''}${formatCurrency(portfolio.realizedPnl, baseCurrency)}`}
+                </span>
+              </p>
+            </div>
+          </div>
+        </div>
+      </Card>
+
       {/* Stock Count */}
       <Card className="bg-gradient-card shadow-card border-border/50 animate-slide-in">
         <div className="p-6">
@@ -97,8 +115,51 @@ export const PortfolioOverview = ({ portfolio }: PortfolioOverviewProps) => {
               </p>
             </div>
           </div>
+          {costBasisMethod && onCostBasisMethodChange && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">Cost basis</span>
+              <Select value={costBasisMethod} onValueChange={(value) => onCostBasisMethodChange(value as CostBasisMethod)}>
+                <SelectTrigger className="h-8 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(COST_BASIS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
       </Card>
+
+      {/* Value per portfolio */}
+      {breakdown && breakdown.length > 0 && (
+        <Card className="bg-gradient-card shadow-card border-border/50 animate-slide-in md:col-span-2 xl:col-span-4">
+          <div className="p-6 space-y-3">
+            <div className="flex items-center gap-2">
+              <Briefcase className="h-5 w-5 text-primary" />
+              <p className="text-sm text-muted-foreground">By Portfolio</p>
+            </div>
+            {breakdown.map(({ name, value }) => {
+              const share = portfolio.totalValue > 0 ? (value / portfolio.totalValue) * 100 : 0;
+              return (
+                <div key={name} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-foreground">{name}</span>
+                    <span className="text-muted-foreground">
+                      {formatCurrency(value, baseCurrency)} · {share.toFixed(1)}%
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-secondary/40">
+                    <div className="h-1.5 rounded-full bg-primary" style={{ width: `${share}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
     </div>
   );
 };
\ No newline at end of file
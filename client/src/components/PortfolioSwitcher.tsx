@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Briefcase, MoreVertical, Pencil, Plus, Trash2 } from "lucide-react";
+import { NameDialog } from "@/components/NameDialog";
+import type { Portfolio } from "@shared/schema";
+
+// The portfolio shown, or every portfolio together
+export type PortfolioSelection = number | "all";
+
+interface PortfolioSwitcherProps {
+  portfolios: Portfolio[];
+  selected: PortfolioSelection;
+  onSelect: (selection: PortfolioSelection) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: number, name: string) => Promise<void>;
+  onDelete: (id: number) => Promise<void>;
+}
+
+const ALL = "all";
+
+export const PortfolioSwitcher = ({ portfolios, selected, onSelect, onCreate, onRename, onDelete }: PortfolioSwitcherProps) => {
+  // "create" names a new portfolio, "rename" the selected one
+  const [dialog, setDialog] = useState<"create" | "rename" | null>(null);
+  const current = portfolios.find(portfolio => portfolio.id === selected);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={String(selected)} onValueChange={value => onSelect(value === ALL ? ALL : Number(value))}>
+        <SelectTrigger className="w-44 border-border/50" aria-label="Portfolio">
+          <Briefcase className="h-4 w-4 mr-2 text-muted-foreground" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {portfolios.map(portfolio => (
+            <SelectItem key={portfolio.id} value={String(portfolio.id)}>{portfolio.name}</SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={ALL}>All portfolios</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-9 w-9 p-0" aria-label="Manage portfolios">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setDialog("create")}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Portfolio
+          </DropdownMenuItem>
+          {current && (
+            <>
+              <DropdownMenuItem onClick={() => setDialog("rename")}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename {current.name}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => onDelete(current.id).catch(() => {})}
+                disabled={portfolios.length === 1}
+                className="text-danger"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete {current.name}
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <NameDialog
+        title={dialog === "rename" ? "Rename Portfolio" : "New Portfolio"}
+        description="Keep separate accounts, such as a retirement or a child's account, in their own portfolio."
+        initialName={dialog === "rename" ? current?.name : ""}
+        placeholder="e.g. Retirement"
+        submitLabel={dialog === "rename" ? "Rename" : "Create"}
+        open={dialog !== null}
+        onOpenChange={open => !open && setDialog(null)}
+        onSave={name => dialog === "rename" && current ? onRename(current.id, name) : onCreate(name)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Position } from "@/lib/portfolio";
+
+interface PositionDialogProps {
+  symbol: string;
+  position?: Position;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (position: Position) => Promise<void>;
+}
+
+export const PositionDialog = ({ symbol, position, open, onOpenChange, onSave }: PositionDialogProps) => {
+  const [quantity, setQuantity] = useState("");
+  const [averageCost, setAverageCost] = useState("");
+  const [purchaseDate, setPurchaseDate] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setQuantity(position?.quantity ? String(position.quantity) : "");
+      setAverageCost(position?.averageCost ? String(position.averageCost) : "");
+      setPurchaseDate(position?.purchaseDate ? position.purchaseDate.slice(0, 10) : "");
+    }
+  }, [open, position]);
+
+  const isValid = Number(quantity) >= 0 && Number(averageCost) >= 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        quantity: Number(quantity) || 0,
+        averageCost: Number(averageCost) || 0,
+        purchaseDate: purchaseDate || null,
+      });
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{symbol} Position</DialogTitle>
+            <DialogDescription>
+              Enter the number of shares you hold and the average price you paid, in the currency the stock trades in.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="position-quantity">Shares</Label>
+              <Input
+                id="position-quantity"
+                type="number"
+                min="0"
+                step="any"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder="e.g. 12.5"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="position-cost">Average Cost</Label>
+              <Input
+                id="position-cost"
+                type="number"
+                min="0"
+                step="any"
+                value={averageCost}
+                onChange={(e) => setAverageCost(e.target.value)}
+                placeholder="e.g. 182.40"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="position-date">Purchase Date</Label>
+            <Input
+              id="position-date"
+              type="date"
+              value={purchaseDate}
+              onChange={(e) => setPurchaseDate(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !isValid} className="bg-gradient-primary">
+              {saving ? "Saving..." : "Save Position"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
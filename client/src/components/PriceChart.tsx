@@ -0,0 +1,223 @@
+import { Bar, ComposedChart, Line, ReferenceDot, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { formatCurrency, type ForecastData } from "@/services/stockApi";
+import type { HistoricalCandle, IndicatorValues, Transaction } from "@shared/schema";
+
+export type ChartStyle = "line" | "ohlc";
+
+interface PriceChartProps {
+  candles: HistoricalCandle[];
+  currency: string;
+  style: ChartStyle;
+  transactions?: Transaction[];
+  forecast?: ForecastData[];
+  indicators?: IndicatorValues[]; // moving averages, Bollinger Bands and VWAP in these are drawn over the price
+}
+
+// Indicators drawn over the price; the oscillators go in IndicatorPane underneath
+const OVERLAYS = ["sma", "ema", "bollingerUpper", "bollingerMiddle", "bollingerLower", "vwap"] as const;
+
+// One x-axis point: a historical bar, or a forecast horizon after the last one
+interface ChartPoint {
+  time: number;
+  candle?: HistoricalCandle;
+  close?: number;
+  range?: [number, number]; // low and high, drawn as the candle
+  volume?: number;
+  projection?: number;
+  overlays?: IndicatorValues;
+}
+
+const DAY_SECONDS = 86400;
+
+// Days after the last bar each forecast horizon lands on
+const FORECAST_DAYS: Record<ForecastData["period"], number> = { "1d": 1, "1w": 7, "1m": 30 };
+
+const chartConfig = {
+  close: { label: "Close", color: "rgb(var(--primary))" },
+  volume: { label: "Volume", color: "rgb(var(--muted-foreground))" },
+  projection: { label: "Forecast", color: "rgb(var(--warning))" },
+  sma: { label: "SMA", color: "rgb(var(--info))" },
+  ema: { label: "EMA", color: "rgb(var(--accent))" },
+  bollingerUpper: { label: "Bollinger upper", color: "rgb(var(--muted-foreground))" },
+  bollingerMiddle: { label: "Bollinger middle", color: "rgb(var(--muted-foreground))" },
+  bollingerLower: { label: "Bollinger lower", color: "rgb(var(--muted-foreground))" },
+  vwap: { label: "VWAP", color: "rgb(var(--foreground))" },
+} satisfies ChartConfig;
+
+// First and last time on the x axis, so panes drawn under the chart can line up with it
+export const timeDomain = (candles: HistoricalCandle[], forecast: ForecastData[] = []): [number, number] => {
+  const last = candles[candles.length - 1]?.time ?? 0;
+  const horizon = Math.max(0, ...forecast.map(point => FORECAST_DAYS[point.period]));
+  return [candles[0]?.time ?? 0, last + horizon * DAY_SECONDS];
+};
+
+export const formatDate = (time: number) =>
+  new Date(time * 1000).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "2-digit" });
+
+// What recharts passes the bar shape; it fills these in when it clones <Candlestick />
+interface CandlestickProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartPoint;
+}
+
+// Draws an OHLC candle inside the low-high box recharts gives a range bar
+const Candlestick = ({ x = 0, y = 0, width = 0, height, payload }: CandlestickProps) => {
+  const candle = payload?.candle;
+  if (!candle || height === undefined) {
+    return null;
+  }
+
+  const span = candle.high - candle.low || 1;
+  const toY = (price: number) => y + ((candle.high - price) / span) * height;
+  const color = candle.close >= candle.open ? "rgb(var(--success))" : "rgb(var(--danger))";
+  const bodyTop = toY(Math.max(candle.open, candle.close));
+  const bodyHeight = Math.max(1, Math.abs(toY(candle.open) - toY(candle.close)));
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+// Price history with volume underneath, buys and sells from the ledger as markers,
+// the forecast projected past the last bar, and any indicator overlays. Prices are in
+// the listing currency.
+export const PriceChart = ({ candles, currency, style, transactions = [], forecast = [], indicators = [] }: PriceChartProps) => {
+  if (candles.length === 0) {
+    return null;
+  }
+
+  const last = candles[candles.length - 1];
+  const indicatorsByTime = new Map(indicators.map(row => [row.time, row]));
+  const data: ChartPoint[] = candles.map(candle => ({
+    time: candle.time,
+    candle,
+    close: candle.close,
+    range: [candle.low, candle.high],
+    volume: candle.volume,
+    overlays: indicatorsByTime.get(candle.time),
+  }));
+  const overlays = OVERLAYS.filter(key => indicators.some(row => row[key] !== undefined));
+
+  if (forecast.length > 0) {
+    data[data.length - 1].projection = last.close;
+    for (const point of forecast) {
+      data.push({ time: last.time + FORECAST_DAYS[point.period] * DAY_SECONDS, projection: point.prediction });
+    }
+  }
+
+  const first = candles[0].time;
+  const markers = transactions.filter(tx => {
+    const time = new Date(tx.executedAt).getTime() / 1000;
+    return (tx.type === "buy" || tx.type === "sell") && tx.price && time >= first && time <= last.time + DAY_SECONDS;
+  });
+
+  const maxVolume = Math.max(...candles.map(candle => candle.volume));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[400px] w-full">
+      <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={timeDomain(candles, forecast)}
+          tickFormatter={formatDate}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+        />
+        <YAxis
+          yAxisId="price"
+          orientation="right"
+          domain={["auto", "auto"]}
+          tickFormatter={(value: number) => formatCurrency(value, currency)}
+          tickLine={false}
+          axisLine={false}
+          width={80}
+        />
+        {/* Volume only uses the bottom quarter of the plot */}
+        <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4]} />
+        <ChartTooltip
+          content={({ active, payload }) => {
+            const point = payload?.[0]?.payload as ChartPoint | undefined;
+            if (!active || !point) {
+              return null;
+            }
+            return (
+              <div className="grid gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                <p className="font-medium">{formatDate(point.time)}</p>
+                {point.candle && (
+                  <>
+                    <p>O {formatCurrency(point.candle.open, currency)} · H {formatCurrency(point.candle.high, currency)}</p>
+                    <p>L {formatCurrency(point.candle.low, currency)} · C {formatCurrency(point.candle.close, currency)}</p>
+                    <p className="text-muted-foreground">Volume {point.candle.volume.toLocaleString()}</p>
+                  </>
+                )}
+                {overlays.map(key => {
+                  const value = point.overlays?.[key];
+                  return typeof value === "number" && (
+                    <p key={key} className="text-muted-foreground">
+                      {chartConfig[key].label} {formatCurrency(value, currency)}
+                    </p>
+                  );
+                })}
+                {!point.candle && point.projection !== undefined && (
+                  <p>Forecast {formatCurrency(point.projection, currency)}</p>
+                )}
+              </div>
+            );
+          }}
+        />
+        <Bar yAxisId="volume" dataKey="volume" fill="var(--color-volume)" opacity={0.3} isAnimationActive={false} />
+        {style === "ohlc" ? (
+          <Bar yAxisId="price" dataKey="range" shape={<Candlestick />} isAnimationActive={false} />
+        ) : (
+          <Line yAxisId="price" dataKey="close" stroke="var(--color-close)" strokeWidth={2} dot={false} isAnimationActive={false} />
+        )}
+        {overlays.map(key => (
+          <Line
+            key={key}
+            yAxisId="price"
+            dataKey={(point: ChartPoint) => point.overlays?.[key] ?? undefined}
+            name={key}
+            stroke={`var(--color-${key})`}
+            strokeWidth={key === "bollingerMiddle" ? 1 : 1.5}
+            strokeDasharray={key.startsWith("bollinger") ? "3 3" : undefined}
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+        <Line
+          yAxisId="price"
+          dataKey="projection"
+          stroke="var(--color-projection)"
+          strokeWidth={2}
+          strokeDasharray="5 5"
+          dot={{ r: 3 }}
+          connectNulls
+          isAnimationActive={false}
+        />
+        {markers.map(tx => (
+          <ReferenceDot
+            key={tx.id}
+            yAxisId="price"
+            x={Math.floor(new Date(tx.executedAt).getTime() / 1000 / DAY_SECONDS) * DAY_SECONDS}
+            y={Number(tx.price)}
+            r={5}
+            fill={tx.type === "buy" ? "rgb(var(--success))" : "rgb(var(--danger))"}
+            stroke="rgb(var(--background))"
+            ifOverflow="extendDomain"
+          />
+        ))}
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
@@ -5,7 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Filter, DollarSign } from "lucide-react";
-import { formatEurCurrency } from "@/services/stockApi";
+import { formatCurrency } from "@/services/stockApi";
+import { useCurrency } from "@/hooks/use-currency";
 
 interface RecommendationFiltersProps {
   onFiltersChange: (filters: { maxPrice?: number }) => void;
@@ -18,6 +19,7 @@ export const RecommendationFilters = ({
   onApplyFilters, 
   loading = false
 }: RecommendationFiltersProps) => {
+  const { baseCurrency } = useCurrency();
   const [maxPrice, setMaxPrice] = useState<number>(1000);
   const [useMaxPrice, setUseMaxPrice] = useState(false);
 
@@ -63,7 +65,7 @@ export const RecommendationFilters = ({
               <div className="flex items-center gap-2">
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm font-medium text-foreground">
-                  Max: {formatEurCurrency(maxPrice)}
+                  Max: {formatCurrency(maxPrice, baseCurrency)}
                 </span>
               </div>
               
@@ -77,8 +79,8 @@ export const RecommendationFilters = ({
               />
               
               <div className="flex justify-between text-xs text-muted-foreground">
-                <span>€10</span>
-                <span>€2,000</span>
+                <span>{formatCurrency(10, baseCurrency)}</span>
+                <span>{formatCurrency(2000, baseCurrency)}</span>
               </div>
             </div>
           )}
@@ -0,0 +1,103 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import { formatCurrency } from "@/services/stockApi";
+import {
+  recommendationHorizons,
+  type RecommendationHistory, type RecommendationHorizon, type RecommendationPerformance, type RecommendationRating,
+  type RecommendationSource
+} from "@shared/schema";
+
+interface RecommendationTrackRecordProps {
+  history: RecommendationHistory;
+}
+
+const HORIZON_LABELS: Record<RecommendationHorizon, string> = { "1w": "1 Week", "1m": "1 Month", "3m": "3 Months" };
+const SOURCE_LABELS: Record<RecommendationSource, string> = { score: "Factor score", analysis: "News analysis" };
+const RATING_VARIANTS: Record<RecommendationRating, "success" | "danger" | "secondary"> = { buy: "success", sell: "danger", hold: "secondary" };
+
+const signedPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+const returnColor = (value: number | null) => value === null ? "text-muted-foreground" : value >= 0 ? "text-success" : "text-danger";
+
+// Past recommendations and how they turned out: hit rate and average return per source
+// and rating at each horizon, then the latest calls with their returns so far
+export const RecommendationTrackRecord = ({ history }: RecommendationTrackRecordProps) => {
+  // One row per source and rating, one cell per horizon
+  const groups = new Map<string, Partial<Record<RecommendationHorizon, RecommendationPerformance>>>();
+  history.performance.forEach(row => {
+    const key = `${row.source}:${row.rating}`;
+    groups.set(key, { ...groups.get(key), [row.horizon]: row });
+  });
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-border/50 animate-slide-in">
+      <div className="p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Recommendation Track Record</h3>
+        </div>
+
+        {history.performance.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No recommendation is a week old yet{history.pending > 0 ? ` (${history.pending} pending)` : ""}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-4 gap-2 text-xs text-muted-foreground">
+              <span>Call</span>
+              {recommendationHorizons.map(horizon => (
+                <span key={horizon} className="text-right">{HORIZON_LABELS[horizon]}</span>
+              ))}
+            </div>
+            {Array.from(groups.entries()).map(([key, byHorizon]) => {
+              const [source, rating] = key.split(":") as [RecommendationSource, RecommendationRating];
+              return (
+                <div key={key} className="grid grid-cols-4 gap-2 p-3 rounded-lg bg-secondary/20 border border-border/30 text-xs">
+                  <span className="flex items-center gap-1.5 font-medium text-foreground">
+                    <Badge variant={RATING_VARIANTS[rating]} className="text-[10px] uppercase">{rating}</Badge>
+                    {SOURCE_LABELS[source]}
+                  </span>
+                  {recommendationHorizons.map(horizon => {
+                    const row = byHorizon[horizon];
+                    return row ? (
+                      <span key={horizon} className="text-right" title={`${row.count} scored`}>
+                        {(row.hitRate * 100).toFixed(0)}% hit · <span className={returnColor(row.averageReturn)}>{signedPercent(row.averageReturn)}</span>
+                      </span>
+                    ) : (
+                      <span key={horizon} className="text-right text-muted-foreground">—</span>
+                    );
+                  })}
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              A buy hits if the price rose, a sell if it fell, a hold if it moved less than 5%.
+            </p>
+          </div>
+        )}
+
+        {history.recommendations.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-border/30">
+            <p className="text-xs font-medium text-muted-foreground">Latest calls</p>
+            {history.recommendations.map(recommendation => (
+              <div key={recommendation.id} className="grid grid-cols-[1fr_repeat(3,4rem)] items-center gap-2 text-xs">
+                <span className="flex items-center gap-1.5 min-w-0">
+                  <Badge variant={RATING_VARIANTS[recommendation.rating]} className="text-[10px] uppercase">{recommendation.rating}</Badge>
+                  <span className="font-medium text-foreground">{recommendation.symbol}</span>
+                  <span className="truncate text-muted-foreground">
+                    {recommendation.asOf} at {formatCurrency(recommendation.price, recommendation.currency)} · {SOURCE_LABELS[recommendation.source]}
+                  </span>
+                </span>
+                {recommendation.outcomes.map(outcome => (
+                  <span key={outcome.horizon} className={`text-right ${returnColor(outcome.return)}`} title={`${HORIZON_LABELS[outcome.horizon]}, ${outcome.targetDate}`}>
+                    {outcome.return === null ? "…" : signedPercent(outcome.return)}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -2,8 +2,10 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { TrendingUp, TrendingDown, Minus, X, MoreVertical } from "lucide-react";
-import { convertToEur, formatEurCurrency } from "@/services/stockApi";
+import { TrendingUp, TrendingDown, Minus, X, MoreVertical, Receipt, LineChart } from "lucide-react";
+import { convert, formatCurrency } from "@/services/stockApi";
+import { useCurrency } from "@/hooks/use-currency";
+import type { Position, PositionMetrics } from "@/lib/portfolio";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,7 +19,12 @@ interface StockCardProps {
   price: number;
   change: number;
   changePercent: number;
+  currency: string;
   recommendation?: "BUY" | "SELL" | "HOLD";
+  position?: Position;
+  metrics?: PositionMetrics;
+  onRecordTransaction?: () => void;
+  onOpenChart?: () => void;
   onRemove?: () => void;
 }
 
@@ -27,31 +34,48 @@ export const StockCard = ({
   price,
   change,
   changePercent,
+  currency,
   recommendation,
+  position,
+  metrics,
+  onRecordTransaction,
+  onOpenChart,
   onRemove,
 }: StockCardProps) => {
   const [isLoading, setIsLoading] = useState(false);
-  const [eurPrice, setEurPrice] = useState<number | null>(null);
-  const [eurChange, setEurChange] = useState<number | null>(null);
+  const { baseCurrency } = useCurrency();
+  const [displayPrice, setDisplayPrice] = useState<number | null>(null);
+  const [displayChange, setDisplayChange] = useState<number | null>(null);
+  const [displayMarketValue, setDisplayMarketValue] = useState<number | null>(null);
+  const [displayUnrealizedPnl, setDisplayUnrealizedPnl] = useState<number | null>(null);
+
+  const marketValue = metrics?.marketValue ?? 0;
+  const unrealizedPnl = metrics?.unrealizedPnl ?? 0;
 
   useEffect(() => {
     const convertPrices = async () => {
       try {
-        const [convertedPrice, convertedChange] = await Promise.all([
-          convertToEur(price),
-          convertToEur(change)
+        const [convertedPrice, convertedChange, convertedValue, convertedPnl] = await Promise.all([
+          convert(price, currency, baseCurrency),
+          convert(change, currency, baseCurrency),
+          convert(marketValue, currency, baseCurrency),
+          convert(unrealizedPnl, currency, baseCurrency)
         ]);
-        setEurPrice(convertedPrice);
-        setEurChange(convertedChange);
+        setDisplayPrice(convertedPrice);
+        setDisplayChange(convertedChange);
+        setDisplayMarketValue(convertedValue);
+        setDisplayUnrealizedPnl(convertedPnl);
       } catch (error) {
-        console.error("Error converting to EUR:", error);
-        setEurPrice(price);
-        setEurChange(change);
+        console.error(`Error converting to ${baseCurrency}:`, error);
+        setDisplayPrice(price);
+        setDisplayChange(change);
+        setDisplayMarketValue(marketValue);
+        setDisplayUnrealizedPnl(unrealizedPnl);
       }
     };
     
     convertPrices();
-  }, [price, change]);
+  }, [price, change, marketValue, unrealizedPnl, currency, baseCurrency]);
 
   const isPositive = change >= 0;
   const isNeutral = change === 0;
@@ -95,10 +119,24 @@ export const StockCard = ({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={onRemove} className="text-danger">
-                  <X className="h-4 w-4 mr-2" />
-                  Remove
-                </DropdownMenuItem>
+                {onOpenChart && (
+                  <DropdownMenuItem onClick={onOpenChart}>
+                    <LineChart className="h-4 w-4 mr-2" />
+                    View Chart
+                  </DropdownMenuItem>
+                )}
+                {onRecordTransaction && (
+                  <DropdownMenuItem onClick={onRecordTransaction}>
+                    <Receipt className="h-4 w-4 mr-2" />
+                    Record Transaction
+                  </DropdownMenuItem>
+                )}
+                {onRemove && (
+                  <DropdownMenuItem onClick={onRemove} className="text-danger">
+                    <X className="h-4 w-4 mr-2" />
+                    Remove
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -106,15 +144,17 @@ export const StockCard = ({
 
         {/* Price and Change */}
         <div className="space-y-3">
-          {/* EUR Price (Primary) */}
+          {/* Price in base currency (Primary) */}
           <div className="text-2xl font-bold text-foreground">
-            {eurPrice !== null ? formatEurCurrency(eurPrice) : "Loading..."}
+            {displayPrice !== null ? formatCurrency(displayPrice, baseCurrency) : "Loading..."}
           </div>
           
-          {/* USD Price (Secondary) */}
-          <div className="text-lg text-muted-foreground">
-            ${price.toFixed(2)} USD
-          </div>
+          {/* Price in listing currency (Secondary) */}
+          {baseCurrency !== currency && (
+            <div className="text-lg text-muted-foreground">
+              {formatCurrency(price, currency)}
+            </div>
+          )}
           
           <div className="flex items-center gap-2">
             <div
@@ -129,19 +169,49 @@ export const StockCard = ({
               <TrendIcon className="h-4 w-4" />
               <div className="flex flex-col gap-1">
                 <span>
-                  {eurChange !== null 
-                    ? `${isPositive ? "+" : ""}${formatEurCurrency(eurChange)} EUR`
+                  {displayChange !== null 
+                    ? `${isPositive ? "+" : ""}${formatCurrency(displayChange, baseCurrency)}`
                     : "Loading..."
                   }
                 </span>
                 <span className="text-xs">
-                  ${isPositive ? "+" : ""}{change.toFixed(2)} USD ({isPositive ? "+" : ""}{changePercent.toFixed(2)}%)
+                  {baseCurrency !== currency && <>{isPositive ? "+" : ""}{formatCurrency(change, currency)} </>}
+                  ({isPositive ? "+" : ""}{changePercent.toFixed(2)}%)
                 </span>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Position */}
+        {position && metrics && position.quantity > 0 && (
+          <div className="grid grid-cols-3 gap-2 pt-3 border-t border-border/30 text-xs">
+            <div>
+              <p className="text-muted-foreground">Value</p>
+              <p className="font-medium text-foreground">
+                {displayMarketValue !== null ? formatCurrency(displayMarketValue, baseCurrency) : "Loading..."}
+              </p>
+              <p className="text-muted-foreground">{position.quantity} shares</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Unrealized P&L</p>
+              <p className={`font-medium ${unrealizedPnl >= 0 ? "text-success" : "text-danger"}`}>
+                {displayUnrealizedPnl !== null
+                  ? `${unrealizedPnl >= 0 ? "+" : ""}${formatCurrency(displayUnrealizedPnl, baseCurrency)}`
+                  : "Loading..."
+                }
+              </p>
+              <p className={unrealizedPnl >= 0 ? "text-success" : "text-danger"}>
+                {unrealizedPnl >= 0 ? "+" : ""}{metrics.unrealizedPnlPercent.toFixed(2)}%
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-muted-foreground">Weight</p>
+              <p className="font-medium text-foreground">{metrics.weight.toFixed(1)}%</p>
+            </div>
+          </div>
+        )}
+
         {/* Loading overlay */}
         {isLoading && (
           <div className="absolute inset-0 bg-background/50 backdrop-blur-sm flex items-center justify-center">
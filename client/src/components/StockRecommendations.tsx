@@ -2,24 +2,15 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, Plus, ExternalLink, Newspaper, AlertTriangle, RefreshCw } from "lucide-react";
-import { convertToEur, formatEurCurrency, StockError, createStockError } from "@/services/stockApi";
+import { TrendingUp, Plus, Newspaper, AlertTriangle, RefreshCw } from "lucide-react";
+import { convert, formatCurrency, StockError, createStockError } from "@/services/stockApi";
+import { useCurrency } from "@/hooks/use-currency";
 import { RecommendationFilters } from "./RecommendationFilters";
 import { useToast } from "@/hooks/use-toast";
-
-interface StockRecommendation {
-  symbol: string;
-  name: string;
-  currentPrice: number;
-  targetPrice: number;
-  upside: number;
-  confidence: number;
-  reason: string;
-  newsImpact: "positive" | "negative" | "neutral";
-}
+import type { Recommendation } from "@shared/schema";
 
 interface StockRecommendationsProps {
-  recommendations: StockRecommendation[];
+  recommendations: Recommendation[];
   onAddStock: (symbol: string) => Promise<void>;
   onFiltersChange: (filters: { maxPrice?: number }) => void;
   onApplyFilters: () => void;
@@ -37,14 +28,15 @@ export const StockRecommendations = ({
   error = null,
   onRetry
 }: StockRecommendationsProps) => {
-  const [eurRecommendations, setEurRecommendations] = useState<Array<any & { eurCurrentPrice: number; eurTargetPrice: number; usdCurrentPrice: number; usdTargetPrice: number }> | null>(null);
+  const { baseCurrency } = useCurrency();
+  const [displayRecommendations, setDisplayRecommendations] = useState<Array<Recommendation & { displayPrice: number; displayTargetPrice: number | null }> | null>(null);
   const [conversionError, setConversionError] = useState<StockError | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     const convertRecommendations = async () => {
       if (!recommendations || recommendations.length === 0) {
-        setEurRecommendations([]);
+        setDisplayRecommendations([]);
         return;
       }
 
@@ -52,34 +44,26 @@ export const StockRecommendations = ({
         setConversionError(null);
         const convertedRecs = await Promise.all(
           recommendations.map(async (rec) => {
-            const [eurCurrentPrice, eurTargetPrice] = await Promise.all([
-              convertToEur(rec.currentPrice),
-              convertToEur(rec.targetPrice)
+            const [displayPrice, displayTargetPrice] = await Promise.all([
+              convert(rec.price, rec.currency, baseCurrency),
+              rec.targetPrice !== null ? convert(rec.targetPrice, rec.currency, baseCurrency) : null
             ]);
-            
-            return {
-              ...rec,
-              eurCurrentPrice,
-              eurTargetPrice,
-              usdCurrentPrice: rec.currentPrice,
-              usdTargetPrice: rec.targetPrice
-            };
+
+            return { ...rec, displayPrice, displayTargetPrice };
           })
         );
         
-        setEurRecommendations(convertedRecs);
+        setDisplayRecommendations(convertedRecs);
       } catch (error) {
-        console.error("Error converting recommendations to EUR:", error);
+        console.error(`Error converting recommendations to ${baseCurrency}:`, error);
         const stockError = createStockError(error, 'currency conversion');
         setConversionError(stockError);
         
-        // Fallback to USD values only
-        setEurRecommendations(recommendations.map(rec => ({
+        // Fall back to listing-currency values
+        setDisplayRecommendations(recommendations.map(rec => ({
           ...rec,
-          eurCurrentPrice: rec.currentPrice,
-          eurTargetPrice: rec.targetPrice,
-          usdCurrentPrice: rec.currentPrice,
-          usdTargetPrice: rec.targetPrice
+          displayPrice: rec.price,
+          displayTargetPrice: rec.targetPrice
         })));
         
         toast({
@@ -91,21 +75,12 @@ export const StockRecommendations = ({
     };
     
     convertRecommendations();
-  }, [recommendations]);
-  const getNewsImpactColor = (impact: string) => {
-    switch (impact) {
-      case "positive":
-        return "text-success";
-      case "negative":
-        return "text-danger";
-      default:
-        return "text-muted-foreground";
-    }
-  };
+  }, [recommendations, baseCurrency]);
+  const displayCurrency = (rec: Recommendation) => conversionError ? rec.currency : baseCurrency;
 
-  const getConfidenceVariant = (confidence: number) => {
-    if (confidence >= 80) return "success";
-    if (confidence >= 60) return "warning";
+  const getRatingVariant = (rating: Recommendation["rating"]) => {
+    if (rating === "buy") return "success";
+    if (rating === "sell") return "danger";
     return "secondary";
   };
 
@@ -161,18 +136,18 @@ export const StockRecommendations = ({
               <div className="h-8 w-8 border-2 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4" />
               <p className="text-muted-foreground">Loading AI recommendations...</p>
             </div>
-          ) : eurRecommendations === null ? (
+          ) : displayRecommendations === null ? (
             <div className="text-center py-8 text-muted-foreground">
               Preparing recommendations...
             </div>
-          ) : eurRecommendations.length === 0 && !error ? (
+          ) : displayRecommendations.length === 0 && !error ? (
             <div className="text-center py-8">
               <Newspaper className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-muted-foreground">No recommendations match your filters</p>
-              <p className="text-sm text-muted-foreground mt-1">Try adjusting your maximum price filter or check back later</p>
+              <p className="text-sm text-muted-foreground mt-1">Try a higher maximum price or check back later</p>
             </div>
           ) : (
-            eurRecommendations.map((stock) => (
+            displayRecommendations.map((stock) => (
               <div
                 key={stock.symbol}
                 className="p-4 rounded-lg bg-secondary/20 border border-border/30 space-y-3"
@@ -181,9 +156,10 @@ export const StockRecommendations = ({
                   <div className="space-y-1">
                     <div className="flex items-center gap-2">
                       <h4 className="font-semibold text-foreground">{stock.symbol}</h4>
-                      <Badge variant={getConfidenceVariant(stock.confidence)} className="text-xs">
-                        {stock.confidence.toFixed(0)}% confidence
+                      <Badge variant={getRatingVariant(stock.rating)} className="text-xs uppercase">
+                        {stock.rating}
                       </Badge>
+                      <span className="text-xs text-muted-foreground">Score {stock.score.toFixed(0)}/100</span>
                     </div>
                     <p className="text-sm text-muted-foreground">{stock.name}</p>
                   </div>
@@ -198,34 +174,61 @@ export const StockRecommendations = ({
                   </Button>
                 </div>
 
-                <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="grid grid-cols-3 gap-4 text-sm">
                   <div>
                     <p className="text-muted-foreground">Current Price</p>
-                    <p className="font-medium text-foreground">{formatEurCurrency(stock.eurCurrentPrice)}</p>
-                    <p className="text-xs text-muted-foreground">${stock.usdCurrentPrice.toFixed(2)} USD</p>
+                    <p className="font-medium text-foreground">{formatCurrency(stock.displayPrice, displayCurrency(stock))}</p>
+                    {displayCurrency(stock) !== stock.currency && (
+                      <p className="text-xs text-muted-foreground">{formatCurrency(stock.price, stock.currency)}</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">
+                      Target{stock.targetSource && <span className="text-xs"> ({stock.targetSource === "analysts" ? "analysts" : "forecast"})</span>}
+                    </p>
+                    <p className="font-medium text-foreground">
+                      {stock.displayTargetPrice !== null ? formatCurrency(stock.displayTargetPrice, displayCurrency(stock)) : "—"}
+                    </p>
                   </div>
                   <div>
-                    <p className="text-muted-foreground">Target Price</p>
-                    <p className="font-medium text-success">{formatEurCurrency(stock.eurTargetPrice)}</p>
-                    <p className="text-xs text-muted-foreground">${stock.usdTargetPrice.toFixed(2)} USD</p>
+                    <p className="text-muted-foreground">Upside</p>
+                    <p className={`font-medium ${stock.upside === null ? "text-muted-foreground" : stock.upside >= 0 ? "text-success" : "text-danger"}`}>
+                      {stock.upside === null ? "—" : `${stock.upside >= 0 ? "+" : ""}${stock.upside.toFixed(1)}%`}
+                    </p>
                   </div>
                 </div>
 
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-muted-foreground">Upside:</span>
-                    <span className="font-medium text-success">+{stock.upside.toFixed(1)}%</span>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <Newspaper className="h-4 w-4 text-muted-foreground" />
-                    <span className={`text-sm font-medium ${getNewsImpactColor(stock.newsImpact)}`}>
-                      {stock.newsImpact} sentiment
-                    </span>
-                  </div>
+                <div className="space-y-1.5">
+                  {stock.factors.map(factor => (
+                    <div key={factor.factor} className="grid grid-cols-[8rem_1fr_3.5rem] items-center gap-2 text-xs">
+                      <span className="text-muted-foreground">{factor.label}</span>
+                      <div className="min-w-0">
+                        {/* Bar grows left of the centre line for negative contributions; 25 points fills a side */}
+                        <div className="relative h-1.5 rounded-full bg-secondary/40">
+                          <div className="absolute inset-y-0 left-1/2 w-px bg-border" />
+                          {factor.score !== null && (
+                            <div
+                              className={`absolute inset-y-0 rounded-full ${factor.contribution >= 0 ? "left-1/2 bg-success" : "right-1/2 bg-danger"}`}
+                              style={{ width: `${Math.min(50, Math.abs(factor.contribution) * 2)}%` }}
+                            />
+                          )}
+                        </div>
+                        <p className="truncate text-muted-foreground mt-0.5" title={factor.detail}>{factor.detail}</p>
+                      </div>
+                      <span className={`text-right font-medium ${factor.score === null ? "text-muted-foreground" : factor.contribution >= 0 ? "text-success" : "text-danger"}`}>
+                        {factor.score === null ? "n/a" : `${factor.contribution >= 0 ? "+" : ""}${factor.contribution.toFixed(1)}`}
+                      </span>
+                    </div>
+                  ))}
                 </div>
 
                 <div className="pt-2 border-t border-border/30">
-                  <p className="text-xs text-muted-foreground leading-relaxed">{stock.reason}</p>
+                  <p className="text-xs text-muted-foreground leading-relaxed">{stock.summary}</p>
+                  {stock.coverage < 1 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Scored on {(stock.coverage * 100).toFixed(0)}% of the factor weight; factors without data are left out.
+                    </p>
+                  )}
                 </div>
               </div>
             ))
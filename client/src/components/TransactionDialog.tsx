@@ -0,0 +1,208 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { TransactionType } from "@shared/schema";
+import type { TransactionInput } from "@/services/ledgerApi";
+
+interface TransactionDialogProps {
+  symbol: string;
+  currency?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (transaction: Omit<TransactionInput, "portfolioId">) => Promise<void>; // the caller knows the portfolio
+}
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  dividend: "Dividend",
+  fee: "Fee",
+  split: "Stock Split",
+};
+
+export const TransactionDialog = ({ symbol, currency = "USD", open, onOpenChange, onSave }: TransactionDialogProps) => {
+  const [type, setType] = useState<TransactionType>("buy");
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [amount, setAmount] = useState("");
+  const [fees, setFees] = useState("");
+  const [splitRatio, setSplitRatio] = useState("");
+  const [executedAt, setExecutedAt] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setType("buy");
+      setQuantity("");
+      setPrice("");
+      setAmount("");
+      setFees("");
+      setSplitRatio("");
+      setExecutedAt(new Date().toISOString().slice(0, 10));
+    }
+  }, [open]);
+
+  const isTrade = type === "buy" || type === "sell";
+  const isCash = type === "dividend" || type === "fee";
+
+  const isValid = !!executedAt && (
+    isTrade ? Number(quantity) > 0 && price !== "" && Number(price) >= 0 :
+    isCash ? amount !== "" && Number(amount) >= 0 :
+    Number(splitRatio) > 0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        symbol,
+        type,
+        executedAt,
+        ...(isTrade && { quantity: Number(quantity), price: Number(price), fees: Number(fees) || 0 }),
+        ...(isCash && { amount: Number(amount) }),
+        ...(type === "split" && { splitRatio: Number(splitRatio) }),
+      });
+      onOpenChange(false);
+    } catch {
+      // The caller reports the failure; keep the dialog open so it can be corrected
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Record {symbol} Transaction</DialogTitle>
+            <DialogDescription>
+              Your position is rebuilt from these entries. Prices and amounts are in {currency}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as TransactionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transaction-date">Date</Label>
+              <Input
+                id="transaction-date"
+                type="date"
+                value={executedAt}
+                onChange={(e) => setExecutedAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isTrade && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transaction-quantity">Shares</Label>
+                <Input
+                  id="transaction-quantity"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transaction-price">Price</Label>
+                <Input
+                  id="transaction-price"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transaction-fees">Commission</Label>
+                <Input
+                  id="transaction-fees"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={fees}
+                  onChange={(e) => setFees(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+          )}
+
+          {isCash && (
+            <div className="space-y-2">
+              <Label htmlFor="transaction-amount">{type === "dividend" ? "Amount Received" : "Amount Paid"}</Label>
+              <Input
+                id="transaction-amount"
+                type="number"
+                min="0"
+                step="any"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          )}
+
+          {type === "split" && (
+            <div className="space-y-2">
+              <Label htmlFor="transaction-ratio">New Shares per Old Share</Label>
+              <Input
+                id="transaction-ratio"
+                type="number"
+                min="0"
+                step="any"
+                value={splitRatio}
+                onChange={(e) => setSplitRatio(e.target.value)}
+                placeholder="e.g. 2 for a 2-for-1 split"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !isValid} className="bg-gradient-primary">
+              {saving ? "Saving..." : "Save Transaction"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,130 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Plus, Trash2 } from "lucide-react";
+import type { Lot, RealizedSale, Transaction } from "@shared/schema";
+import { calculateLotUnrealizedPnl } from "@/lib/portfolio";
+import { formatCurrency } from "@/services/stockApi";
+
+interface TransactionHistoryProps {
+  transactions: Transaction[];
+  lots?: Lot[];
+  sales?: RealizedSale[];
+  price?: number;
+  currency: string;
+  // Without these the ledger is read-only, as for a holding spread over several portfolios
+  onAdd?: () => void;
+  onDelete?: (id: number) => void;
+}
+
+// Ledger amounts are kept in the stock's own currency
+const formatAmount = (value: string | number | null, currency: string) => formatCurrency(Number(value ?? 0), currency);
+
+const formatGain = (gain: number, currency: string) => `${gain >= 0 ? "+" : "-"}${formatAmount(Math.abs(gain), currency)}`;
+
+const describeTransaction = (tx: Transaction, currency: string) => {
+  switch (tx.type) {
+    case "buy":
+    case "sell":
+      return `${Number(tx.quantity)} @ ${formatAmount(tx.price, currency)}${Number(tx.fees) > 0 ? ` + ${formatAmount(tx.fees, currency)} fees` : ""}`;
+    case "dividend":
+    case "fee":
+      return formatAmount(tx.amount, currency);
+    case "split":
+      return `${Number(tx.splitRatio)}-for-1`;
+  }
+};
+
+const getTypeVariant = (type: Transaction["type"]) => {
+  switch (type) {
+    case "buy":
+    case "dividend":
+      return "success";
+    case "sell":
+    case "fee":
+      return "danger";
+    default:
+      return "secondary";
+  }
+};
+
+export const TransactionHistory = ({ transactions, lots = [], sales = [], price, currency, onAdd, onDelete }: TransactionHistoryProps) => {
+  const saleByTransaction = new Map(sales.map(sale => [sale.transactionId, sale]));
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-border/50 animate-slide-in">
+      <div className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            <h3 className="text-lg font-semibold text-foreground">Transactions</h3>
+          </div>
+          {onAdd && (
+            <Button variant="outline" size="sm" onClick={onAdd}>
+              <Plus className="h-3 w-3 mr-1" />
+              Record
+            </Button>
+          )}
+        </div>
+
+        {transactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No transactions recorded yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {[...transactions].reverse().map((tx) => (
+              <div
+                key={tx.id}
+                className="flex items-center justify-between p-3 rounded-lg bg-secondary/20 border border-border/30"
+              >
+                <div className="flex items-center gap-3">
+                  <Badge variant={getTypeVariant(tx.type)} className="text-xs uppercase w-16 justify-center">
+                    {tx.type}
+                  </Badge>
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{describeTransaction(tx, currency)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(tx.executedAt).toLocaleDateString()}
+                      {saleByTransaction.has(tx.id) && (
+                        <span className={saleByTransaction.get(tx.id)!.gain >= 0 ? "text-success" : "text-danger"}>
+                          {" "}· realized {formatGain(saleByTransaction.get(tx.id)!.gain, currency)}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                </div>
+                {onDelete && (
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onDelete(tx.id)}>
+                    <Trash2 className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {lots.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-border/30">
+            <p className="text-sm font-medium text-foreground">Open Lots</p>
+            {lots.map((lot, index) => {
+              const unrealized = price !== undefined ? calculateLotUnrealizedPnl(price, lot) : null;
+              return (
+                <div key={lot.transactionId ?? index} className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground">
+                    {new Date(lot.acquiredAt).toLocaleDateString()} · {Number(lot.quantity.toFixed(6))} @ {formatAmount(lot.costBasis / lot.quantity, currency)}
+                  </span>
+                  {unrealized !== null && (
+                    <span className={unrealized >= 0 ? "text-success" : "text-danger"}>
+                      {formatGain(unrealized, currency)}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,322 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Eye, MoreVertical, Pencil, Plus, ShoppingCart, Trash2, X } from "lucide-react";
+import { NameDialog } from "@/components/NameDialog";
+import { MoveToPortfolioDialog } from "@/components/MoveToPortfolioDialog";
+import { addLog } from "@/components/DebugPanel";
+import { createStockError, formatCurrency } from "@/services/stockApi";
+import {
+  addToWatchlist, createWatchlist, deleteWatchlist, getWatchlistQuotes, getWatchlists, moveToPortfolio,
+  removeFromWatchlist, updateWatchlist
+} from "@/services/watchlistApi";
+import { useToast } from "@/hooks/use-toast";
+import type { Holding, MoveToPortfolio, Portfolio, WatchlistQuote, WatchlistWithItems } from "@shared/schema";
+
+interface WatchlistsProps {
+  portfolios: Portfolio[];
+  defaultPortfolioId?: number; // where "move to portfolio" buys unless another is picked
+  onMoved: (holding: Holding) => void;
+}
+
+const REFRESH_INTERVAL = 60_000;
+
+const SENTIMENT_VARIANTS: Record<NonNullable<WatchlistQuote["sentiment"]>["label"], "success" | "danger" | "secondary"> = {
+  positive: "success",
+  negative: "danger",
+  neutral: "secondary",
+};
+
+// Named lists of symbols followed without holding them; they stay out of the portfolio totals
+export const Watchlists = ({ portfolios, defaultPortfolioId, onMoved }: WatchlistsProps) => {
+  const [watchlists, setWatchlists] = useState<WatchlistWithItems[]>([]);
+  const [selectedId, setSelectedId] = useState<number>();
+  const [quotes, setQuotes] = useState<WatchlistQuote[]>([]);
+  const [symbol, setSymbol] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [dialog, setDialog] = useState<"create" | "rename" | null>(null);
+  const [moving, setMoving] = useState<WatchlistQuote | null>(null);
+  const { toast } = useToast();
+  const selected = watchlists.find(watchlist => watchlist.id === selectedId);
+
+  const showError = (error: unknown, action: string) => {
+    const stockError = createStockError(error, action);
+    addLog("error", `Failed ${action}`, { error: (error as Error).message }, "Watchlist");
+    toast({ title: stockError.message, description: stockError.solution, variant: "destructive" });
+  };
+
+  useEffect(() => {
+    getWatchlists()
+      .then(loaded => {
+        setWatchlists(loaded);
+        setSelectedId(current => current ?? loaded[0]?.id);
+      })
+      .catch(error => showError(error, 'loading watchlists'));
+  }, []);
+
+  const loadQuotes = (id: number) =>
+    getWatchlistQuotes(id)
+      .then(setQuotes)
+      .catch(error => addLog("error", "Failed to load watchlist quotes", { id, error: error.message }, "Watchlist"));
+
+  // Quotes of the open list, refreshed while it is shown
+  useEffect(() => {
+    setQuotes([]);
+    if (selectedId === undefined) return;
+    loadQuotes(selectedId);
+    const interval = setInterval(() => loadQuotes(selectedId), REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [selectedId]);
+
+  const saveName = async (name: string) => {
+    try {
+      if (dialog === "rename" && selected) {
+        const renamed = await updateWatchlist(selected.id, { name });
+        setWatchlists(current => current.map(watchlist => watchlist.id === renamed.id ? renamed : watchlist));
+      } else {
+        const created = await createWatchlist({ name });
+        setWatchlists(current => [...current, created]);
+        setSelectedId(created.id);
+      }
+    } catch (error) {
+      showError(error, dialog === "rename" ? 'renaming watchlist' : 'creating watchlist');
+      throw error;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      await deleteWatchlist(selected.id);
+      const remaining = watchlists.filter(watchlist => watchlist.id !== selected.id);
+      setWatchlists(remaining);
+      setSelectedId(remaining[0]?.id);
+    } catch (error) {
+      showError(error, 'deleting watchlist');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !symbol.trim()) return;
+
+    setAdding(true);
+    try {
+      const item = await addToWatchlist(selected.id, symbol.trim());
+      setWatchlists(current => current.map(watchlist =>
+        watchlist.id === selected.id ? { ...watchlist, items: [...watchlist.items, item] } : watchlist
+      ));
+      setSymbol("");
+      await loadQuotes(selected.id);
+    } catch (error) {
+      showError(error, 'adding to watchlist');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const dropItem = (id: number, removed: string) => {
+    setWatchlists(current => current.map(watchlist =>
+      watchlist.id === id ? { ...watchlist, items: watchlist.items.filter(item => item.symbol !== removed) } : watchlist
+    ));
+    setQuotes(current => current.filter(quote => quote.symbol !== removed));
+  };
+
+  const handleRemove = async (removed: string) => {
+    if (!selected) return;
+    try {
+      await removeFromWatchlist(selected.id, removed);
+      dropItem(selected.id, removed);
+    } catch (error) {
+      showError(error, 'removing from watchlist');
+    }
+  };
+
+  const handleMove = async (move: MoveToPortfolio) => {
+    if (!selected || !moving) return;
+    try {
+      const holding = await moveToPortfolio(selected.id, moving.symbol, move);
+      dropItem(selected.id, moving.symbol);
+      onMoved(holding);
+      const portfolio = portfolios.find(p => p.id === move.portfolioId);
+      addLog("info", `Moved ${moving.symbol} to ${portfolio?.name}`, move, "Watchlist");
+      toast({
+        title: "Moved to portfolio",
+        description: `Bought ${move.quantity} ${moving.symbol} in ${portfolio?.name ?? "your portfolio"}`,
+      });
+    } catch (error) {
+      showError(error, 'moving to portfolio');
+      throw error;
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-border/50 animate-slide-in">
+      <div className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Eye className="h-5 w-5 text-primary" />
+            <h3 className="text-lg font-semibold text-foreground">Watchlists</h3>
+          </div>
+          <div className="flex items-center gap-1">
+            {watchlists.length > 0 && (
+              <Select value={selectedId !== undefined ? String(selectedId) : undefined} onValueChange={value => setSelectedId(Number(value))}>
+                <SelectTrigger className="h-9 w-40 border-border/50" aria-label="Watchlist">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {watchlists.map(watchlist => (
+                    <SelectItem key={watchlist.id} value={String(watchlist.id)}>{watchlist.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-9 w-9 p-0" aria-label="Manage watchlists">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setDialog("create")}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Watchlist
+                </DropdownMenuItem>
+                {selected && (
+                  <>
+                    <DropdownMenuItem onClick={() => setDialog("rename")}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Rename {selected.name}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleDelete} className="text-danger">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete {selected.name}
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        {!selected ? (
+          <div className="text-center py-4 space-y-3">
+            <p className="text-sm text-muted-foreground">Follow stocks you don't own without adding them to your portfolio</p>
+            <Button variant="outline" size="sm" onClick={() => setDialog("create")}>
+              <Plus className="h-3 w-3 mr-1" />
+              New Watchlist
+            </Button>
+          </div>
+        ) : (
+          <>
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <Input
+                value={symbol}
+                onChange={e => setSymbol(e.target.value)}
+                placeholder="Add a symbol, e.g. NVDA"
+                className="uppercase placeholder:normal-case"
+              />
+              <Button type="submit" variant="outline" disabled={adding || !symbol.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+
+            {selected.items.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No symbols on {selected.name} yet</p>
+            ) : (
+              <div className="space-y-2">
+                {selected.items.map(item => {
+                  const row = quotes.find(quote => quote.symbol === item.symbol);
+                  const quote = row?.quote;
+                  const isPositive = (quote?.change ?? 0) >= 0;
+                  return (
+                    <div key={item.symbol} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/20 border border-border/30">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-foreground">{item.symbol}</span>
+                          {row?.sentiment && (
+                            <Badge
+                              variant={SENTIMENT_VARIANTS[row.sentiment.label]}
+                              className="text-[10px] capitalize"
+                              title={`${row.sentiment.articles} recent article${row.sentiment.articles === 1 ? "" : "s"}`}
+                            >
+                              {row.sentiment.label}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">{item.name}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="text-right">
+                          {quote ? (
+                            <>
+                              <p className="text-sm font-medium text-foreground">{formatCurrency(quote.price, quote.currency)}</p>
+                              <p className={`text-xs ${isPositive ? "text-success" : "text-danger"}`}>
+                                {isPositive ? "+" : ""}{quote.change.toFixed(2)} ({isPositive ? "+" : ""}{quote.changePercent.toFixed(2)}%)
+                              </p>
+                            </>
+                          ) : (
+                            <p className="text-xs text-muted-foreground">{row?.error ?? "Loading..."}</p>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="Move to portfolio"
+                          disabled={portfolios.length === 0}
+                          onClick={() => setMoving(row ?? { symbol: item.symbol, name: item.name, currency: item.currency, quote: null, sentiment: null })}
+                        >
+                          <ShoppingCart className="h-4 w-4 text-primary" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Remove" onClick={() => handleRemove(item.symbol)}>
+                          <X className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <NameDialog
+        title={dialog === "rename" ? "Rename Watchlist" : "New Watchlist"}
+        description="Group the stocks you follow, e.g. by theme or by how close you are to buying."
+        initialName={dialog === "rename" ? selected?.name : ""}
+        placeholder="e.g. Semiconductors"
+        submitLabel={dialog === "rename" ? "Rename" : "Create"}
+        open={dialog !== null}
+        onOpenChange={open => !open && setDialog(null)}
+        onSave={saveName}
+      />
+      <MoveToPortfolioDialog
+        symbol={moving?.symbol ?? ""}
+        currency={moving?.currency ?? "USD"}
+        price={moving?.quote?.price}
+        portfolios={portfolios}
+        defaultPortfolioId={defaultPortfolioId}
+        open={moving !== null}
+        onOpenChange={open => !open && setMoving(null)}
+        onMove={handleMove}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,58 @@
+import * as React from "react"
+import type { InsertUser, PublicUser } from "@shared/schema"
+import { getCurrentUser, login as loginRequest, logout as logoutRequest, signup as signupRequest } from "@/services/authApi"
+import { setUnauthorizedHandler } from "@/services/apiClient"
+
+interface AuthContextValue {
+  user: PublicUser | null
+  loading: boolean // true until the session has been checked
+  login: (credentials: InsertUser) => Promise<void>
+  signup: (credentials: InsertUser) => Promise<void>
+  logout: () => Promise<void>
+}
+
+const AuthContext = React.createContext<AuthContextValue>({
+  user: null,
+  loading: true,
+  login: async () => {},
+  signup: async () => {},
+  logout: async () => {},
+})
+
+// Holds the signed-in account; any request that comes back 401 signs the user out here too
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = React.useState<PublicUser | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    setUnauthorizedHandler(() => setUser(null))
+    getCurrentUser()
+      .then(setUser)
+      .catch((error) => console.error("Error checking session:", error))
+      .finally(() => setLoading(false))
+    return () => setUnauthorizedHandler(null)
+  }, [])
+
+  const login = React.useCallback(async (credentials: InsertUser) => {
+    setUser(await loginRequest(credentials))
+  }, [])
+
+  const signup = React.useCallback(async (credentials: InsertUser) => {
+    setUser(await signupRequest(credentials))
+  }, [])
+
+  const logout = React.useCallback(async () => {
+    await logoutRequest()
+    setUser(null)
+  }, [])
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, signup, logout }}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  return React.useContext(AuthContext)
+}
@@ -0,0 +1,41 @@
+import * as React from "react"
+import type { Currency } from "@shared/schema"
+import { getSettings, updateSettings } from "@/services/settingsApi"
+
+interface CurrencyContextValue {
+  baseCurrency: Currency
+  setBaseCurrency: (currency: Currency) => Promise<void>
+}
+
+const DEFAULT_BASE_CURRENCY: Currency = "EUR"
+
+const CurrencyContext = React.createContext<CurrencyContextValue>({
+  baseCurrency: DEFAULT_BASE_CURRENCY,
+  setBaseCurrency: async () => {},
+})
+
+// Holds the user's display currency, loaded from and saved to the server settings
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [baseCurrency, setBaseCurrencyState] = React.useState<Currency>(DEFAULT_BASE_CURRENCY)
+
+  React.useEffect(() => {
+    getSettings()
+      .then((settings) => setBaseCurrencyState(settings.baseCurrency))
+      .catch((error) => console.error("Error loading base currency:", error))
+  }, [])
+
+  const setBaseCurrency = React.useCallback(async (currency: Currency) => {
+    const settings = await updateSettings({ baseCurrency: currency })
+    setBaseCurrencyState(settings.baseCurrency)
+  }, [])
+
+  return (
+    <CurrencyContext.Provider value={{ baseCurrency, setBaseCurrency }}>
+      {children}
+    </CurrencyContext.Provider>
+  )
+}
+
+export function useCurrency() {
+  return React.useContext(CurrencyContext)
+}
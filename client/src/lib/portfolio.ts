@@ -0,0 +1,126 @@
+import type { Holding, Lot, RealizedSale } from "@shared/schema";
+
+// Position as held by the user; amounts are in the instrument's own trading currency
+export interface Position {
+  quantity: number;
+  averageCost: number;
+  purchaseDate?: string | null;
+  realizedPnl?: number;
+  lots?: Lot[];
+  sales?: RealizedSale[];
+}
+
+export interface PositionMetrics {
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  realizedPnl: number;
+  dayChange: number;
+  weight: number;
+}
+
+export interface PortfolioTotals {
+  totalValue: number;
+  totalCost: number;
+  totalChange: number;
+  totalChangePercent: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  realizedPnl: number;
+  stockCount: number;
+}
+
+// Holdings arrive as JSON, so the purchase date is already a string
+export function toPosition(
+  stock: Pick<Holding, "quantity" | "averageCost" | "purchaseDate" | "realizedPnl" | "lots" | "sales">
+): Position {
+  return {
+    quantity: Number(stock.quantity) || 0,
+    averageCost: Number(stock.averageCost) || 0,
+    purchaseDate: stock.purchaseDate ? String(stock.purchaseDate) : null,
+    realizedPnl: stock.realizedPnl ?? 0,
+    lots: stock.lots ?? [],
+    sales: stock.sales ?? [],
+  };
+}
+
+const isToday = (date: Date | string) => new Date(date).toDateString() === new Date().toDateString();
+
+// Shares bought today gained (price - cost) rather than the full daily move since yesterday's close
+export function calculateDayChange(price: number, change: number, position: Position): number {
+  if (!position.lots || position.lots.length === 0) {
+    return change * position.quantity;
+  }
+
+  return position.lots.reduce((sum, lot) => sum + (isToday(lot.acquiredAt)
+    ? price * lot.quantity - lot.costBasis
+    : change * lot.quantity
+  ), 0);
+}
+
+export function calculateLotUnrealizedPnl(price: number, lot: Lot): number {
+  return price * lot.quantity - lot.costBasis;
+}
+
+export function calculatePositionMetrics(
+  price: number,
+  change: number,
+  position: Position,
+  portfolioValue: number
+): PositionMetrics {
+  const marketValue = price * position.quantity;
+  const costBasis = position.averageCost * position.quantity;
+  const unrealizedPnl = marketValue - costBasis;
+
+  return {
+    marketValue,
+    costBasis,
+    unrealizedPnl,
+    unrealizedPnlPercent: costBasis > 0 ? (unrealizedPnl / costBasis) * 100 : 0,
+    realizedPnl: position.realizedPnl ?? 0,
+    dayChange: calculateDayChange(price, change, position),
+    weight: portfolioValue > 0 ? (marketValue / portfolioValue) * 100 : 0,
+  };
+}
+
+// Re-express a holding's prices and amounts in another currency, so holdings
+// listed in different currencies can be summed
+export function convertHolding<T extends Position & { price: number; change: number }>(holding: T, rate: number): T {
+  return {
+    ...holding,
+    price: holding.price * rate,
+    change: holding.change * rate,
+    averageCost: holding.averageCost * rate,
+    realizedPnl: (holding.realizedPnl ?? 0) * rate,
+    lots: holding.lots?.map(lot => ({ ...lot, costBasis: lot.costBasis * rate })),
+    sales: holding.sales?.map(sale => ({
+      ...sale,
+      proceeds: sale.proceeds * rate,
+      costBasis: sale.costBasis * rate,
+      gain: sale.gain * rate,
+    })),
+  };
+}
+
+// Holdings must already be in one currency; see convertHolding
+export function calculatePortfolioTotals(
+  holdings: Array<Position & { price: number; change: number }>
+): PortfolioTotals {
+  const totalValue = holdings.reduce((sum, h) => sum + h.price * h.quantity, 0);
+  const totalCost = holdings.reduce((sum, h) => sum + h.averageCost * h.quantity, 0);
+  const totalChange = holdings.reduce((sum, h) => sum + calculateDayChange(h.price, h.change, h), 0);
+  const previousValue = totalValue - totalChange;
+  const unrealizedPnl = totalValue - totalCost;
+
+  return {
+    totalValue,
+    totalCost,
+    totalChange,
+    totalChangePercent: previousValue > 0 ? (totalChange / previousValue) * 100 : 0,
+    unrealizedPnl,
+    unrealizedPnlPercent: totalCost > 0 ? (unrealizedPnl / totalCost) * 100 : 0,
+    realizedPnl: holdings.reduce((sum, h) => sum + (h.realizedPnl ?? 0), 0),
+    stockCount: holdings.length,
+  };
+}
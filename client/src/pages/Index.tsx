@@ -1,112 +1,164 @@
 import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { StockCard } from "@/components/StockCard";
 import { AddStockForm } from "@/components/AddStockForm";
 import { ForecastCard } from "@/components/ForecastCard";
 import { StockRecommendations } from "@/components/StockRecommendations";
+import { RecommendationTrackRecord } from "@/components/RecommendationTrackRecord";
 import { PortfolioOverview } from "@/components/PortfolioOverview";
-import { StockApiService, StockData, ForecastData, StockError, createStockError, setDebugLogger } from "@/services/stockApi";
+import { TransactionDialog } from "@/components/TransactionDialog";
+import { TransactionHistory } from "@/components/TransactionHistory";
+import { CurrencySelector } from "@/components/CurrencySelector";
+import { MarketDataStatus } from "@/components/MarketDataStatus";
+import { AlertNotifications } from "@/components/AlertNotifications";
+import { PortfolioSwitcher, type PortfolioSelection } from "@/components/PortfolioSwitcher";
+import { Watchlists } from "@/components/Watchlists";
+import { StockApiService, StockData, ForecastData, StockError, createStockError, setDebugLogger, getExchangeRate } from "@/services/stockApi";
 import { useToast } from "@/hooks/use-toast";
-import { TrendingUp, Sparkles, RefreshCw } from "lucide-react";
+import { useCurrency } from "@/hooks/use-currency";
+import { useAuth } from "@/hooks/use-auth";
+import { TrendingUp, Sparkles, RefreshCw, ListFilter, LogOut } from "lucide-react";
 import { DebugPanel, addLog } from "@/components/DebugPanel";
+import { Position, toPosition, convertHolding, calculatePositionMetrics, calculatePortfolioTotals } from "@/lib/portfolio";
+import { getTransactions, addTransaction, deleteTransaction, TransactionInput } from "@/services/ledgerApi";
+import { getRecommendationHistory } from "@/services/marketDataApi";
+import { getPortfolios, createPortfolio, updatePortfolio, deletePortfolio } from "@/services/portfolioApi";
+import { apiRequest } from "@/services/apiClient";
+import type { CostBasisMethod, Currency, Holding, Portfolio, Recommendation, RecommendationHistory, Transaction } from "@shared/schema";
 
-// Database storage functions
-const getStoredStocks = async (): Promise<string[]> => {
-  try {
-    const response = await fetch('/api/stocks');
-    if (response.ok) {
-      const stocks = await response.json();
-      return stocks.map(stock => stock.symbol);
-    }
-    return [];
-  } catch (error) {
-    console.error('Error fetching stored stocks:', error);
-    return [];
-  }
-};
+// Database storage functions; "all" merges every portfolio
+const getStoredStocks = (portfolio: PortfolioSelection): Promise<Holding[]> =>
+  apiRequest<Holding[]>(portfolio === "all" ? '/api/stocks' : `/api/stocks?portfolioId=${portfolio}`);
 
-const addStockToStorage = async (symbol: string, name: string) => {
-  try {
-    const response = await fetch('/api/stocks', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ symbol: symbol.toUpperCase(), name }),
-    });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to add stock to database');
-    }
-    
-    return await response.json();
-  } catch (error) {
-    console.error('Error adding stock to database:', error);
-    throw error;
-  }
-};
+const addStockToStorage = (portfolioId: number, symbol: string, name: string, currency: string, position?: Position) =>
+  apiRequest<Holding>('/api/stocks', {
+    method: 'POST',
+    body: JSON.stringify({ portfolioId, symbol: symbol.toUpperCase(), name, currency, ...position }),
+  });
 
-const removeStockFromStorage = async (symbol: string) => {
-  try {
-    const response = await fetch(`/api/stocks/${symbol}`, {
-      method: 'DELETE',
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to remove stock from database');
-    }
-  } catch (error) {
-    console.error('Error removing stock from database:', error);
-    throw error;
-  }
+const removeStockFromStorage = async (symbol: string, portfolioId: number) => {
+  await apiRequest<{ success: boolean }>(`/api/stocks/${symbol}?portfolioId=${portfolioId}`, {
+    method: 'DELETE',
+  });
 };
 
-
-interface StockWithAnalysis extends StockData {
+// portfolioId is null for a holding merged from several portfolios, which is read-only
+interface StockWithAnalysis extends StockData, Position, Pick<Holding, "portfolioId" | "byPortfolio"> {
   recommendation?: "BUY" | "SELL" | "HOLD";
   forecast?: ForecastData[];
   aiInsight?: string;
 }
 
+const SELECTED_PORTFOLIO_KEY = 'selected_portfolio';
+
 const Index = () => {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [selectedPortfolio, setSelectedPortfolio] = useState<PortfolioSelection>(() => {
+    const stored = localStorage.getItem(SELECTED_PORTFOLIO_KEY);
+    return stored === "all" ? "all" : Number(stored) || "all";
+  });
   const [stocks, setStocks] = useState<StockWithAnalysis[]>([]);
-  const [recommendations, setRecommendations] = useState<any[]>([]);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [loading, setLoading] = useState(false);
   const [recommendationError, setRecommendationError] = useState<StockError | null>(null);
   const [selectedStock, setSelectedStock] = useState<StockWithAnalysis | null>(null);
+  const [ledger, setLedger] = useState<Transaction[]>([]);
+  const [transactionSymbol, setTransactionSymbol] = useState<string | null>(null);
   const [recommendationFilters, setRecommendationFilters] = useState<{ maxPrice?: number }>({});
+  const [recommendationHistory, setRecommendationHistory] = useState<RecommendationHistory>();
+  // Rates from each held listing currency into the base currency
+  const [fxRates, setFxRates] = useState<{ base: Currency; rates: Record<string, number> }>();
   const { toast } = useToast();
+  const { baseCurrency } = useCurrency();
+  const { user, logout } = useAuth();
+  const [, navigate] = useLocation();
+  const heldCurrencies = Array.from(new Set(stocks.map(stock => stock.currency))).sort();
 
-  // Initialize debug logger and load stored stocks
+  const currentPortfolio = portfolios.find(portfolio => portfolio.id === selectedPortfolio);
+
+  // Initialize debug logger and load the portfolios; their stocks load once one is selected
   useEffect(() => {
     setDebugLogger(addLog);
-    // Load stored stocks on page load
-    loadStoredStocks();
+    loadPortfolios();
   }, []);
 
+  // Load stored stocks whenever another portfolio is shown
+  useEffect(() => {
+    if (portfolios.length > 0) {
+      localStorage.setItem(SELECTED_PORTFOLIO_KEY, String(selectedPortfolio));
+      setSelectedStock(null);
+      loadStoredStocks();
+    }
+  }, [selectedPortfolio, portfolios.length > 0]);
+
+  // Load the ledger of the selected holding
+  useEffect(() => {
+    if (selectedStock) {
+      loadLedger(selectedStock.symbol, selectedStock.portfolioId);
+    } else {
+      setLedger([]);
+    }
+  }, [selectedStock?.symbol]);
+
+  useEffect(() => {
+    Promise.all(heldCurrencies.map(async currency => [currency, await getExchangeRate(currency, baseCurrency)] as const))
+      .then(rates => setFxRates({ base: baseCurrency, rates: Object.fromEntries(rates) }))
+      .catch(error => addLog("error", `Failed to load ${baseCurrency} exchange rates`, { currencies: heldCurrencies, error: error.message }, "Portfolio"));
+  }, [heldCurrencies.join(","), baseCurrency]);
+
+  const loadPortfolios = async () => {
+    try {
+      const loaded = await getPortfolios();
+      // A remembered portfolio may have been deleted since
+      setSelectedPortfolio(selected => selected === "all" || loaded.some(portfolio => portfolio.id === selected) ? selected : loaded[0].id);
+      setPortfolios(loaded);
+    } catch (error) {
+      addLog("error", "Failed to load portfolios", { error: (error as Error).message }, "Portfolio");
+    }
+  };
+
+  // A merged holding (no portfolioId) shows the entries of every portfolio
+  const loadLedger = async (symbol: string, portfolioId: number | null) => {
+    try {
+      setLedger(await getTransactions(symbol, portfolioId ?? undefined));
+    } catch (error) {
+      addLog("error", `Failed to load transactions for ${symbol}`, { symbol, error: (error as Error).message }, "Ledger");
+    }
+  };
+
+  // Positions are derived from the ledger on the server, so re-read them after every ledger change
+  const reloadPositions = async () => {
+    const holdings = await getStoredStocks(selectedPortfolio);
+    setStocks(prev => prev.map(stock => {
+      const holding = holdings.find(h => h.symbol === stock.symbol);
+      return holding ? { ...stock, ...toPosition(holding), portfolioId: holding.portfolioId, byPortfolio: holding.byPortfolio } : stock;
+    }));
+  };
+
   const loadStoredStocks = async () => {
     try {
-      const storedSymbols = await getStoredStocks();
-      if (storedSymbols.length > 0) {
+      const storedStocks = await getStoredStocks(selectedPortfolio);
+      setStocks([]);
+      if (storedStocks.length > 0) {
         setLoading(true);
-        const fetchedStocks: StockWithAnalysis[] = [];
-        
-        for (const symbol of storedSymbols) {
-          try {
-            const stockData = await StockApiService.getStock(symbol);
-            fetchedStocks.push({ 
-              ...stockData, 
-              recommendation: undefined, 
-              forecast: undefined, 
-              aiInsight: undefined 
-            });
-          } catch (error) {
-            console.error(`Error loading stock ${symbol}:`, error);
-            addLog("error", `Failed to load stock ${symbol}`, { symbol, error: error.message }, "Portfolio");
+        // Quotes load concurrently; a holding whose quote failed is left out
+        const quotes = await StockApiService.getMultipleStocks(storedStocks.map(stored => stored.symbol));
+        const fetchedStocks: StockWithAnalysis[] = storedStocks.flatMap(stored => {
+          const stockData = quotes.find(quote => quote.symbol === stored.symbol);
+          if (!stockData) {
+            addLog("error", `Failed to load stock ${stored.symbol}`, { symbol: stored.symbol }, "Portfolio");
+            return [];
           }
-        }
-        
+          return [{
+            ...stockData,
+            ...toPosition(stored),
+            currency: stored.currency,
+            portfolioId: stored.portfolioId,
+            byPortfolio: stored.byPortfolio,
+          }];
+        });
+
         setStocks(fetchedStocks);
         addLog("info", `Loaded ${fetchedStocks.length} stocks from database`, { count: fetchedStocks.length }, "Portfolio");
         toast({
@@ -127,17 +179,34 @@ const Index = () => {
     }
   };
 
-  // Calculate portfolio totals
-  const portfolioData = {
-    totalValue: stocks.reduce((sum, stock) => sum + stock.price * 100, 0), // Assuming 100 shares each
-    totalChange: stocks.reduce((sum, stock) => sum + stock.change * 100, 0),
-    totalChangePercent: stocks.length > 0
-      ? (stocks.reduce((sum, stock) => sum + stock.changePercent, 0) / stocks.length)
-      : 0,
-    stockCount: stocks.length
-  };
+  // Calculate portfolio totals in the base currency once every listing currency has a rate
+  const ratesReady = fxRates?.base === baseCurrency && heldCurrencies.every(currency => fxRates.rates[currency] !== undefined);
+  const portfolioData = ratesReady
+    ? calculatePortfolioTotals(stocks.map(stock => convertHolding(stock, fxRates.rates[stock.currency])))
+    : null;
+  // In the consolidated view, each portfolio's share of the total
+  const portfolioBreakdown = selectedPortfolio === "all" && ratesReady
+    ? portfolios.map(portfolio => ({
+      name: portfolio.name,
+      value: stocks.reduce((sum, stock) => {
+        const quantity = stock.byPortfolio?.find(held => held.portfolioId === portfolio.id)?.quantity ?? 0;
+        return sum + quantity * stock.price * fxRates.rates[stock.currency];
+      }, 0)
+    }))
+    : undefined;
+  // selectedStock is a snapshot taken on click; positions change as the ledger does
+  const selectedHolding = stocks.find(stock => stock.symbol === selectedStock?.symbol);
+
+  const addStock = async (symbol: string, position?: Position) => {
+    if (selectedPortfolio === "all") {
+      toast({
+        title: "Choose a portfolio",
+        description: `Switch to the portfolio ${symbol} belongs in to add it`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-  const addStock = async (symbol: string) => {
     try {
       setLoading(true);
 
@@ -158,20 +227,24 @@ const Index = () => {
       const analysis = await StockApiService.analyzeStock(symbol, news);
       const forecast = await StockApiService.getForecast(symbol, stockData.price);
 
+      // Store in database with company name; the response carries the position rebuilt from the ledger
+      const holding: Holding = await addStockToStorage(selectedPortfolio, stockData.symbol, stockData.name, stockData.currency, position);
+
       const stockWithAnalysis: StockWithAnalysis = {
         ...stockData,
+        ...toPosition(holding),
+        currency: holding.currency,
+        portfolioId: holding.portfolioId,
         recommendation: analysis.recommendation,
         forecast,
         aiInsight: analysis.insight
       };
 
       setStocks(prev => [...prev, stockWithAnalysis]);
-      // Store in database with company name
-      await addStockToStorage(stockData.symbol, stockData.name);
       addLog("info", `Successfully added ${symbol}`, { symbol, price: stockData.price }, "Portfolio");
       toast({
         title: "Stock added successfully",
-        description: `${stockData.symbol} has been saved to your portfolio`,
+        description: `${stockData.symbol} has been saved to ${currentPortfolio?.name ?? "your portfolio"}`,
       });
     } catch (error) {
       console.error("Error adding stock:", error);
@@ -189,11 +262,69 @@ const Index = () => {
     }
   };
 
-  const removeStock = async (symbol: string) => {
+  const recordTransaction = async (entry: Omit<TransactionInput, "portfolioId">) => {
+    // Only offered for holdings of a single portfolio
+    const portfolioId = stocks.find(stock => stock.symbol === entry.symbol)?.portfolioId;
+    if (!portfolioId) return;
+
+    const transaction: TransactionInput = { ...entry, portfolioId };
+    try {
+      await addTransaction(transaction);
+      await Promise.all([reloadPositions(), loadLedger(transaction.symbol, portfolioId)]);
+      addLog("info", `Recorded ${transaction.type} for ${transaction.symbol}`, transaction, "Ledger");
+      toast({
+        title: "Transaction recorded",
+        description: `${transaction.type} of ${transaction.symbol} saved to your ledger`,
+      });
+    } catch (error) {
+      addLog("error", `Failed to record ${transaction.type} for ${transaction.symbol}`, { error: (error as Error).message }, "Ledger");
+      toast({
+        title: "Error recording transaction",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  // Each portfolio keeps its own method; the combined view shows each holding by its portfolio's
+  const changeCostBasisMethod = async (method: CostBasisMethod) => {
+    if (!currentPortfolio) return;
+    try {
+      const portfolio = await updatePortfolio(currentPortfolio.id, { costBasisMethod: method });
+      setPortfolios(prev => prev.map(p => p.id === portfolio.id ? portfolio : p));
+      await reloadPositions();
+      addLog("info", `Cost basis method of ${portfolio.name} set to ${method}`, { id: portfolio.id, method }, "Portfolio");
+    } catch (error) {
+      addLog("error", "Failed to change cost basis method", { method, error: (error as Error).message }, "Portfolio");
+      toast({
+        title: "Error changing cost basis",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeTransaction = async (symbol: string, portfolioId: number, id: number) => {
+    try {
+      await deleteTransaction(id);
+      await Promise.all([reloadPositions(), loadLedger(symbol, portfolioId)]);
+      addLog("info", `Deleted transaction ${id} for ${symbol}`, { symbol, id }, "Ledger");
+    } catch (error) {
+      addLog("error", `Failed to delete transaction ${id}`, { symbol, id, error: (error as Error).message }, "Ledger");
+      toast({
+        title: "Error deleting transaction",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeStock = async (symbol: string, portfolioId: number) => {
     setStocks(prev => prev.filter(stock => stock.symbol !== symbol));
     
     try {
-      await removeStockFromStorage(symbol);
+      await removeStockFromStorage(symbol, portfolioId);
       addLog("info", `Removed stock ${symbol} from database`, { symbol }, "Portfolio");
       
       if (selectedStock?.symbol === symbol) {
@@ -202,7 +333,7 @@ const Index = () => {
       
       toast({
         title: "Stock removed",
-        description: `${symbol} has been removed from your portfolio`,
+        description: `${symbol} has been removed from ${currentPortfolio?.name ?? "your portfolio"}`,
       });
     } catch (error) {
       addLog("error", `Failed to remove ${symbol} from database`, { symbol, error: error.message }, "Portfolio");
@@ -214,6 +345,58 @@ const Index = () => {
     }
   };
 
+  const addPortfolio = async (name: string) => {
+    try {
+      const portfolio = await createPortfolio({ name });
+      setPortfolios(prev => [...prev, portfolio]);
+      setSelectedPortfolio(portfolio.id);
+      addLog("info", `Created portfolio ${name}`, { id: portfolio.id }, "Portfolio");
+    } catch (error) {
+      addLog("error", `Failed to create portfolio ${name}`, { error: (error as Error).message }, "Portfolio");
+      toast({
+        title: "Error creating portfolio",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const renamePortfolio = async (id: number, name: string) => {
+    try {
+      const portfolio = await updatePortfolio(id, { name });
+      setPortfolios(prev => prev.map(p => p.id === id ? portfolio : p));
+      addLog("info", `Renamed portfolio ${id} to ${name}`, { id, name }, "Portfolio");
+    } catch (error) {
+      addLog("error", `Failed to rename portfolio ${id}`, { id, error: (error as Error).message }, "Portfolio");
+      toast({
+        title: "Error renaming portfolio",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  // The server only removes an empty portfolio
+  const removePortfolio = async (id: number) => {
+    try {
+      await deletePortfolio(id);
+      const remaining = portfolios.filter(portfolio => portfolio.id !== id);
+      setPortfolios(remaining);
+      setSelectedPortfolio(remaining[0].id);
+      addLog("info", `Deleted portfolio ${id}`, { id }, "Portfolio");
+    } catch (error) {
+      addLog("error", `Failed to delete portfolio ${id}`, { id, error: (error as Error).message }, "Portfolio");
+      toast({
+        title: "Error deleting portfolio",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
   const refreshData = async () => {
     if (stocks.length === 0) return;
 
@@ -224,12 +407,12 @@ const Index = () => {
       const updatedStocks = await Promise.all(
         symbols.map(async (symbol) => {
           const stockData = await StockApiService.getStock(symbol);
-          const existingStock = stocks.find(s => s.symbol === symbol);
+          const existingStock = stocks.find(s => s.symbol === symbol)!;
+          // Keep the stored listing currency; the ledger amounts are in it
           return {
+            ...existingStock,
             ...stockData,
-            recommendation: existingStock?.recommendation,
-            forecast: existingStock?.forecast,
-            aiInsight: existingStock?.aiInsight
+            currency: existingStock.currency
           };
         })
       );
@@ -252,20 +435,22 @@ const Index = () => {
     }
   };
 
+  const loadRecommendationHistory = async () => {
+    try {
+      setRecommendationHistory(await getRecommendationHistory({ limit: 10 }));
+    } catch (error) {
+      addLog("error", "Failed to load recommendation history", { error: (error as Error).message }, "Recommendations");
+    }
+  };
+
   const loadRecommendations = async () => {
     setLoading(true);
     setRecommendationError(null);
     addLog("info", "Loading stock recommendations", { filters: recommendationFilters }, "Recommendations");
 
     try {
-      // Convert maxPrice to USD if set (API expects USD)
-      let maxPriceUsd = recommendationFilters.maxPrice;
-      if (maxPriceUsd) {
-        // Rough conversion EUR to USD (should use actual exchange rate)
-        maxPriceUsd = maxPriceUsd / 0.85;
-      }
-
-      const recs = await StockApiService.getRecommendations(maxPriceUsd);
+      // The server converts each listing's price to the base currency to compare against maxPrice
+      const recs = await StockApiService.getRecommendations(recommendationFilters.maxPrice, baseCurrency);
       setRecommendations(recs);
 
       if (recs.length > 0) {
@@ -295,6 +480,8 @@ const Index = () => {
       });
     } finally {
       setLoading(false);
+      // The recommendations just shown are now part of the track record
+      loadRecommendationHistory();
     }
   };
 
@@ -319,6 +506,27 @@ const Index = () => {
             </div>
 
             <div className="flex items-center gap-3">
+              <MarketDataStatus />
+              <AlertNotifications />
+              {portfolios.length > 0 && (
+                <PortfolioSwitcher
+                  portfolios={portfolios}
+                  selected={selectedPortfolio}
+                  onSelect={setSelectedPortfolio}
+                  onCreate={addPortfolio}
+                  onRename={renamePortfolio}
+                  onDelete={removePortfolio}
+                />
+              )}
+              <CurrencySelector />
+              <Button
+                variant="outline"
+                onClick={() => navigate('/screener')}
+                className="border-border/50 hover:bg-accent/50"
+              >
+                <ListFilter className="h-4 w-4 mr-2" />
+                Screener
+              </Button>
               <Button
                 variant="outline"
                 onClick={refreshData}
@@ -335,6 +543,14 @@ const Index = () => {
                 <Sparkles className="h-4 w-4 mr-2" />
                 Get AI Insights
               </Button>
+              <Button
+                variant="ghost"
+                onClick={() => logout().catch(error => addLog("error", "Failed to sign out", { error: error.message }, "Auth"))}
+                title={`Signed in as ${user?.username}`}
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </Button>
             </div>
           </div>
         </div>
@@ -342,7 +558,14 @@ const Index = () => {
 
       <main className="container mx-auto px-6 py-8">
         {/* Portfolio Overview */}
-        {stocks.length > 0 && <PortfolioOverview portfolio={portfolioData} />}
+        {stocks.length > 0 && portfolioData && (
+          <PortfolioOverview
+            portfolio={portfolioData}
+            costBasisMethod={currentPortfolio?.costBasisMethod}
+            onCostBasisMethodChange={changeCostBasisMethod}
+            breakdown={portfolioBreakdown}
+          />
+        )}
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Column - Portfolio & Add Stock */}
@@ -350,12 +573,20 @@ const Index = () => {
             {/* Add Stock Form */}
             <div>
               <h2 className="text-xl font-semibold text-foreground mb-4">Add to Portfolio</h2>
-              <AddStockForm onAddStock={addStock} />
+              {selectedPortfolio === "all" ? (
+                <p className="text-sm text-muted-foreground p-4 bg-gradient-card rounded-lg border border-border/50">
+                  This view combines all your portfolios. Switch to one of them to add a stock.
+                </p>
+              ) : (
+                <AddStockForm onAddStock={addStock} />
+              )}
             </div>
 
             {/* Stock Portfolio */}
             <div>
-              <h2 className="text-xl font-semibold text-foreground mb-4">Your Portfolio</h2>
+              <h2 className="text-xl font-semibold text-foreground mb-4">
+                {selectedPortfolio === "all" ? "All Portfolios" : currentPortfolio?.name ?? "Your Portfolio"}
+              </h2>
               {stocks.length === 0 ? (
                 <div className="text-center py-12 bg-gradient-card rounded-lg border border-border/50">
                   <TrendingUp className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
@@ -372,32 +603,66 @@ const Index = () => {
                         price={stock.price}
                         change={stock.change}
                         changePercent={stock.changePercent}
+                        currency={stock.currency}
                         recommendation={stock.recommendation}
-                        onRemove={() => removeStock(stock.symbol)}
+                        position={stock}
+                        metrics={calculatePositionMetrics(
+                          stock.price,
+                          stock.change,
+                          stock,
+                          // Portfolio value expressed in this stock's currency, so the weight compares like with like
+                          portfolioData && fxRates ? portfolioData.totalValue / fxRates.rates[stock.currency] : 0
+                        )}
+                        onRecordTransaction={stock.portfolioId !== null ? () => setTransactionSymbol(stock.symbol) : undefined}
+                        onOpenChart={() => navigate(`/stock/${encodeURIComponent(stock.symbol)}`)}
+                        onRemove={stock.portfolioId !== null ? () => removeStock(stock.symbol, stock.portfolioId!) : undefined}
                       />
                     </div>
                   ))}
                 </div>
               )}
             </div>
+
+            {/* Watchlists, kept out of the totals above */}
+            <Watchlists
+              portfolios={portfolios}
+              defaultPortfolioId={currentPortfolio?.id}
+              onMoved={(holding) => (selectedPortfolio === "all" || selectedPortfolio === holding.portfolioId) && loadStoredStocks()}
+            />
           </div>
 
           {/* Right Column - Forecast & Recommendations */}
           <div className="space-y-8">
             {/* Stock Forecast */}
-            {selectedStock && selectedStock.forecast && (
+            {selectedStock && selectedStock.forecast && selectedStock.forecast.length > 0 && (
               <div>
                 <h2 className="text-xl font-semibold text-foreground mb-4">
                   {selectedStock.symbol} Forecast
                 </h2>
                 <ForecastCard
                   currentPrice={selectedStock.price}
+                  currency={selectedStock.currency}
                   forecasts={selectedStock.forecast}
                   aiInsight={selectedStock.aiInsight}
                 />
               </div>
             )}
 
+            {/* Transaction Ledger */}
+            {selectedHolding && (
+              <TransactionHistory
+                transactions={ledger}
+                lots={selectedHolding.lots}
+                sales={selectedHolding.sales}
+                price={selectedHolding.price}
+                currency={selectedHolding.currency}
+                onAdd={selectedHolding.portfolioId !== null ? () => setTransactionSymbol(selectedHolding.symbol) : undefined}
+                onDelete={selectedHolding.portfolioId !== null
+                  ? (id) => removeTransaction(selectedHolding.symbol, selectedHolding.portfolioId!, id)
+                  : undefined}
+              />
+            )}
+
             {/* AI Recommendations */}
             <div>
               <h2 className="text-xl font-semibold text-foreground mb-4">AI Recommendations</h2>
@@ -410,10 +675,22 @@ const Index = () => {
                 error={recommendationError}
                 onRetry={loadRecommendations}
               />
+              {recommendationHistory && (
+                <div className="mt-4">
+                  <RecommendationTrackRecord history={recommendationHistory} />
+                </div>
+              )}
             </div>
           </div>
         </div>
       </main>
+      <TransactionDialog
+        symbol={transactionSymbol ?? ""}
+        currency={stocks.find(stock => stock.symbol === transactionSymbol)?.currency}
+        open={transactionSymbol !== null}
+        onOpenChange={(open) => !open && setTransactionSymbol(null)}
+        onSave={recordTransaction}
+      />
       <DebugPanel />
     </div>
   );
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, TrendingUp } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+type Mode = "login" | "signup";
+
+// Sign in, or create an account; shown instead of the app while there is no session
+const Login = () => {
+  const { login, signup } = useAuth();
+  const [mode, setMode] = useState<Mode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await (mode === "login" ? login : signup)({ username, password });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-6">
+      <Card className="w-full max-w-sm bg-gradient-card shadow-card border-border/50 animate-slide-in">
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-gradient-primary">
+              <TrendingUp className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-foreground">StockIQ Dashboard</h1>
+              <p className="text-sm text-muted-foreground">
+                {mode === "login" ? "Sign in to your portfolio" : "Create an account"}
+              </p>
+            </div>
+          </div>
+
+          <Tabs value={mode} onValueChange={value => { setMode(value as Mode); setError(null); }}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login">Sign in</TabsTrigger>
+              <TabsTrigger value="signup">Sign up</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="space-y-2">
+            <Label htmlFor="username">Username</Label>
+            <Input
+              id="username"
+              autoComplete="username"
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete={mode === "login" ? "current-password" : "new-password"}
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              minLength={mode === "signup" ? 8 : undefined}
+              required
+            />
+            {mode === "signup" && <p className="text-xs text-muted-foreground">At least 8 characters</p>}
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+              <AlertTriangle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-gradient-primary hover:shadow-glow transition-all duration-300"
+          >
+            {submitting ? "Please wait..." : mode === "login" ? "Sign in" : "Create account"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,447 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MarketDataStatus } from "@/components/MarketDataStatus";
+import { CurrencySelector } from "@/components/CurrencySelector";
+import { createStockError, formatCurrency } from "@/services/stockApi";
+import { deleteScreen, getScreens, getUniverses, runScreen, saveScreen, updateScreen } from "@/services/screenerApi";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Filter, Plus, Save, Search, Trash2, X } from "lucide-react";
+import {
+  indicatorFields, screenOperators, screenSortFields,
+  type IndicatorField, type Screen, type ScreenDefinition, type ScreenerResults, type ScreenerUniverses
+} from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+type UniverseType = ScreenDefinition["universe"]["type"];
+type Condition = NonNullable<ScreenDefinition["indicators"]>[number];
+
+// Text inputs of one min/max range; empty means open
+interface RangeInput {
+  min: string;
+  max: string;
+}
+
+const RANGE_FIELDS = [
+  { key: "price", label: "Price" },
+  { key: "changePercent", label: "Change %" },
+  { key: "volume", label: "Volume" },
+  { key: "marketCap", label: "Market cap (billions)" },
+] as const;
+
+type RangeKey = (typeof RANGE_FIELDS)[number]["key"];
+
+// Market cap is entered in billions and sent in units
+const RANGE_SCALE: Record<RangeKey, number> = { price: 1, changePercent: 1, volume: 1, marketCap: 1e9 };
+
+const SORT_LABELS: Record<ScreenDefinition["sortBy"], string> = {
+  symbol: "Symbol",
+  price: "Price",
+  changePercent: "Change %",
+  volume: "Volume",
+  marketCap: "Market cap",
+};
+
+const emptyRanges = (): Record<RangeKey, RangeInput> => ({
+  price: { min: "", max: "" },
+  changePercent: { min: "", max: "" },
+  volume: { min: "", max: "" },
+  marketCap: { min: "", max: "" },
+});
+
+const formatLarge = (value: number | null) =>
+  value === null ? "—" : Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 2 }).format(value);
+
+const Screener = () => {
+  const [universes, setUniverses] = useState<ScreenerUniverses>({ indices: [], exchanges: [] });
+  const [universeType, setUniverseType] = useState<UniverseType>("index");
+  const [indexId, setIndexId] = useState("");
+  const [exchange, setExchange] = useState("");
+  const [customSymbols, setCustomSymbols] = useState("");
+  const [ranges, setRanges] = useState(emptyRanges);
+  const [sectors, setSectors] = useState("");
+  const [conditions, setConditions] = useState<Condition[]>([]);
+  const [sortBy, setSortBy] = useState<ScreenDefinition["sortBy"]>("symbol");
+  const [sortDirection, setSortDirection] = useState<ScreenDefinition["sortDirection"]>("asc");
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [activeScreen, setActiveScreen] = useState<Screen>();
+  const [screenName, setScreenName] = useState("");
+  const [results, setResults] = useState<ScreenerResults>();
+  const [definition, setDefinition] = useState<ScreenDefinition>();
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (error: unknown, action: string) => {
+    const stockError = createStockError(error, action);
+    toast({ title: stockError.message, description: stockError.solution, variant: "destructive" });
+  };
+
+  useEffect(() => {
+    getUniverses()
+      .then(loaded => {
+        setUniverses(loaded);
+        setIndexId(current => current || loaded.indices[0]?.id || "");
+        setExchange(current => current || loaded.exchanges[0] || "");
+      })
+      .catch(error => showError(error, 'loading screener universes'));
+    getScreens().then(setScreens).catch(error => showError(error, 'loading saved screens'));
+  }, []);
+
+  const buildDefinition = (): ScreenDefinition => {
+    const universe: ScreenDefinition["universe"] =
+      universeType === "index" ? { type: "index", id: indexId } :
+      universeType === "exchange" ? { type: "exchange", exchange } :
+      { type: "custom", symbols: customSymbols.split(/[\s,]+/).filter(Boolean).map(symbol => symbol.toUpperCase()) };
+
+    const built: ScreenDefinition = { universe, sortBy, sortDirection };
+    for (const { key } of RANGE_FIELDS) {
+      const { min, max } = ranges[key];
+      if (min.trim() !== "" || max.trim() !== "") {
+        built[key] = {
+          min: min.trim() !== "" ? Number(min) * RANGE_SCALE[key] : undefined,
+          max: max.trim() !== "" ? Number(max) * RANGE_SCALE[key] : undefined,
+        };
+      }
+    }
+    const sectorList = sectors.split(",").map(sector => sector.trim()).filter(Boolean);
+    if (sectorList.length > 0) built.sectors = sectorList;
+    if (conditions.length > 0) built.indicators = conditions;
+    return built;
+  };
+
+  // Puts a saved definition back into the form
+  const loadDefinition = (saved: ScreenDefinition) => {
+    const { universe } = saved;
+    setUniverseType(universe.type);
+    if (universe.type === "index") setIndexId(universe.id);
+    if (universe.type === "exchange") setExchange(universe.exchange);
+    if (universe.type === "custom") setCustomSymbols(universe.symbols.join(", "));
+
+    const loaded = emptyRanges();
+    for (const { key } of RANGE_FIELDS) {
+      const range = saved[key];
+      loaded[key] = {
+        min: range?.min !== undefined ? String(range.min / RANGE_SCALE[key]) : "",
+        max: range?.max !== undefined ? String(range.max / RANGE_SCALE[key]) : "",
+      };
+    }
+    setRanges(loaded);
+    setSectors((saved.sectors ?? []).join(", "));
+    setConditions(saved.indicators ?? []);
+    setSortBy(saved.sortBy);
+    setSortDirection(saved.sortDirection);
+  };
+
+  const run = async (page = 1, toRun = definition) => {
+    if (!toRun) return;
+    setRunning(true);
+    try {
+      setResults(await runScreen(toRun, page, PAGE_SIZE));
+      setDefinition(toRun);
+    } catch (error) {
+      showError(error, 'running screen');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const name = screenName.trim() || activeScreen?.name;
+    if (!name) {
+      toast({ title: "Name the screen first", variant: "destructive" });
+      return;
+    }
+    try {
+      const input = { name, definition: buildDefinition() };
+      const saved = activeScreen && activeScreen.name === name
+        ? await updateScreen(activeScreen.id, input)
+        : await saveScreen(input);
+      setActiveScreen(saved);
+      setScreens(await getScreens());
+      toast({ title: `Saved "${saved.name}"` });
+    } catch (error) {
+      showError(error, 'saving screen');
+    }
+  };
+
+  const handleOpen = (screen: Screen) => {
+    setActiveScreen(screen);
+    setScreenName(screen.name);
+    loadDefinition(screen.definition);
+    run(1, screen.definition);
+  };
+
+  const handleDelete = async (screen: Screen) => {
+    try {
+      await deleteScreen(screen.id);
+      setScreens(current => current.filter(s => s.id !== screen.id));
+      if (activeScreen?.id === screen.id) setActiveScreen(undefined);
+    } catch (error) {
+      showError(error, 'deleting screen');
+    }
+  };
+
+  const updateCondition = (index: number, change: Partial<Condition>) =>
+    setConditions(current => current.map((condition, i) => i === index ? { ...condition, ...change } : condition));
+
+  const indicatorColumns = Array.from(new Set((definition?.indicators ?? []).map(condition => condition.field)));
+  const pageCount = results ? Math.max(1, Math.ceil(results.total / results.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="h-9 w-9 p-0">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Stock Screener</h1>
+                <p className="text-sm text-muted-foreground">Filter an index, exchange or list of your own</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <MarketDataStatus />
+              <CurrencySelector />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-4 gap-8">
+        <div className="space-y-6">
+          <Card className="bg-gradient-card shadow-card border-border/50">
+            <div className="p-4 space-y-4">
+              <div className="flex items-center gap-2">
+                <Filter className="h-4 w-4 text-primary" />
+                <h3 className="text-sm font-semibold text-foreground">Criteria</h3>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Universe</Label>
+                <Select value={universeType} onValueChange={(value) => setUniverseType(value as UniverseType)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="index">Index</SelectItem>
+                    <SelectItem value="exchange">Exchange</SelectItem>
+                    <SelectItem value="custom">Custom list</SelectItem>
+                  </SelectContent>
+                </Select>
+                {universeType === "index" && (
+                  <Select value={indexId} onValueChange={setIndexId}>
+                    <SelectTrigger><SelectValue placeholder="Pick an index" /></SelectTrigger>
+                    <SelectContent>
+                      {universes.indices.map(index => (
+                        <SelectItem key={index.id} value={index.id}>{index.name} ({index.size})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {universeType === "exchange" && (
+                  <Select value={exchange} onValueChange={setExchange}>
+                    <SelectTrigger><SelectValue placeholder="Pick an exchange" /></SelectTrigger>
+                    <SelectContent>
+                      {universes.exchanges.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                )}
+                {universeType === "custom" && (
+                  <Input
+                    placeholder="AAPL, MSFT, ENI.MI"
+                    value={customSymbols}
+                    onChange={(event) => setCustomSymbols(event.target.value)}
+                  />
+                )}
+              </div>
+
+              {RANGE_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <Label>{label}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      placeholder="Min"
+                      value={ranges[key].min}
+                      onChange={(event) => setRanges(current => ({ ...current, [key]: { ...current[key], min: event.target.value } }))}
+                    />
+                    <Input
+                      type="number"
+                      placeholder="Max"
+                      value={ranges[key].max}
+                      onChange={(event) => setRanges(current => ({ ...current, [key]: { ...current[key], max: event.target.value } }))}
+                    />
+                  </div>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Sectors</Label>
+                <Input placeholder="Technology, Banking" value={sectors} onChange={(event) => setSectors(event.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Indicators</Label>
+                {conditions.map((condition, index) => (
+                  <div key={index} className="flex gap-1">
+                    <Select value={condition.field} onValueChange={(value) => updateCondition(index, { field: value as IndicatorField })}>
+                      <SelectTrigger className="px-2"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.keys(indicatorFields).map(field => <SelectItem key={field} value={field}>{field}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Select value={condition.operator} onValueChange={(value) => updateCondition(index, { operator: value as Condition["operator"] })}>
+                      <SelectTrigger className="w-16 px-2"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {screenOperators.map(operator => <SelectItem key={operator} value={operator}>{operator}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      className="w-20"
+                      value={condition.value}
+                      onChange={(event) => updateCondition(index, { value: Number(event.target.value) })}
+                    />
+                    <Button variant="ghost" size="sm" className="px-2" onClick={() => setConditions(current => current.filter((_, i) => i !== index))}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setConditions(current => [...current, { field: "rsi", operator: "<", value: 30 }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add condition
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Sort by</Label>
+                <div className="flex gap-2">
+                  <Select value={sortBy} onValueChange={(value) => setSortBy(value as ScreenDefinition["sortBy"])}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {screenSortFields.map(field => <SelectItem key={field} value={field}>{SORT_LABELS[field]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={() => setSortDirection(current => current === "asc" ? "desc" : "asc")}>
+                    {sortDirection === "asc" ? "Asc" : "Desc"}
+                  </Button>
+                </div>
+              </div>
+
+              <Button className="w-full bg-gradient-primary" disabled={running} onClick={() => run(1, buildDefinition())}>
+                <Search className="h-4 w-4 mr-2" />
+                {running ? "Screening..." : "Run screen"}
+              </Button>
+            </div>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-card border-border/50">
+            <div className="p-4 space-y-3">
+              <h3 className="text-sm font-semibold text-foreground">Saved screens</h3>
+              <div className="flex gap-2">
+                <Input placeholder="Screen name" value={screenName} onChange={(event) => setScreenName(event.target.value)} />
+                <Button variant="outline" onClick={handleSave}>
+                  <Save className="h-4 w-4" />
+                </Button>
+              </div>
+              {screens.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No saved screens yet</p>
+              ) : (
+                screens.map(screen => (
+                  <div key={screen.id} className="flex items-center justify-between gap-2">
+                    <button
+                      className={`text-sm text-left truncate hover:underline ${activeScreen?.id === screen.id ? "font-semibold text-primary" : "text-foreground"}`}
+                      onClick={() => handleOpen(screen)}
+                    >
+                      {screen.name}
+                    </button>
+                    <Button variant="ghost" size="sm" className="px-2" onClick={() => handleDelete(screen)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+        </div>
+
+        <Card className="lg:col-span-3 bg-gradient-card shadow-card border-border/50">
+          <div className="p-6 space-y-4">
+            {!results ? (
+              <div className="py-16 text-center text-muted-foreground">
+                {running ? "Screening..." : "Set criteria and run the screen"}
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {results.total} of {results.universeSize} symbols match
+                  {results.failed.length > 0 && ` · no data for ${results.failed.join(", ")}`}
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Sector</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead className="text-right">Volume</TableHead>
+                      <TableHead className="text-right">Market cap</TableHead>
+                      {indicatorColumns.map(field => <TableHead key={field} className="text-right">{field}</TableHead>)}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.rows.map(row => (
+                      <TableRow key={row.symbol}>
+                        <TableCell>
+                          <Link href={`/stock/${encodeURIComponent(row.symbol)}`} className="font-medium text-foreground hover:underline">
+                            {row.symbol}
+                          </Link>
+                          <p className="text-xs text-muted-foreground truncate max-w-[200px]">{row.name}</p>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{row.sector ?? "—"}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.price, row.currency)}</TableCell>
+                        <TableCell className={`text-right ${row.changePercent >= 0 ? "text-success" : "text-danger"}`}>
+                          {row.changePercent >= 0 ? "+" : ""}{row.changePercent.toFixed(2)}%
+                        </TableCell>
+                        <TableCell className="text-right">{formatLarge(row.volume)}</TableCell>
+                        <TableCell className="text-right">{formatLarge(row.marketCap)}</TableCell>
+                        {indicatorColumns.map(field => (
+                          <TableCell key={field} className="text-right">{row.indicators[field]?.toFixed(2) ?? "—"}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="flex items-center justify-end gap-3">
+                  <Button variant="outline" size="sm" disabled={running || results.page <= 1} onClick={() => run(results.page - 1)}>
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">Page {results.page} of {pageCount}</span>
+                  <Button variant="outline" size="sm" disabled={running || results.page >= pageCount} onClick={() => run(results.page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Screener;
@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { PriceChart, timeDomain, type ChartStyle } from "@/components/PriceChart";
+import { IndicatorPane, type Oscillator } from "@/components/IndicatorPane";
+import { ForecastCard } from "@/components/ForecastCard";
+import { ForecastAccuracyCard } from "@/components/ForecastAccuracyCard";
+import { MarketDataStatus } from "@/components/MarketDataStatus";
+import { CurrencySelector } from "@/components/CurrencySelector";
+import { StockApiService, StockData, createStockError, formatCurrency } from "@/services/stockApi";
+import { getForecastAccuracy, getHistory, getIndicators } from "@/services/marketDataApi";
+import { getTransactions } from "@/services/ledgerApi";
+import { apiRequest } from "@/services/apiClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, TrendingUp } from "lucide-react";
+import type {
+  ForecastAccuracyReport, ForecastPoint, HistoricalCandle, HistoryResolution, Holding, IndicatorName, IndicatorValues, Transaction
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Selectable chart ranges; long ones are drawn with weekly bars
+const RANGES: Record<string, { days: number; resolution: HistoryResolution }> = {
+  "1M": { days: 30, resolution: "D" },
+  "3M": { days: 91, resolution: "D" },
+  "6M": { days: 182, resolution: "D" },
+  "1Y": { days: 365, resolution: "D" },
+  "5Y": { days: 5 * 365, resolution: "W" },
+};
+
+type Range = keyof typeof RANGES;
+
+// Indicators the chart can show, in toggle order; oscillators get a pane of their own
+const INDICATOR_LABELS: Record<IndicatorName, string> = {
+  sma: "SMA", ema: "EMA", bollinger: "BB", vwap: "VWAP", rsi: "RSI", macd: "MACD", atr: "ATR",
+};
+const OSCILLATORS: Oscillator[] = ["rsi", "macd", "atr"];
+
+const StockDetail = () => {
+  const { symbol: rawSymbol = "" } = useParams<{ symbol: string }>();
+  const symbol = rawSymbol.toUpperCase();
+  const [range, setRange] = useState<Range>("6M");
+  const [chartStyle, setChartStyle] = useState<ChartStyle>("line");
+  const [stock, setStock] = useState<StockData | null>(null);
+  const [holding, setHolding] = useState<Holding>();
+  const [candles, setCandles] = useState<HistoricalCandle[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [forecast, setForecast] = useState<ForecastPoint[]>([]);
+  const [accuracy, setAccuracy] = useState<ForecastAccuracyReport>();
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [selectedIndicators, setSelectedIndicators] = useState<IndicatorName[]>([]);
+  const [indicators, setIndicators] = useState<IndicatorValues[]>([]);
+  const { toast } = useToast();
+
+  // The stored listing currency wins over the provider's; ledger prices are in it
+  const currency = holding?.currency ?? stock?.currency ?? "USD";
+
+  useEffect(() => {
+    const loadStock = async () => {
+      try {
+        const [stockData, holdings, ledger] = await Promise.all([
+          StockApiService.getStock(symbol),
+          apiRequest<Holding[]>('/api/stocks'),
+          getTransactions(symbol),
+        ]);
+        setStock(stockData);
+        setHolding(holdings.find(h => h.symbol === symbol));
+        setTransactions(ledger);
+        setForecast(await StockApiService.getForecast(symbol, stockData.price));
+        setAccuracy(await getForecastAccuracy({ symbol }));
+      } catch (error) {
+        const stockError = createStockError(error, 'loading stock');
+        toast({ title: stockError.message, description: stockError.solution, variant: "destructive" });
+      }
+    };
+
+    loadStock();
+  }, [symbol]);
+
+  useEffect(() => {
+    const { days, resolution } = RANGES[range];
+    setLoadingHistory(true);
+    getHistory(symbol, { resolution, from: new Date(Date.now() - days * DAY_MS) })
+      .then(setCandles)
+      .catch(error => {
+        const stockError = createStockError(error, 'loading price history');
+        toast({ title: stockError.message, description: stockError.solution, variant: "destructive" });
+      })
+      .finally(() => setLoadingHistory(false));
+  }, [symbol, range]);
+
+  useEffect(() => {
+    if (selectedIndicators.length === 0) {
+      setIndicators([]);
+      return;
+    }
+    const { days, resolution } = RANGES[range];
+    getIndicators(symbol, selectedIndicators, { resolution, from: new Date(Date.now() - days * DAY_MS) })
+      .then(result => setIndicators(result.values))
+      .catch(error => {
+        const stockError = createStockError(error, 'loading indicators');
+        toast({ title: stockError.message, description: stockError.solution, variant: "destructive" });
+      });
+  }, [symbol, range, selectedIndicators]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="h-9 w-9 p-0">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">{symbol}</h1>
+                <p className="text-sm text-muted-foreground">{holding?.name ?? stock?.name ?? "Loading..."}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <MarketDataStatus />
+              <CurrencySelector />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-8">
+        <Card className="bg-gradient-card shadow-card border-border/50">
+          <div className="p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <div className="text-2xl font-bold text-foreground">
+                  {stock ? formatCurrency(stock.price, currency) : "Loading..."}
+                </div>
+                {stock && (
+                  <p className={`text-sm font-medium ${stock.change >= 0 ? "text-success" : "text-danger"}`}>
+                    {stock.change >= 0 ? "+" : ""}{formatCurrency(stock.change, currency)} ({stock.change >= 0 ? "+" : ""}{stock.changePercent.toFixed(2)}%)
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4">
+                <ToggleGroup
+                  type="multiple"
+                  size="sm"
+                  value={selectedIndicators}
+                  onValueChange={(value) => setSelectedIndicators(value as IndicatorName[])}
+                >
+                  {Object.entries(INDICATOR_LABELS).map(([name, label]) => (
+                    <ToggleGroupItem key={name} value={name}>{label}</ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <ToggleGroup type="single" size="sm" value={chartStyle} onValueChange={(value) => value && setChartStyle(value as ChartStyle)}>
+                  <ToggleGroupItem value="line">Line</ToggleGroupItem>
+                  <ToggleGroupItem value="ohlc">OHLC</ToggleGroupItem>
+                </ToggleGroup>
+                <ToggleGroup type="single" size="sm" value={range} onValueChange={(value) => value && setRange(value as Range)}>
+                  {Object.keys(RANGES).map(key => (
+                    <ToggleGroupItem key={key} value={key}>{key}</ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+            </div>
+
+            {candles.length > 0 ? (
+              <>
+                <PriceChart
+                  candles={candles}
+                  currency={currency}
+                  style={chartStyle}
+                  transactions={transactions}
+                  forecast={forecast}
+                  indicators={indicators}
+                />
+                {indicators.length > 0 && OSCILLATORS.filter(kind => selectedIndicators.includes(kind)).map(kind => (
+                  <IndicatorPane
+                    key={kind}
+                    kind={kind}
+                    values={indicators}
+                    domain={timeDomain(candles, forecast)}
+                    currency={currency}
+                  />
+                ))}
+              </>
+            ) : (
+              <div className="h-[400px] flex flex-col items-center justify-center text-muted-foreground">
+                <TrendingUp className="h-12 w-12 mb-2" />
+                {loadingHistory ? "Loading price history..." : "No price history available"}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Prices in {currency}. Dots mark your buys (green) and sells (red); the dashed line is the forecast.
+            </p>
+          </div>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {stock && forecast.length > 0 && (
+            <div>
+              <h2 className="text-xl font-semibold text-foreground mb-4">{symbol} Forecast</h2>
+              <ForecastCard currentPrice={stock.price} currency={currency} forecasts={forecast} />
+            </div>
+          )}
+          {accuracy && (
+            <div>
+              <h2 className="text-xl font-semibold text-foreground mb-4">Backtest</h2>
+              <ForecastAccuracyCard accuracy={accuracy.bySymbol} pending={accuracy.pending} currency={currency} />
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default StockDetail;
@@ -0,0 +1,49 @@
+// User-defined alerts and their history on our own backend; the server checks them on a schedule
+import type { Alert, AlertEventList, InsertAlert } from "@shared/schema";
+import { apiRequest } from "./apiClient";
+
+// What the alert form sends; the server normalizes symbol, direction and threshold
+export interface AlertInput {
+  symbol: string;
+  type: InsertAlert["type"];
+  direction?: InsertAlert["direction"];
+  threshold?: number | null;
+  active?: boolean;
+}
+
+export function getAlerts(): Promise<Alert[]> {
+  return apiRequest<Alert[]>('/api/alerts');
+}
+
+export function createAlert(alert: AlertInput): Promise<Alert> {
+  return apiRequest<Alert>('/api/alerts', {
+    method: 'POST',
+    body: JSON.stringify(alert),
+  });
+}
+
+export function updateAlert(id: number, alert: AlertInput): Promise<Alert> {
+  return apiRequest<Alert>(`/api/alerts/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(alert),
+  });
+}
+
+export async function deleteAlert(id: number): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/api/alerts/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export function getAlertEvents(limit = 20): Promise<AlertEventList> {
+  return apiRequest<AlertEventList>(`/api/alerts/events?limit=${limit}`);
+}
+
+// Without ids every event is marked read
+export async function markAlertEventsRead(ids?: number[]): Promise<number> {
+  const { updated } = await apiRequest<{ updated: number }>('/api/alerts/events/read', {
+    method: 'POST',
+    body: JSON.stringify({ ids }),
+  });
+  return updated;
+}
@@ -0,0 +1,42 @@
+import type { MarketDataErrorCode } from "@shared/schema";
+
+// Failed request; market data endpoints also say why (`code`) and whether retrying can help
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: MarketDataErrorCode, readonly retryable = false) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Called when a request comes back 401, i.e. the session has ended
+let onUnauthorized: (() => void) | null = null;
+
+export function setUnauthorizedHandler(handler: typeof onUnauthorized) {
+  onUnauthorized = handler;
+}
+
+// JSON requests against our own backend; error responses carry an `error` message
+export async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      onUnauthorized?.();
+    }
+    const error = await response.json().catch(() => ({}));
+    throw new ApiError(
+      error.error || `Request failed: ${response.status} ${response.statusText}`,
+      response.status,
+      error.code,
+      error.retryable ?? false
+    );
+  }
+
+  return await response.json();
+}
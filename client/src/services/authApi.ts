@@ -0,0 +1,35 @@
+// Accounts and the session cookie on our own backend
+import type { InsertUser, PublicUser } from "@shared/schema";
+import { ApiError, apiRequest } from "./apiClient";
+
+// The signed-in account, or null without a session
+export async function getCurrentUser(): Promise<PublicUser | null> {
+  const response = await fetch('/api/user');
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new ApiError(`Request failed: ${response.status} ${response.statusText}`, response.status);
+  }
+  return await response.json();
+}
+
+export function login(credentials: InsertUser): Promise<PublicUser> {
+  return apiRequest<PublicUser>('/api/login', {
+    method: 'POST',
+    body: JSON.stringify(credentials),
+  });
+}
+
+export function signup(credentials: InsertUser): Promise<PublicUser> {
+  return apiRequest<PublicUser>('/api/signup', {
+    method: 'POST',
+    body: JSON.stringify(credentials),
+  });
+}
+
+export async function logout(): Promise<void> {
+  await apiRequest<{ success: boolean }>('/api/logout', {
+    method: 'POST',
+  });
+}
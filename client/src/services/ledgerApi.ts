@@ -0,0 +1,45 @@
+// Transaction ledger endpoints on our own backend
+import type { Transaction, TransactionType } from "@shared/schema";
+import { apiRequest } from "./apiClient";
+
+export interface TransactionInput {
+  symbol: string;
+  portfolioId: number;
+  type: TransactionType;
+  quantity?: number;
+  price?: number;
+  amount?: number;
+  fees?: number;
+  splitRatio?: number;
+  executedAt: string;
+  notes?: string;
+}
+
+// Without portfolioId, the entries of every portfolio
+export function getTransactions(symbol?: string, portfolioId?: number): Promise<Transaction[]> {
+  const params = new URLSearchParams();
+  if (symbol) params.set('symbol', symbol);
+  if (portfolioId) params.set('portfolioId', String(portfolioId));
+  const query = params.toString();
+  return apiRequest<Transaction[]>(`/api/transactions${query ? `?${query}` : ''}`);
+}
+
+export function addTransaction(transaction: TransactionInput): Promise<Transaction> {
+  return apiRequest<Transaction>('/api/transactions', {
+    method: 'POST',
+    body: JSON.stringify(transaction),
+  });
+}
+
+export function updateTransaction(id: number, transaction: TransactionInput): Promise<Transaction> {
+  return apiRequest<Transaction>(`/api/transactions/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(transaction),
+  });
+}
+
+export async function deleteTransaction(id: number): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/api/transactions/${id}`, {
+    method: 'DELETE',
+  });
+}
@@ -0,0 +1,114 @@
+import type {
+  Candle, CandleResolution, Forecast, ForecastAccuracyReport, FxRates, HistoricalCandle, HistoryResolution, IndicatorName, Indicators, NewsArticle, Quote, Recommendation, RecommendationHistory, RecommendationSource, RecordRecommendation, SymbolMatch, TrackedRecommendation, UpstreamStatus
+} from "@shared/schema";
+import { apiRequest } from "./apiClient";
+
+// Market data goes through our own backend, which holds the provider API keys
+export function getQuote(symbol: string): Promise<Quote> {
+  return apiRequest<Quote>(`/api/quotes/${encodeURIComponent(symbol)}`);
+}
+
+export function getCandles(
+  symbol: string,
+  options: { resolution?: CandleResolution; from?: Date; to?: Date } = {}
+): Promise<Candle[]> {
+  const params = new URLSearchParams();
+  if (options.resolution) params.set('resolution', options.resolution);
+  if (options.from) params.set('from', options.from.toISOString());
+  if (options.to) params.set('to', options.to.toISOString());
+  const query = params.toString();
+  return apiRequest<Candle[]>(`/api/candles/${encodeURIComponent(symbol)}${query ? `?${query}` : ''}`);
+}
+
+// Daily bars from the server's local history, or weekly/monthly roll-ups of them
+export function getHistory(
+  symbol: string,
+  options: { resolution?: HistoryResolution; from?: Date; to?: Date } = {}
+): Promise<HistoricalCandle[]> {
+  const params = new URLSearchParams();
+  if (options.resolution) params.set('resolution', options.resolution);
+  if (options.from) params.set('from', options.from.toISOString());
+  if (options.to) params.set('to', options.to.toISOString());
+  const query = params.toString();
+  return apiRequest<HistoricalCandle[]>(`/api/history/${encodeURIComponent(symbol)}${query ? `?${query}` : ''}`);
+}
+
+// Technical indicators for each bar of the range, computed by the server from its history
+export function getIndicators(
+  symbol: string,
+  indicators: IndicatorName[],
+  options: { resolution?: HistoryResolution; from?: Date; to?: Date } = {}
+): Promise<Indicators> {
+  const params = new URLSearchParams({ indicators: indicators.join(',') });
+  if (options.resolution) params.set('resolution', options.resolution);
+  if (options.from) params.set('from', options.from.toISOString());
+  if (options.to) params.set('to', options.to.toISOString());
+  return apiRequest<Indicators>(`/api/indicators/${encodeURIComponent(symbol)}?${params.toString()}`);
+}
+
+// Model forecast over the stored history, projected from `price` (default: the last close);
+// without `model` the server blends every model into its ensemble
+export function getForecast(symbol: string, price?: number, model?: string): Promise<Forecast> {
+  const params = new URLSearchParams();
+  if (price !== undefined) params.set('price', String(price));
+  if (model) params.set('model', model);
+  const query = params.toString() ? `?${params.toString()}` : '';
+  return apiRequest<Forecast>(`/api/forecast/${encodeURIComponent(symbol)}${query}`);
+}
+
+// How past forecasts did against the closes that followed
+export function getForecastAccuracy(filter: { symbol?: string; model?: string } = {}): Promise<ForecastAccuracyReport> {
+  const params = new URLSearchParams();
+  if (filter.symbol) params.set('symbol', filter.symbol);
+  if (filter.model) params.set('model', filter.model);
+  const query = params.toString();
+  return apiRequest<ForecastAccuracyReport>(`/api/forecasts/accuracy${query ? `?${query}` : ''}`);
+}
+
+// Best-scoring symbols of a screener index, each with its per-factor breakdown
+export function getRecommendations(
+  options: { universe?: string; maxPrice?: number; currency?: string; limit?: number } = {}
+): Promise<Recommendation[]> {
+  const params = new URLSearchParams();
+  if (options.universe) params.set('universe', options.universe);
+  if (options.maxPrice !== undefined) params.set('maxPrice', String(options.maxPrice));
+  if (options.currency) params.set('currency', options.currency);
+  if (options.limit !== undefined) params.set('limit', String(options.limit));
+  const query = params.toString();
+  return apiRequest<Recommendation[]>(`/api/recommendations${query ? `?${query}` : ''}`);
+}
+
+// Past recommendations and how each source's calls have done since
+export function getRecommendationHistory(
+  filter: { symbol?: string; source?: RecommendationSource; limit?: number } = {}
+): Promise<RecommendationHistory> {
+  const params = new URLSearchParams();
+  if (filter.symbol) params.set('symbol', filter.symbol);
+  if (filter.source) params.set('source', filter.source);
+  if (filter.limit !== undefined) params.set('limit', String(filter.limit));
+  const query = params.toString();
+  return apiRequest<RecommendationHistory>(`/api/recommendations/history${query ? `?${query}` : ''}`);
+}
+
+export function recordRecommendation(call: RecordRecommendation): Promise<TrackedRecommendation> {
+  return apiRequest<TrackedRecommendation>('/api/recommendations/history', {
+    method: 'POST',
+    body: JSON.stringify(call),
+  });
+}
+
+export function getNews(symbol: string): Promise<NewsArticle[]> {
+  return apiRequest<NewsArticle[]>(`/api/news/${encodeURIComponent(symbol)}`);
+}
+
+export function searchSymbols(query: string): Promise<SymbolMatch[]> {
+  return apiRequest<SymbolMatch[]>(`/api/search?q=${encodeURIComponent(query)}`);
+}
+
+export function getFxRates(base: string): Promise<FxRates> {
+  return apiRequest<FxRates>(`/api/fx?base=${encodeURIComponent(base)}`);
+}
+
+export function getMarketStatus(): Promise<UpstreamStatus[]> {
+  return apiRequest<UpstreamStatus[]>('/api/market/status');
+}
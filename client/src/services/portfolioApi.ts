@@ -0,0 +1,27 @@
+// Portfolios on our own backend; every user has at least one
+import type { InsertPortfolio, Portfolio, UpdatePortfolio } from "@shared/schema";
+import { apiRequest } from "./apiClient";
+
+export function getPortfolios(): Promise<Portfolio[]> {
+  return apiRequest<Portfolio[]>('/api/portfolios');
+}
+
+export function createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio> {
+  return apiRequest<Portfolio>('/api/portfolios', {
+    method: 'POST',
+    body: JSON.stringify(portfolio),
+  });
+}
+
+export function updatePortfolio(id: number, portfolio: UpdatePortfolio): Promise<Portfolio> {
+  return apiRequest<Portfolio>(`/api/portfolios/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(portfolio),
+  });
+}
+
+export async function deletePortfolio(id: number): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/api/portfolios/${id}`, {
+    method: 'DELETE',
+  });
+}
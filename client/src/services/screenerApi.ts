@@ -0,0 +1,38 @@
+// Stock screener and saved screens on our own backend
+import type { InsertScreen, Screen, ScreenDefinition, ScreenerResults, ScreenerUniverses } from "@shared/schema";
+import { apiRequest } from "./apiClient";
+
+export function getUniverses(): Promise<ScreenerUniverses> {
+  return apiRequest<ScreenerUniverses>('/api/screener/universes');
+}
+
+export function runScreen(definition: ScreenDefinition, page = 1, pageSize = 25): Promise<ScreenerResults> {
+  return apiRequest<ScreenerResults>(`/api/screener?page=${page}&pageSize=${pageSize}`, {
+    method: 'POST',
+    body: JSON.stringify(definition),
+  });
+}
+
+export function getScreens(): Promise<Screen[]> {
+  return apiRequest<Screen[]>('/api/screens');
+}
+
+export function saveScreen(screen: InsertScreen): Promise<Screen> {
+  return apiRequest<Screen>('/api/screens', {
+    method: 'POST',
+    body: JSON.stringify(screen),
+  });
+}
+
+export function updateScreen(id: number, screen: InsertScreen): Promise<Screen> {
+  return apiRequest<Screen>(`/api/screens/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(screen),
+  });
+}
+
+export async function deleteScreen(id: number): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/api/screens/${id}`, {
+    method: 'DELETE',
+  });
+}
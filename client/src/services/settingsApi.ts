@@ -0,0 +1,13 @@
+import type { Settings, UpdateSettings } from "@shared/schema";
+import { apiRequest } from "./apiClient";
+
+export function getSettings(): Promise<Settings> {
+  return apiRequest<Settings>('/api/settings');
+}
+
+export function updateSettings(update: UpdateSettings): Promise<Settings> {
+  return apiRequest<Settings>('/api/settings', {
+    method: 'PUT',
+    body: JSON.stringify(update),
+  });
+}
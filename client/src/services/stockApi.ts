@@ -1,6 +1,12 @@
 
-// Production stock data service using free APIs
-// APIs used: Finnhub (stock data), NewsAPI (news), Hugging Face (AI sentiment)
+// Production stock data service
+// Market data comes from our backend gateway (/api/quotes, /api/news, ...), which
+// calls Finnhub, FMP and NewsData with keys that never reach the browser
+
+import type { Currency, ForecastPoint, ForecastQuantiles, Recommendation } from "@shared/schema";
+import { classifySentiment } from "@shared/sentiment";
+import { getForecast as fetchForecast, getFxRates, getNews, getQuote, getRecommendations as fetchRecommendations, recordRecommendation, searchSymbols } from "./marketDataApi";
+import { ApiError } from "./apiClient";
 
 // Import debug logging
 let addLog: ((level: "error" | "info" | "warning", message: string, details?: any, component?: string) => void) | null = null;
@@ -22,6 +28,7 @@ export interface StockData {
   price: number;
   change: number;
   changePercent: number;
+  currency: string; // ISO code the quote is in, from the provider profile
   volume?: number;
   marketCap?: string;
 }
@@ -33,28 +40,19 @@ export interface NewsItem {
   published: string;
   sentiment: "positive" | "negative" | "neutral";
   source: string;
+  mock?: boolean; // made up because live news was unavailable
 }
 
 export interface ForecastData {
+  model?: string;
   period: "1d" | "1w" | "1m";
   label: string;
   prediction: number;
+  quantiles?: ForecastQuantiles;
   confidence: number;
   trend: "up" | "down" | "neutral";
 }
 
-// API Configuration - Multiple free APIs for better coverage
-const FINNHUB_API_KEY = import.meta.env.VITE_FINNHUB_API_KEY || 'demo';
-const NEWS_API_KEY = import.meta.env.VITE_NEWSDATA_API_KEY || '';
-const HF_API_KEY = import.meta.env.VITE_HUGGING_FACE_API_KEY || '';
-const FMP_API_KEY = import.meta.env.VITE_FMP_API_KEY || 'demo';
-
-// API endpoints
-const FINNHUB_BASE = 'https://finnhub.io/api/v1';
-const NEWSDATA_BASE = 'https://newsdata.io/api/1';
-const HF_API_BASE = 'https://api-inference.huggingface.co/models';
-const FMP_BASE = 'https://financialmodelingprep.com/api/v3';
-
 // Storage for persistent stocks
 const STORAGE_KEY = 'user_stocks';
 
@@ -95,54 +93,88 @@ export function removeStockFromStorage(symbol: string): void {
   }
 }
 
-// Currency conversion - using ExchangeRate-API (free, no API key required)
-const EXCHANGE_RATE_API = 'https://api.exchangerate-api.com/v4/latest/USD';
-
-// Cache for exchange rate to avoid too many API calls
-let cachedExchangeRate: { rate: number; timestamp: number } | null = null;
+// Currency conversion - rates from ExchangeRate-API via /api/fx
+// Cache of rate tables per source currency to avoid too many API calls
+const cachedExchangeRates = new Map<string, { rates: Record<string, number>; timestamp: number }>();
 const CACHE_DURATION = 3600000; // 1 hour in milliseconds
 
-// Get USD to EUR exchange rate
-async function getUsdToEurRate(): Promise<number> {
+// Approximate units per USD, used only when the rate API is unreachable
+const FALLBACK_USD_RATES: Record<Currency, number> = {
+  USD: 1,
+  EUR: 0.85,
+  GBP: 0.74,
+  CHF: 0.8,
+  JPY: 148,
+  CAD: 1.37,
+  AUD: 1.52,
+  SEK: 10.5,
+  NOK: 10.7,
+  DKK: 6.4
+};
+
+// Locale each currency is conventionally written in
+const CURRENCY_LOCALES: Record<Currency, string> = {
+  EUR: 'de-DE',
+  USD: 'en-US',
+  GBP: 'en-GB',
+  CHF: 'de-CH',
+  JPY: 'ja-JP',
+  CAD: 'en-CA',
+  AUD: 'en-AU',
+  SEK: 'sv-SE',
+  NOK: 'nb-NO',
+  DKK: 'da-DK'
+};
+
+// Get the rate that turns one unit of `from` into `to`. Listing currencies may be
+// any ISO code, not only the ones offered as a base currency.
+export async function getExchangeRate(from: string, to: string): Promise<number> {
+  if (from === to) {
+    return 1;
+  }
+
   try {
     // Check cache first
-    if (cachedExchangeRate && (Date.now() - cachedExchangeRate.timestamp) < CACHE_DURATION) {
-      return cachedExchangeRate.rate;
+    const cached = cachedExchangeRates.get(from);
+    if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION && cached.rates[to]) {
+      return cached.rates[to];
     }
 
-    const response = await fetch(EXCHANGE_RATE_API);
-    if (!response.ok) {
-      throw new Error('Failed to fetch exchange rate');
-    }
-    
-    const data = await response.json();
-    const eurRate = data.rates.EUR;
+    const data = await getFxRates(from);
     
-    // Cache the rate
-    cachedExchangeRate = {
-      rate: eurRate,
+    // Cache the rates
+    cachedExchangeRates.set(from, {
+      rates: data.rates,
       timestamp: Date.now()
-    };
+    });
     
-    return eurRate;
+    if (!data.rates[to]) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return data.rates[to];
   } catch (error) {
     console.error('Error fetching exchange rate:', error);
     // Fallback to approximate rate if API fails
-    return 0.85; // Approximate USD to EUR rate
+    const fromRate = FALLBACK_USD_RATES[from as Currency];
+    const toRate = FALLBACK_USD_RATES[to as Currency];
+    if (!fromRate || !toRate) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return toRate / fromRate;
   }
 }
 
-// Convert USD to EUR
-export async function convertToEur(usdAmount: number): Promise<number> {
-  const rate = await getUsdToEurRate();
-  return usdAmount * rate;
+// Convert an amount between currencies
+export async function convert(amount: number, from: string, to: string): Promise<number> {
+  const rate = await getExchangeRate(from, to);
+  return amount * rate;
 }
 
-// Format currency in EUR
-export function formatEurCurrency(amount: number): string {
-  return new Intl.NumberFormat('de-DE', {
+// Format an amount in the given currency using that currency's usual locale
+export function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat(CURRENCY_LOCALES[currency as Currency], {
     style: 'currency',
-    currency: 'EUR'
+    currency
   }).format(amount);
 }
 
@@ -232,14 +264,49 @@ const COMPANY_SEARCH_MAP: Record<string, string[]> = {
 
 // Enhanced error types for better user feedback
 export interface StockError {
-  type: 'NETWORK' | 'API_LIMIT' | 'INVALID_SYMBOL' | 'NO_DATA' | 'UNKNOWN';
+  type: 'NETWORK' | 'API_LIMIT' | 'INVALID_SYMBOL' | 'NO_DATA' | 'DEGRADED' | 'UNKNOWN';
   message: string;
   solution: string;
   canRetry: boolean;
 }
 
 export function createStockError(error: any, context: string): StockError {
-  if (error.message?.includes('Failed to fetch') || error.message?.includes('NetworkError')) {
+  // Market data errors from our backend say what went wrong; the message checks below cover the rest
+  if (error instanceof ApiError && error.code) {
+    switch (error.code) {
+      case 'CIRCUIT_OPEN':
+      case 'UPSTREAM_UNAVAILABLE':
+        return {
+          type: 'DEGRADED',
+          message: 'Market data provider is degraded',
+          solution: 'Prices may be delayed; the app will try the provider again shortly',
+          canRetry: true
+        };
+      case 'RATE_LIMITED':
+        return {
+          type: 'API_LIMIT',
+          message: 'Too many requests - API limit reached',
+          solution: 'Please wait a few minutes before trying again',
+          canRetry: true
+        };
+      case 'NOT_FOUND':
+        return {
+          type: 'INVALID_SYMBOL',
+          message: 'Stock symbol not found',
+          solution: 'Check the stock symbol or try searching by company name',
+          canRetry: false
+        };
+      case 'NETWORK':
+        return {
+          type: 'NETWORK',
+          message: 'Unable to connect to stock data service',
+          solution: 'Check your internet connection and try again',
+          canRetry: true
+        };
+    }
+  }
+
+  if (error.message?.includes('Failed to fetch') || error.message?.includes('NetworkError') || error.message?.includes('unreachable')) {
     return {
       type: 'NETWORK',
       message: 'Unable to connect to stock data service',
@@ -290,17 +357,15 @@ export async function searchStocks(query: string): Promise<{ symbol: string; com
   // Direct symbol match (still check this first)
   if (/^[A-Z]{1,5}$/.test(query.toUpperCase())) {
     try {
-      // Validate symbol exists via profile check
-      const response = await fetch(`${FMP_BASE}/profile/${query.toUpperCase()}?apikey=${FMP_API_KEY}`);
-      if (response.ok) {
-        const data = await response.json();
-        if (data && data.length > 0 && data[0].companyName) {
-          return [{ 
-            symbol: query.toUpperCase(), 
-            companyName: data[0].companyName,
-            match: 'symbol' 
-          }];
-        }
+      // Validate symbol exists via an exact search hit
+      const data = await searchSymbols(query.toUpperCase());
+      const exact = data.find(item => item.symbol === query.toUpperCase());
+      if (exact) {
+        return [{ 
+          symbol: exact.symbol, 
+          companyName: exact.name,
+          match: 'symbol' 
+        }];
       }
     } catch (error) {
       debugLog("warning", `Failed to validate symbol ${query}: ${error.message}`, { query }, "SymbolSearch");
@@ -312,32 +377,26 @@ export async function searchStocks(query: string): Promise<{ symbol: string; com
   try {
     debugLog("info", `Searching companies for query: ${query}`, { query }, "SymbolSearch");
     
-    // Use FMP search API for company name search
-    const response = await fetch(
-      `${FMP_BASE}/search?query=${encodeURIComponent(query)}&limit=10&apikey=${FMP_API_KEY}`
-    );
+    // Company name search through the gateway
+    const data = await searchSymbols(query);
     
-    if (response.ok) {
-      const data = await response.json();
+    if (data.length > 0) {
+      const results = data
+        .filter(item => item.exchange === 'NASDAQ' || item.exchange === 'NYSE')
+        .slice(0, 8) // Limit results
+        .map(item => ({
+          symbol: item.symbol,
+          companyName: item.name,
+          match: item.name.toLowerCase().includes(normalizedQuery) ? 'exact' : 'partial'
+        }));
       
-      if (data && data.length > 0) {
-        const results = data
-          .filter(item => item.symbol && item.name && item.exchangeShortName === 'NASDAQ' || item.exchangeShortName === 'NYSE')
-          .slice(0, 8) // Limit results
-          .map(item => ({
-            symbol: item.symbol,
-            companyName: item.name,
-            match: item.name.toLowerCase().includes(normalizedQuery) ? 'exact' : 'partial'
-          }));
-        
-        if (results.length > 0) {
-          debugLog("info", `Found ${results.length} companies via FMP API`, { query, count: results.length }, "SymbolSearch");
-          return results;
-        }
+      if (results.length > 0) {
+        debugLog("info", `Found ${results.length} companies via symbol search`, { query, count: results.length }, "SymbolSearch");
+        return results;
       }
     }
   } catch (error) {
-    debugLog("error", `FMP search failed: ${error.message}`, { query, error: error.message }, "SymbolSearch");
+    debugLog("error", `Symbol search failed: ${error.message}`, { query, error: error.message }, "SymbolSearch");
   }
   
   // Fallback to hardcoded mapping for popular stocks when API fails
@@ -368,85 +427,16 @@ export async function searchStocks(query: string): Promise<{ symbol: string; com
   }];
 }
 
-// Helper function to analyze sentiment using simple keyword analysis as fallback
-async function analyzeSentiment(text: string): Promise<"positive" | "negative" | "neutral"> {
-  // Simple keyword-based sentiment analysis as fallback
-  const positiveKeywords = ['growth', 'profit', 'strong', 'positive', 'increase', 'bullish', 'outperform', 'buy', 'upgrade', 'beat', 'exceed'];
-  const negativeKeywords = ['loss', 'decline', 'weak', 'negative', 'decrease', 'bearish', 'underperform', 'sell', 'downgrade', 'miss', 'below'];
-  
-  const lowerText = text.toLowerCase();
-  
-  let positiveScore = 0;
-  let negativeScore = 0;
-  
-  positiveKeywords.forEach(keyword => {
-    if (lowerText.includes(keyword)) positiveScore++;
-  });
-  
-  negativeKeywords.forEach(keyword => {
-    if (lowerText.includes(keyword)) negativeScore++;
-  });
-  
-  if (positiveScore > negativeScore) return "positive";
-  if (negativeScore > positiveScore) return "negative";
-  return "neutral";
-}
-
 export class StockApiService {
   static async getStock(symbol: string): Promise<StockData> {
     try {
-      debugLog("info", `Fetching stock data for ${symbol} using Finnhub`, { apiKey: `${FINNHUB_API_KEY.substring(0, 8)}...` }, "StockAPI");
-      
-      // Finnhub Quote API - 60 calls per minute for free!
-      const response = await fetch(
-        `${FINNHUB_BASE}/quote?symbol=${symbol}&token=${FINNHUB_API_KEY}`
-      );
+      debugLog("info", `Fetching stock data for ${symbol}`, { symbol }, "StockAPI");
       
-      if (!response.ok) {
-        debugLog("error", `API Response Error: ${response.status} ${response.statusText}`, { symbol, status: response.status }, "StockAPI");
-        throw new Error(`Failed to fetch stock data: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      debugLog("info", `Raw API response for ${symbol}`, data, "StockAPI");
-      
-      // Check for API error messages
-      if (data.error) {
-        debugLog("error", `Finnhub API Error: ${data.error}`, { symbol, error: data.error }, "StockAPI");
-        throw new Error(`API Error: ${data.error}`);
-      }
-      
-      if (!data.c || data.c === 0) {
-        debugLog("error", `No quote data found for ${symbol}`, { symbol, fullResponse: data }, "StockAPI");
-        throw new Error(`Stock ${symbol} not found or no data available`);
-      }
-      
-      const price = data.c; // Current price
-      const change = data.d; // Change
-      const changePercent = data.dp; // Change percent
-      
-      // Get company profile for name
-      let companyName = symbol;
-      try {
-        const profileResponse = await fetch(
-          `${FINNHUB_BASE}/stock/profile2?symbol=${symbol}&token=${FINNHUB_API_KEY}`
-        );
-        if (profileResponse.ok) {
-          const profileData = await profileResponse.json();
-          if (profileData.name) {
-            companyName = profileData.name;
-          }
-        }
-      } catch (error) {
-        // Ignore profile errors, use symbol as name
-      }
+      const quote = await getQuote(symbol);
+      debugLog("info", `Quote for ${symbol}`, quote, "StockAPI");
       
       return {
-        symbol: symbol.toUpperCase(),
-        name: companyName,
-        price,
-        change,
-        changePercent,
+        ...quote,
         volume: undefined, // Would need additional API call
         marketCap: undefined // Would need additional API call
       };
@@ -456,71 +446,37 @@ export class StockApiService {
     }
   }
 
+  // The server's rate limiter paces these, so they can all be requested at once
   static async getMultipleStocks(symbols: string[]): Promise<StockData[]> {
-    // Finnhub allows 60 calls per minute, so we can be more aggressive
-    const results: StockData[] = [];
+    const results = await Promise.allSettled(symbols.map(symbol => this.getStock(symbol)));
     
-    for (const symbol of symbols) {
-      try {
-        const stock = await this.getStock(symbol);
-        results.push(stock);
-        // Small delay to respect rate limits (60 calls per minute = 1 call per second)
-        await new Promise(resolve => setTimeout(resolve, 1100));
-      } catch (error) {
-        console.error(`Failed to fetch ${symbol}:`, error);
+    return results.flatMap((result, index) => {
+      if (result.status === "fulfilled") {
+        return [result.value];
       }
-    }
-    
-    return results;
+      console.error(`Failed to fetch ${symbols[index]}:`, result.reason);
+      return [];
+    });
   }
 
   static async getStockNews(symbol: string): Promise<NewsItem[]> {
-    if (!NEWS_API_KEY) {
-      debugLog("warning", `No NewsData API key found, using mock data for ${symbol}`, { symbol }, "NewsAPI");
-      return this.getMockNews(symbol);
-    }
-
     try {
-      debugLog("info", `Fetching real news for ${symbol} from NewsData.io`, { symbol }, "NewsAPI");
-      
-      // Get company name for better search results
-      const companyName = await this.getCompanyName(symbol);
-      const searchQuery = `"${symbol}" OR "${companyName}"`;
+      debugLog("info", `Fetching news for ${symbol}`, { symbol }, "NewsAPI");
       
-      const response = await fetch(
-        `${NEWSDATA_BASE}/news?apikey=${NEWS_API_KEY}&q=${encodeURIComponent(searchQuery)}&category=business,technology&language=en&size=10`
-      );
-
-      if (!response.ok) {
-        if (response.status === 429) {
-          debugLog("warning", "NewsData API rate limit reached, using mock data", { symbol }, "NewsAPI");
-          return this.getMockNews(symbol);
-        }
-        throw new Error(`NewsData API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const articles = await getNews(symbol);
       
-      if (!data.results || data.results.length === 0) {
+      // The gateway returns nothing when no news key is configured
+      if (articles.length === 0) {
         debugLog("info", `No news found for ${symbol}, using mock data`, { symbol }, "NewsAPI");
         return this.getMockNews(symbol);
       }
 
       const newsItems: NewsItem[] = [];
       
-      for (const article of data.results.slice(0, 5)) {
+      for (const article of articles) {
         // Analyze sentiment of the title and description
-        const textToAnalyze = `${article.title} ${article.description || ''}`;
-        const sentiment = await analyzeSentiment(textToAnalyze);
-        
-        newsItems.push({
-          title: article.title || `${symbol} News Update`,
-          summary: article.description || article.content?.substring(0, 200) || 'No description available',
-          url: article.link || '#',
-          published: article.pubDate || new Date().toISOString(),
-          sentiment,
-          source: article.source_id || 'NewsData'
-        });
+        const sentiment = classifySentiment(`${article.title} ${article.summary}`);
+        newsItems.push({ ...article, sentiment });
       }
 
       debugLog("info", `Fetched ${newsItems.length} real news articles for ${symbol}`, { 
@@ -537,7 +493,7 @@ export class StockApiService {
         error: error.message 
       }, "NewsAPI");
       
-      // Fallback to mock data on error
+      // Fallback to mock data on error (including rate limits)
       return this.getMockNews(symbol);
     }
   }
@@ -551,7 +507,8 @@ export class StockApiService {
         url: "#",
         published: new Date(Date.now() - Math.random() * 86400000).toISOString(),
         sentiment: "positive" as const,
-        source: "Market Watch"
+        source: "Market Watch",
+        mock: true
       },
       {
         title: `Analysts Update ${symbol} Price Target`,
@@ -559,7 +516,8 @@ export class StockApiService {
         url: "#",
         published: new Date(Date.now() - Math.random() * 172800000).toISOString(),
         sentiment: "neutral" as const,
-        source: "Financial Times"
+        source: "Financial Times",
+        mock: true
       },
       {
         title: `${symbol} Market Analysis and Trends`,
@@ -567,214 +525,60 @@ export class StockApiService {
         url: "#",
         published: new Date(Date.now() - Math.random() * 259200000).toISOString(),
         sentiment: Math.random() > 0.3 ? "positive" : "neutral" as const,
-        source: "Bloomberg"
+        source: "Bloomberg",
+        mock: true
       }
     ];
 
     return mockNews.slice(0, 2 + Math.floor(Math.random() * 2));
   }
 
-  private static async getCompanyName(symbol: string): Promise<string> {
-    // Simple mapping for common stocks - in production you'd use a proper company search API
-    const companyNames: Record<string, string> = {
-      'AAPL': 'Apple Inc',
-      'GOOGL': 'Alphabet Google',
-      'MSFT': 'Microsoft Corporation',
-      'TSLA': 'Tesla Inc',
-      'NVDA': 'NVIDIA Corporation',
-      'AMZN': 'Amazon.com Inc',
-      'META': 'Meta Platforms',
-      'NFLX': 'Netflix Inc'
-    };
-    
-    return companyNames[symbol.toUpperCase()] || symbol;
-  }
-
-  static async getForecast(symbol: string, currentPrice: number): Promise<(ForecastData & { reasoning: string })[]> {
-    // Technical analysis-based forecast using price patterns
-    // This is a simplified model - in production you'd use more sophisticated algorithms
-    
+  // Deterministic forecast from the server's model over the stored price history
+  static async getForecast(symbol: string, currentPrice: number): Promise<ForecastPoint[]> {
     try {
-      // Get recent price data for trend analysis using Finnhub
-      const response = await fetch(
-        `${FINNHUB_BASE}/stock/candle?symbol=${symbol}&resolution=D&from=${Math.floor(Date.now()/1000) - 86400*10}&to=${Math.floor(Date.now()/1000)}&token=${FINNHUB_API_KEY}`
-      );
-      
-      let trend = "neutral";
-      let volatility = 0.05;
-      
-      if (response.ok) {
-        const data = await response.json();
-        
-        if (data.c && data.c.length > 0) {
-          const prices = data.c.slice(-10); // Last 10 days
-          
-          // Simple trend calculation
-          const recentAvg = prices.slice(-5).reduce((sum, price) => sum + price, 0) / 5;
-          const olderAvg = prices.slice(-10, -5).reduce((sum, price) => sum + price, 0) / 5;
-          
-          if (recentAvg > olderAvg * 1.02) trend = "up";
-          else if (recentAvg < olderAvg * 0.98) trend = "down";
-          
-          // Calculate volatility
-          const changes = prices.slice(1).map((price, i) => Math.abs(price - prices[i]) / prices[i]);
-          volatility = changes.reduce((sum, change) => sum + change, 0) / changes.length;
-        }
-      }
-      
-      const baseConfidence = trend === "neutral" ? 60 : 75;
-      
-      const oneDayPrediction = currentPrice * (1 + (Math.random() - 0.5) * volatility * 0.5);
-      const oneWeekPrediction = currentPrice * (1 + (Math.random() - 0.5) * volatility * 2);
-      const oneMonthPrediction = currentPrice * (1 + (Math.random() - 0.5) * volatility * 4);
-      
-      return [
-        {
-          period: "1d",
-          label: "1 Day",
-          prediction: oneDayPrediction,
-          confidence: baseConfidence + Math.random() * 15,
-          trend: trend as "up" | "down" | "neutral",
-          reasoning: `Based on recent intraday patterns and ${volatility > 0.1 ? 'high' : volatility > 0.05 ? 'moderate' : 'low'} volatility (${(volatility * 100).toFixed(1)}%), short-term price movement expected around ${((oneDayPrediction - currentPrice) / currentPrice * 100).toFixed(1)}%. Current ${trend} trend influences directional bias.`
-        },
-        {
-          period: "1w",
-          label: "1 Week",
-          prediction: oneWeekPrediction,
-          confidence: baseConfidence - 10 + Math.random() * 15,
-          trend: trend as "up" | "down" | "neutral",
-          reasoning: `Weekly forecast considers recent ${trend} trend momentum and technical indicators. Historical volatility suggests ${volatility > 0.08 ? 'wider' : 'tighter'} price range. Market sentiment and sector performance will influence actual outcome.`
-        },
-        {
-          period: "1m",
-          label: "1 Month",
-          prediction: oneMonthPrediction,
-          confidence: baseConfidence - 20 + Math.random() * 20,
-          trend: trend as "up" | "down" | "neutral",
-          reasoning: `Monthly outlook incorporates fundamental analysis, earnings expectations, and broader market conditions. The ${((oneMonthPrediction - currentPrice) / currentPrice * 100).toFixed(1)}% projected move reflects current ${trend} bias with increased uncertainty over longer timeframe.`
-        }
-      ];
+      const forecast = await fetchForecast(symbol, currentPrice);
+      debugLog("info", `Forecast for ${symbol}`, {
+        symbol,
+        model: forecast.model,
+        asOf: forecast.asOf,
+        evaluation: forecast.evaluation,
+        observations: forecast.observations,
+        drift: forecast.drift,
+        volatility: forecast.volatility
+      }, "ForecastAPI");
+      return forecast.points;
     } catch (error) {
-      debugLog("error", `Error generating forecast for ${symbol}: ${error.message}`, { 
-        symbol, 
-        currentPrice, 
-        error: error.message,
-        apiKey: `${FINNHUB_API_KEY.substring(0, 8)}...`
+      debugLog("error", `Error generating forecast for ${symbol}: ${error.message}`, {
+        symbol,
+        currentPrice,
+        error: error.message
       }, "ForecastAPI");
-      
-      // Fallback to simple random forecast with reasoning
-      const fallbackOneDayPrediction = currentPrice * (1 + (Math.random() - 0.5) * 0.03);
-      const fallbackOneWeekPrediction = currentPrice * (1 + (Math.random() - 0.5) * 0.10);
-      const fallbackOneMonthPrediction = currentPrice * (1 + (Math.random() - 0.5) * 0.20);
-      
-      return [
-        {
-          period: "1d",
-          label: "1 Day",
-          prediction: fallbackOneDayPrediction,
-          confidence: 70 + Math.random() * 20,
-          trend: Math.random() > 0.5 ? "up" : "down",
-          reasoning: "Limited historical data available. Prediction based on general market patterns and expected daily volatility of 3%. Consider this a rough estimate."
-        },
-        {
-          period: "1w",
-          label: "1 Week",
-          prediction: fallbackOneWeekPrediction,
-          confidence: 60 + Math.random() * 25,
-          trend: Math.random() > 0.4 ? "up" : "down",
-          reasoning: "Weekly forecast uses statistical modeling with 10% volatility assumption. Actual performance may vary significantly based on market events and company news."
-        },
-        {
-          period: "1m",
-          label: "1 Month",
-          prediction: fallbackOneMonthPrediction,
-          confidence: 50 + Math.random() * 30,
-          trend: Math.random() > 0.3 ? "up" : "down",
-          reasoning: "Monthly projection has high uncertainty due to limited data. Based on 20% monthly volatility range. Recommend monitoring news and fundamentals for better accuracy."
-        }
-      ];
+      return [];
     }
   }
 
-  static async getRecommendations(maxPrice?: number): Promise<any[]> {
-    // Get recommendations based on trending stocks and news sentiment
-    const trendingSymbols = ['NVDA', 'TSLA', 'AAPL', 'MSFT', 'GOOGL'];
-    const recommendations = [];
-    
-    debugLog("info", `Fetching recommendations for ${trendingSymbols.slice(0, 3).join(', ')}`, { 
-      maxPrice, 
-      symbolCount: trendingSymbols.slice(0, 3).length 
-    }, "Recommendations");
-    
-    for (const symbol of trendingSymbols.slice(0, 3)) {
-      try {
-        debugLog("info", `Processing recommendation for ${symbol}`, { symbol }, "Recommendations");
-        
-        const [stockData, news] = await Promise.all([
-          this.getStock(symbol),
-          this.getStockNews(symbol)
-        ]);
-        
-        const positiveNews = news.filter(n => n.sentiment === "positive").length;
-        const negativeNews = news.filter(n => n.sentiment === "negative").length;
-        const newsScore = positiveNews - negativeNews;
-        
-        debugLog("info", `News sentiment for ${symbol}`, { 
-          symbol, 
-          positive: positiveNews, 
-          negative: negativeNews, 
-          score: newsScore 
-        }, "Recommendations");
-        
-        // Always include recommendations, just adjust confidence based on sentiment
-        const upside = 5 + Math.random() * 15;
-        const targetPrice = stockData.price * (1 + upside / 100);
-        
-        // Filter by maximum price if specified
-        if (!maxPrice || stockData.price <= maxPrice) {
-          const companyName = await this.getCompanyName(symbol);
-          
-          recommendations.push({
-            symbol: stockData.symbol,
-            name: companyName,
-            currentPrice: stockData.price,
-            targetPrice: parseFloat(targetPrice.toFixed(2)),
-            upside: parseFloat(upside.toFixed(1)),
-            confidence: Math.max(50, 70 + newsScore * 5 + Math.random() * 15),
-            reason: `Market analysis indicates ${upside.toFixed(1)}% upside potential. News sentiment: ${positiveNews} positive vs ${negativeNews} negative recent articles.`,
-            newsImpact: newsScore > 0 ? "positive" as const : newsScore < 0 ? "negative" as const : "neutral" as const
-          });
-          
-          debugLog("info", `Added recommendation for ${symbol}`, { 
-            symbol, 
-            price: stockData.price, 
-            upside: upside.toFixed(1) 
-          }, "Recommendations");
-        } else {
-          debugLog("info", `Skipped ${symbol} due to price filter`, { 
-            symbol, 
-            price: stockData.price, 
-            maxPrice 
-          }, "Recommendations");
-        }
-        
-        // Shorter delay with Finnhub's better limits
-        await new Promise(resolve => setTimeout(resolve, 1500));
-      } catch (error) {
-        debugLog("error", `Error getting recommendation for ${symbol}`, { 
-          symbol, 
-          error: error.message,
-          stack: error.stack 
-        }, "Recommendations");
-      }
+  // Scored on the server from momentum, valuation, news, volatility and analyst ratings;
+  // maxPrice is in `currency`
+  static async getRecommendations(maxPrice?: number, currency: Currency = "USD"): Promise<Recommendation[]> {
+    debugLog("info", "Fetching recommendations", { maxPrice, currency }, "Recommendations");
+
+    try {
+      const recommendations = await fetchRecommendations({ maxPrice, currency });
+
+      debugLog("info", `Received ${recommendations.length} recommendations`, {
+        count: recommendations.length,
+        scores: recommendations.map(r => ({ symbol: r.symbol, score: Number(r.score.toFixed(1)), rating: r.rating }))
+      }, "Recommendations");
+
+      return recommendations;
+    } catch (error) {
+      debugLog("error", "Error fetching recommendations", {
+        maxPrice,
+        currency,
+        error: error.message
+      }, "Recommendations");
+      throw error;
     }
-    
-    debugLog("info", `Generated ${recommendations.length} recommendations`, { 
-      count: recommendations.length,
-      symbols: recommendations.map(r => r.symbol) 
-    }, "Recommendations");
-    
-    return recommendations;
   }
 
   static async analyzeStock(symbol: string, news: NewsItem[]): Promise<{ recommendation: "BUY" | "SELL" | "HOLD"; insight: string }> {
@@ -802,6 +606,15 @@ export class StockApiService {
       recommendation = "HOLD";
       insight = `Mixed sentiment signals with ${positiveNews} positive, ${negativeNews} negative, and ${neutralNews} neutral articles. Wait for clearer directional indicators.`;
     }
+
+    // Recorded for the track record without holding up the analysis. A call made from
+    // mock news is random, so it stays out of the record.
+    if (news.some(item => item.mock)) {
+      debugLog("info", `Not recording the ${recommendation} call for ${symbol}: based on mock news`, { symbol }, "Recommendations");
+    } else {
+      recordRecommendation({ symbol, rating: recommendation.toLowerCase() as Lowercase<typeof recommendation>, summary: insight })
+        .catch(error => debugLog("warning", `Could not record the ${recommendation} call for ${symbol}`, { symbol, error: error.message }, "Recommendations"));
+    }
     
     return { recommendation, insight };
   }
@@ -0,0 +1,52 @@
+// Watchlists on our own backend; symbols followed without holding them
+import type { Holding, InsertWatchlist, MoveToPortfolio, WatchlistItem, WatchlistQuote, WatchlistWithItems } from "@shared/schema";
+import { apiRequest } from "./apiClient";
+
+export function getWatchlists(): Promise<WatchlistWithItems[]> {
+  return apiRequest<WatchlistWithItems[]>('/api/watchlists');
+}
+
+export function createWatchlist(watchlist: InsertWatchlist): Promise<WatchlistWithItems> {
+  return apiRequest<WatchlistWithItems>('/api/watchlists', {
+    method: 'POST',
+    body: JSON.stringify(watchlist),
+  });
+}
+
+export function updateWatchlist(id: number, watchlist: InsertWatchlist): Promise<WatchlistWithItems> {
+  return apiRequest<WatchlistWithItems>(`/api/watchlists/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(watchlist),
+  });
+}
+
+export async function deleteWatchlist(id: number): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/api/watchlists/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export function getWatchlistQuotes(id: number): Promise<WatchlistQuote[]> {
+  return apiRequest<WatchlistQuote[]>(`/api/watchlists/${id}/quotes`);
+}
+
+export function addToWatchlist(id: number, symbol: string): Promise<WatchlistItem> {
+  return apiRequest<WatchlistItem>(`/api/watchlists/${id}/items`, {
+    method: 'POST',
+    body: JSON.stringify({ symbol }),
+  });
+}
+
+export async function removeFromWatchlist(id: number, symbol: string): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/api/watchlists/${id}/items/${encodeURIComponent(symbol)}`, {
+    method: 'DELETE',
+  });
+}
+
+// Records a buy in the portfolio and takes the symbol off the watchlist
+export function moveToPortfolio(id: number, symbol: string, move: MoveToPortfolio): Promise<Holding> {
+  return apiRequest<Holding>(`/api/watchlists/${id}/items/${encodeURIComponent(symbol)}/move`, {
+    method: 'POST',
+    body: JSON.stringify(move),
+  });
+}
@@ -0,0 +1,191 @@
+import type { Alert, Quote } from "@shared/schema";
+import { storage, type AlertState } from "./storage";
+import { getNews, getQuote } from "./marketData";
+import { getIndicators } from "./indicators";
+import { ForecastError, getForecast } from "./forecast";
+import { summarizeSentiment } from "./watchlists";
+import { runWithPriority } from "./rateLimiter";
+import { log } from "./vite";
+
+// Alerts engine. A scheduler reads every active alert's symbol through the cached market
+// data gateway and fires an alert when its condition becomes true; it fires again only
+// after the condition has been false at a check in between. Each firing is kept as an
+// alert event, which the header lists as a notification until it is read.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = (Number(process.env.ALERT_CHECK_MINUTES) || 5) * 60 * 1000;
+const RSI_LOOKBACK_DAYS = 30;
+
+// What one check found for an alert; value is null when there was nothing to measure
+interface Reading {
+  value: number | null;
+  met: boolean;
+  message?: string;
+  sentiment?: string; // new positive or negative reading, for sentiment_flip
+}
+
+// Market data of one symbol, fetched at most once per check and only if an alert needs it
+class SymbolData {
+  private quote?: Promise<Quote>;
+  private rsi?: Promise<number | null>;
+  private news?: ReturnType<typeof getNews>;
+
+  constructor(readonly symbol: string) {}
+
+  getQuote(): Promise<Quote> {
+    return this.quote ??= getQuote(this.symbol);
+  }
+
+  // Latest daily RSI from the stored history
+  getRsi(): Promise<number | null> {
+    return this.rsi ??= getIndicators(this.symbol, ["rsi"], new Date(Date.now() - RSI_LOOKBACK_DAYS * DAY_MS), new Date())
+      .then(({ values }) => values.map(row => row.rsi).filter((rsi): rsi is number => rsi != null).pop() ?? null);
+  }
+
+  getNews() {
+    return this.news ??= getNews(this.symbol);
+  }
+}
+
+// The ensemble's next-day median from the last close, refitted once a day per symbol
+const forecastCache = new Map<string, { day: string; prediction: number | null }>();
+
+async function forecastForToday(symbol: string): Promise<number | null> {
+  const day = new Date().toISOString().slice(0, 10);
+  const cached = forecastCache.get(symbol);
+  if (cached?.day === day) {
+    return cached.prediction;
+  }
+  let prediction: number | null = null;
+  try {
+    prediction = (await getForecast(symbol)).points.find(point => point.period === "1d")?.prediction ?? null;
+  } catch (error) {
+    // Too little history to forecast; the alert waits until there is enough
+    if (!(error instanceof ForecastError)) {
+      throw error;
+    }
+  }
+  forecastCache.set(symbol, { day, prediction });
+  return prediction;
+}
+
+const formatPrice = (price: number, currency: string) => `${price.toFixed(2)} ${currency}`;
+const signedPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+async function read(alert: Alert, data: SymbolData): Promise<Reading> {
+  const threshold = Number(alert.threshold);
+
+  switch (alert.type) {
+    case "price_cross": {
+      const { price, currency } = await data.getQuote();
+      const met = alert.direction === "above" ? price >= threshold : price <= threshold;
+      return { value: price, met, message: `${alert.symbol} is ${alert.direction} ${formatPrice(threshold, currency)} at ${formatPrice(price, currency)}` };
+    }
+    case "daily_move": {
+      const { changePercent } = await data.getQuote();
+      return {
+        value: changePercent,
+        met: Math.abs(changePercent) >= threshold,
+        message: `${alert.symbol} moved ${signedPercent(changePercent)} today`,
+      };
+    }
+    case "rsi": {
+      const rsi = await data.getRsi();
+      if (rsi === null) {
+        return { value: null, met: false };
+      }
+      const met = alert.direction === "above" ? rsi >= threshold : rsi <= threshold;
+      return { value: rsi, met, message: `${alert.symbol} RSI is ${rsi.toFixed(1)}, ${alert.direction} ${threshold}` };
+    }
+    case "forecast_deviation": {
+      const [{ price, currency }, prediction] = await Promise.all([data.getQuote(), forecastForToday(alert.symbol)]);
+      if (prediction === null || prediction <= 0) {
+        return { value: null, met: false };
+      }
+      const deviation = (price / prediction - 1) * 100;
+      return {
+        value: deviation,
+        met: Math.abs(deviation) >= threshold,
+        message: `${alert.symbol} at ${formatPrice(price, currency)} is ${signedPercent(deviation)} off its forecast of ${formatPrice(prediction, currency)}`,
+      };
+    }
+    case "sentiment_flip": {
+      const sentiment = summarizeSentiment(await data.getNews());
+      // Neutral news neither flips the reading nor resets it
+      if (!sentiment || sentiment.label === "neutral") {
+        return { value: sentiment?.score ?? null, met: false };
+      }
+      return {
+        value: sentiment.score,
+        met: alert.lastSentiment !== null && alert.lastSentiment !== sentiment.label,
+        message: `${alert.symbol} news sentiment turned ${sentiment.label} (${sentiment.articles} recent article${sentiment.articles === 1 ? "" : "s"})`,
+        sentiment: sentiment.label,
+      };
+    }
+  }
+}
+
+async function check(alert: Alert, data: SymbolData): Promise<boolean> {
+  const reading = await read(alert, data);
+  const now = new Date();
+  // A sentiment flip is an event in itself; the other conditions fire on becoming true
+  const fires = reading.met && (alert.type === "sentiment_flip" || !alert.conditionMet);
+  const state: AlertState = {
+    conditionMet: reading.met,
+    lastValue: reading.value !== null ? String(reading.value) : alert.lastValue,
+    lastCheckedAt: now,
+  };
+  if (reading.sentiment) {
+    state.lastSentiment = reading.sentiment;
+  }
+
+  if (fires) {
+    await storage.addAlertEvent({
+      alertId: alert.id,
+      userId: alert.userId,
+      symbol: alert.symbol,
+      type: alert.type,
+      message: reading.message ?? alert.symbol,
+      value: reading.value !== null ? String(reading.value) : null,
+      triggeredAt: now,
+    });
+    state.lastTriggeredAt = now;
+  }
+  await storage.saveAlertState(alert.id, state);
+  return fires;
+}
+
+// Checks every active alert once; returns how many fired
+export async function evaluateAlerts(): Promise<number> {
+  const active = await storage.getActiveAlerts();
+
+  const bySymbol = new Map<string, Alert[]>();
+  for (const alert of active) {
+    bySymbol.set(alert.symbol, [...(bySymbol.get(alert.symbol) ?? []), alert]);
+  }
+
+  let fired = 0;
+  for (const [symbol, alerts] of Array.from(bySymbol.entries())) {
+    const data = new SymbolData(symbol);
+    for (const alert of alerts) {
+      try {
+        if (await check(alert, data)) {
+          fired++;
+        }
+      } catch (error) {
+        log(`${symbol}: checking alert ${alert.id} failed: ${(error as Error).message}`, "alerts");
+      }
+    }
+  }
+  return fired;
+}
+
+// The next check is scheduled once the previous one has finished, so a slow check never
+// overlaps the next and fires an alert twice
+export function startAlertScheduler() {
+  const run = () => runWithPriority("background", evaluateAlerts)
+    .then(fired => fired > 0 && log(`${fired} alerts fired`, "alerts"))
+    .catch(error => log(`checking alerts failed: ${error.message}`, "alerts"))
+    .finally(() => setTimeout(run, CHECK_INTERVAL_MS));
+  run();
+}
@@ -0,0 +1,174 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { insertUserSchema, type PublicUser, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { log } from "./vite";
+
+// Username and password accounts with cookie sessions. Sessions live in Postgres next to
+// the rest of the data, or in memory when the app runs on MemStorage. Every /api route
+// registered after setupAuth needs a session; handlers read the account from req.user.
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const toPublicUser = ({ id, username }: User | PublicUser): PublicUser => ({ id, username });
+
+function sessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  log("SESSION_SECRET is not set; using a random secret, so sessions end on restart", "auth");
+  return randomBytes(32).toString("hex");
+}
+
+// The signed-in account's id; only for handlers behind requireAuth
+export function currentUserId(req: Request): number {
+  return req.user!.id;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not signed in" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  if (process.env.NODE_ENV === "production") {
+    app.set("trust proxy", 1);
+  }
+  app.use(session({
+    store: sessionStore(),
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account ends its sessions
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/signup", async (req, res, next) => {
+    try {
+      const parsed = insertUserSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const created = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      if (!created) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+
+      const user = toPublicUser(created);
+      req.login(user, error => error ? next(error) : res.status(201).json(user));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to sign up" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: PublicUser | false) => {
+      if (error) {
+        return res.status(500).json({ error: "Failed to sign in" });
+      }
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, loginError => loginError ? next(loginError) : res.json(user));
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout(error => {
+      if (error) {
+        return next(error);
+      }
+      req.session.destroy(() => res.json({ success: true }));
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+
+  app.use("/api", requireAuth);
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitBreaker } from "./circuitBreaker";
+
+const COOLDOWN_MS = 30_000;
+
+// A breaker that opens after three failures in a row
+function openBreaker() {
+  const breaker = new CircuitBreaker(3, COOLDOWN_MS);
+  for (let i = 0; i < 3; i++) {
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure("503 Service Unavailable");
+  }
+  return breaker;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2024-06-03T12:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("CircuitBreaker", () => {
+  it("stays closed below the failure threshold", () => {
+    const breaker = new CircuitBreaker(3, COOLDOWN_MS);
+    breaker.recordFailure("timeout");
+    breaker.recordFailure("timeout");
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.status()).toMatchObject({ circuit: "closed", consecutiveFailures: 2, lastError: "timeout" });
+  });
+
+  it("counts only consecutive failures", () => {
+    const breaker = new CircuitBreaker(3, COOLDOWN_MS);
+    breaker.recordFailure("timeout");
+    breaker.recordFailure("timeout");
+    breaker.recordSuccess();
+    breaker.recordFailure("timeout");
+
+    expect(breaker.status()).toMatchObject({ circuit: "closed", consecutiveFailures: 1 });
+  });
+
+  it("opens at the threshold and refuses calls until the cooldown has passed", () => {
+    const breaker = openBreaker();
+
+    expect(breaker.status()).toEqual({
+      circuit: "open",
+      consecutiveFailures: 3,
+      lastError: "503 Service Unavailable",
+      retryAt: "2024-06-03T12:00:30.000Z",
+    });
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(COOLDOWN_MS - 1);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it("lets a single trial call through once half-open", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+
+    expect(breaker.status().circuit).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it("closes when the trial call succeeds", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.status()).toEqual({ circuit: "closed", consecutiveFailures: 0, lastError: null, retryAt: null });
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it("opens for another cooldown when the trial call fails", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    breaker.tryAcquire();
+    breaker.recordFailure("still down");
+
+    expect(breaker.status()).toMatchObject({ circuit: "open", retryAt: "2024-06-03T12:01:00.000Z" });
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it("gives a released trial to the next caller", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    breaker.tryAcquire();
+    breaker.release();
+
+    expect(breaker.status().circuit).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
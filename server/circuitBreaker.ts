@@ -0,0 +1,75 @@
+import { upstreamServices, type UpstreamService } from "./rateLimiter";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+const FAILURE_THRESHOLD = Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 5;
+const COOLDOWN_MS = (Number(process.env.CIRCUIT_COOLDOWN_SECONDS) || 30) * 1000;
+
+// Stops calling a service after repeated failures. After the cooldown a single
+// trial call is let through (half-open): success closes the circuit, failure
+// opens it for another cooldown.
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(private threshold = FAILURE_THRESHOLD, private cooldownMs = COOLDOWN_MS) {}
+
+  // Whether a call may go ahead now; callers must report its outcome
+  tryAcquire(): boolean {
+    this.advance();
+    if (this.state === "closed") {
+      return true;
+    }
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess() {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.lastError = null;
+  }
+
+  // Gives back a half-open trial whose call never reached the service
+  release() {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(message: string) {
+    this.consecutiveFailures++;
+    this.lastError = message;
+    this.trialInFlight = false;
+    if (this.state === "half-open" || this.consecutiveFailures >= this.threshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  status() {
+    this.advance();
+    return {
+      circuit: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      retryAt: this.state === "open" ? new Date(this.openedAt + this.cooldownMs).toISOString() : null,
+    };
+  }
+
+  // An open circuit becomes half-open once its cooldown has passed
+  private advance() {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = "half-open";
+    }
+  }
+}
+
+export const breakers = Object.fromEntries(
+  upstreamServices.map(service => [service, new CircuitBreaker()])
+) as Record<UpstreamService, CircuitBreaker>;
@@ -0,0 +1,138 @@
+import fs from "fs";
+import type { Candle, CandleResolution, NewsArticle } from "@shared/schema";
+import type { Fundamentals, MarketDataProvider, Profile, ProviderQuote } from "./marketProviders";
+
+interface FixtureInstrument extends Profile, ProviderQuote, Fundamentals {
+  exchange: string;
+  volatility?: number; // daily standard deviation of log returns
+  news?: NewsArticle[];
+}
+
+interface MarketFixtures {
+  instruments: Record<string, FixtureInstrument>;
+  usdRates: Record<string, number>; // units of each currency per USD
+}
+
+const RESOLUTION_SECONDS: Record<CandleResolution, number> = {
+  "1": 60,
+  "5": 300,
+  "15": 900,
+  "30": 1800,
+  "60": 3600,
+  D: 86400,
+  W: 7 * 86400,
+  M: 30 * 86400,
+};
+
+// FNV-1a, so each symbol gets a stable seed
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 step: a uniform number in [0, 1) that depends only on the seed
+function uniform(seed: number): number {
+  let t = (seed + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Standard normal draw for one period of one series, via Box-Muller
+function normal(seed: number, period: number): number {
+  const u1 = uniform(hashString(`${seed}:${period}:a`)) || Number.MIN_VALUE;
+  const u2 = uniform(hashString(`${seed}:${period}:b`));
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Serves market data from a JSON file so the dashboard runs offline. Candles are a
+// random walk seeded by symbol and period that ends at the fixture price, so the
+// same request always returns the same series and overlapping ranges agree.
+export function createFixtureProvider(path: string): MarketDataProvider {
+  const fixtures: MarketFixtures = JSON.parse(fs.readFileSync(path, "utf-8"));
+  const instrument = (symbol: string) => fixtures.instruments[symbol.toUpperCase()];
+
+  return {
+    name: "fixture",
+
+    async getQuote(symbol) {
+      const found = instrument(symbol);
+      return found ? { price: found.price, change: found.change, changePercent: found.changePercent } : null;
+    },
+
+    async getProfile(symbol) {
+      const found = instrument(symbol);
+      return found
+        ? { name: found.name, currency: found.currency, exchange: found.exchange, sector: found.sector, marketCap: found.marketCap }
+        : null;
+    },
+
+    async getFundamentals(symbol) {
+      const found = instrument(symbol);
+      return found ? { peRatio: found.peRatio, analysts: found.analysts, targetPrice: found.targetPrice } : null;
+    },
+
+    async getCandles(symbol, resolution, from, to) {
+      const found = instrument(symbol);
+      if (!found) {
+        return [];
+      }
+
+      const step = RESOLUTION_SECONDS[resolution];
+      const sigma = (found.volatility ?? 0.02) * Math.sqrt(step / 86400);
+      const seed = hashString(`${symbol.toUpperCase()}:${resolution}`);
+      const now = Math.floor(Date.now() / 1000 / step);
+      const first = Math.ceil(from.getTime() / 1000 / step);
+      const last = Math.min(Math.floor(to.getTime() / 1000 / step), now);
+
+      // Walk back from the current price; the close of period p is the price before
+      // the returns of every later period are applied
+      const candles: Candle[] = [];
+      let close = found.price;
+      for (let period = now; period >= first; period--) {
+        const ret = sigma * normal(seed, period);
+        const open = close / Math.exp(ret);
+        if (period <= last) {
+          const wick = Math.abs(sigma * normal(seed + 1, period)) / 2;
+          candles.push({
+            time: period * step,
+            open,
+            high: Math.max(open, close) * (1 + wick),
+            low: Math.min(open, close) * (1 - wick),
+            close,
+            volume: Math.round(1e6 * (1 + uniform(hashString(`${seed}:${period}:v`)))),
+          });
+        }
+        close = open;
+      }
+
+      return candles.reverse();
+    },
+
+    async search(query) {
+      const needle = query.toLowerCase();
+      return Object.entries(fixtures.instruments)
+        .filter(([symbol, found]) => symbol.toLowerCase().includes(needle) || found.name.toLowerCase().includes(needle))
+        .map(([symbol, found]) => ({ symbol, name: found.name, exchange: found.exchange, currency: found.currency }));
+    },
+
+    async getNews(symbol) {
+      return instrument(symbol)?.news ?? [];
+    },
+
+    async getFxRates(base) {
+      const baseRate = fixtures.usdRates[base];
+      if (!baseRate) {
+        return null;
+      }
+      const rates = Object.fromEntries(
+        Object.entries(fixtures.usdRates).map(([currency, rate]) => [currency, rate / baseRate])
+      );
+      return { base, rates };
+    },
+  };
+}
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { HistoricalCandle } from "@shared/schema";
+import { ENSEMBLE, forecastModels, logReturns, modelNames, stdev } from "./forecastModels";
+import { addTradingDays, evaluateModels, ForecastError, getForecast, normalCdf } from "./forecast";
+import { getHistory } from "./priceHistory";
+import { storage } from "./storage";
+
+vi.mock("./priceHistory", () => ({ getHistory: vi.fn() }));
+vi.mock("./storage", () => ({ storage: { saveForecasts: vi.fn() } }));
+
+const DAY_SECONDS = 86400;
+
+// mulberry32: the same seed always gives the same sequence
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A random walk of `count` closes starting at 100
+function seededCloses(seed: number, count: number): number[] {
+  const next = random(seed);
+  const closes = [100];
+  while (closes.length < count) {
+    closes.push(closes[closes.length - 1] * Math.exp((next() - 0.5) * 0.04));
+  }
+  return closes;
+}
+
+// Closes growing exactly 1% a day
+const steadyGrowth = (count: number) => Array.from({ length: count }, (_, i) => 100 * 1.01 ** i);
+
+const model = (name: string) => forecastModels.find(candidate => candidate.name === name)!;
+
+function toCandles(closes: number[]): HistoricalCandle[] {
+  const start = Date.parse("2024-01-01T00:00:00Z") / 1000;
+  return closes.map((close, i) => ({
+    time: start + i * DAY_SECONDS,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    adjustedClose: close,
+    volume: 1000,
+  }));
+}
+
+describe("forecast models", () => {
+  it("predict the same distributions from the same closes", () => {
+    for (const candidate of forecastModels) {
+      const first = candidate.fit(seededCloses(7, 300));
+      const second = candidate.fit(seededCloses(7, 300));
+
+      expect([1, 5, 21].map(first)).toEqual([1, 5, 21].map(second));
+    }
+  });
+
+  it("predict differently from a differently seeded history", () => {
+    const predict = model("gbm").fit(seededCloses(7, 300));
+    const other = model("gbm").fit(seededCloses(8, 300));
+
+    expect(predict(5)).not.toEqual(other(5));
+  });
+
+  it("keep the naive forecast at the last price, with volatility growing with the square root of time", () => {
+    const closes = seededCloses(7, 300);
+    const predict = model("naive").fit(closes);
+    const volatility = stdev(logReturns(closes));
+
+    expect(predict(1)).toEqual({ mean: 0, spread: volatility });
+    expect(predict(4).spread).toBeCloseTo(2 * volatility);
+  });
+
+  it.each(["gbm", "ma-drift", "exp-smoothing", "ar"])("extend steady growth with no spread (%s)", name => {
+    const predict = model(name).fit(steadyGrowth(60));
+
+    expect(predict(5).mean).toBeCloseTo(5 * Math.log(1.01), 10);
+    expect(predict(5).spread).toBeCloseTo(0, 10);
+  });
+});
+
+describe("evaluateModels", () => {
+  it("weights the models per horizon so the weights add up to one", () => {
+    const evaluation = evaluateModels(seededCloses(7, 300));
+
+    expect(evaluation.map(entry => entry.model)).toEqual(forecastModels.map(candidate => candidate.name));
+    for (const horizon of ["1d", "1w", "1m"] as const) {
+      expect(evaluation.reduce((sum, entry) => sum + entry.weight[horizon], 0)).toBeCloseTo(1);
+      expect(evaluation.every(entry => entry.rmse[horizon]! > 0)).toBe(true);
+    }
+  });
+
+  it("weights a model up for a lower walk-forward error", () => {
+    // A strong trend under small noise: the drift models see it, the naive one does not
+    const next = random(3);
+    const trending = steadyGrowth(300).map(close => close * Math.exp((next() - 0.5) * 0.002));
+    const weights = Object.fromEntries(evaluateModels(trending).map(entry => [entry.model, entry]));
+
+    expect(weights.gbm.rmse["1m"]!).toBeLessThan(weights.naive.rmse["1m"]!);
+    expect(weights.gbm.weight["1m"]).toBeGreaterThan(weights.naive.weight["1m"]);
+  });
+
+  it("weights the models equally while the history is too short to score them", () => {
+    const evaluation = evaluateModels(seededCloses(7, 22));
+
+    expect(evaluation.every(entry => entry.rmse["1m"] === null)).toBe(true);
+    expect(evaluation.map(entry => entry.weight["1m"])).toEqual(forecastModels.map(() => 1 / forecastModels.length));
+  });
+});
+
+describe("normalCdf", () => {
+  it("matches the standard normal table", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1)).toBeCloseTo(0.841345, 6);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.024998, 6);
+  });
+});
+
+describe("addTradingDays", () => {
+  it("skips weekends", () => {
+    expect(addTradingDays("2024-06-07", 1)).toBe("2024-06-10");
+    expect(addTradingDays("2024-06-05", 5)).toBe("2024-06-12");
+    expect(addTradingDays("2024-06-08", 21)).toBe("2024-07-08");
+  });
+});
+
+describe("getForecast", () => {
+  beforeEach(() => {
+    vi.mocked(getHistory).mockResolvedValue(toCandles(seededCloses(42, 400)));
+    vi.mocked(storage.saveForecasts).mockClear();
+  });
+
+  it("gives the same forecast for the same history", async () => {
+    const first = await getForecast("aapl");
+    const second = await getForecast("AAPL");
+
+    expect(second).toEqual(first);
+    expect(first.symbol).toBe("AAPL");
+    expect(first.points.map(point => point.period)).toEqual(["1d", "1w", "1m"]);
+  });
+
+  it("orders the quantiles of every horizon", async () => {
+    const { points } = await getForecast("AAPL");
+
+    for (const { quantiles } of points) {
+      expect(quantiles.p10).toBeLessThan(quantiles.p25);
+      expect(quantiles.p25).toBeLessThan(quantiles.p50);
+      expect(quantiles.p50).toBeLessThan(quantiles.p75);
+      expect(quantiles.p75).toBeLessThan(quantiles.p90);
+    }
+  });
+
+  it("starts at a given price but stores forecasts from the last close", async () => {
+    const last = seededCloses(42, 400).pop()!;
+    const fromClose = await getForecast("AAPL");
+    const fromPrice = await getForecast("AAPL", last * 2);
+
+    expect(fromPrice.points[0].prediction).toBeCloseTo(fromClose.points[0].prediction * 2);
+    const saved = vi.mocked(storage.saveForecasts).mock.calls.map(([records]) => records);
+    expect(saved[1]).toEqual(saved[0]);
+    expect(saved[1].every(record => Number(record.startPrice) === last)).toBe(true);
+  });
+
+  it("reports the model behind the points and stores every model's forecast", async () => {
+    const gbm = await getForecast("AAPL", undefined, "gbm");
+
+    expect(gbm.model).toBe("gbm");
+    expect(gbm.points.every(point => point.model === "gbm")).toBe(true);
+    const [records] = vi.mocked(storage.saveForecasts).mock.calls[0];
+    expect(new Set(records.map(record => record.model))).toEqual(new Set(modelNames));
+    expect(records).toHaveLength(modelNames.length * 3);
+  });
+
+  it("blends the models into an ensemble between their predictions", async () => {
+    const ensemble = await getForecast("AAPL");
+    const single = await Promise.all(forecastModels.map(candidate => getForecast("AAPL", undefined, candidate.name)));
+
+    expect(ensemble.model).toBe(ENSEMBLE);
+    ensemble.points.forEach((point, h) => {
+      const predictions = single.map(forecast => forecast.points[h].prediction);
+      expect(point.prediction).toBeGreaterThanOrEqual(Math.min(...predictions));
+      expect(point.prediction).toBeLessThanOrEqual(Math.max(...predictions));
+      expect(point.reasoning).toMatch(/^Blend of .*, weighted by walk-forward accuracy\./);
+    });
+  });
+
+  it("rejects an unknown model and a history too short to fit", async () => {
+    await expect(getForecast("AAPL", undefined, "crystal-ball")).rejects.toBeInstanceOf(ForecastError);
+
+    vi.mocked(getHistory).mockResolvedValue(toCandles(seededCloses(42, 10)));
+    await expect(getForecast("AAPL")).rejects.toThrow("Need at least 21 daily closes");
+  });
+});
@@ -0,0 +1,245 @@
+import type {
+  Forecast, ForecastHorizon, ForecastPoint, ForecastQuantiles, InsertForecastRecord, ModelEvaluation
+} from "@shared/schema";
+import { getHistory } from "./priceHistory";
+import { storage } from "./storage";
+import { ENSEMBLE, forecastModels, logReturns, mean, modelNames, stdev, type ReturnDistribution } from "./forecastModels";
+
+// Price forecasts from the models in forecastModels.ts, fitted to the last
+// FORECAST_LOOKBACK_DAYS of stored history. Each model is also scored by walk-forward
+// validation (refitted at past days and compared with what followed), and the ensemble
+// blends them, weighting each by the inverse of its squared error for that symbol and
+// horizon. Nothing is sampled, so the same history and start price always give the
+// same forecast. Every model's forecast is stored so forecastAccuracy.ts can score it
+// once its target day has passed.
+
+const LOOKBACK_DAYS = Number(process.env.FORECAST_LOOKBACK_DAYS) || 252;
+const MIN_OBSERVATIONS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Walk-forward validation refits at up to this many past days per horizon, this many trading days apart
+const EVALUATION_ORIGINS = 20;
+const EVALUATION_STEP = 5;
+
+// Trading days in each horizon
+export const HORIZONS: { period: ForecastHorizon; label: string; days: number }[] = [
+  { period: "1d", label: "1 Day", days: 1 },
+  { period: "1w", label: "1 Week", days: 5 },
+  { period: "1m", label: "1 Month", days: 21 },
+];
+
+// Standard normal quantiles of the reported bands
+const QUANTILE_Z: Record<keyof ForecastQuantiles, number> = {
+  p10: -1.2815515655,
+  p25: -0.6744897502,
+  p50: 0,
+  p75: 0.6744897502,
+  p90: 1.2815515655,
+};
+
+// Below this probability of ending higher or lower the trend is called neutral
+const TREND_PROBABILITY = 0.55;
+
+export class ForecastError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ForecastError";
+  }
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Refits every model at past days and measures how far its predicted log return was off
+export function evaluateModels(closes: number[]): ModelEvaluation[] {
+  const errors = forecastModels.map(() => HORIZONS.map(() => [] as number[]));
+  const full = () => errors[0].every(samples => samples.length >= EVALUATION_ORIGINS);
+
+  for (let origin = closes.length - 2; origin >= MIN_OBSERVATIONS && !full(); origin -= EVALUATION_STEP) {
+    const window = closes.slice(Math.max(0, origin - LOOKBACK_DAYS), origin + 1);
+    forecastModels.forEach((model, m) => {
+      const predict = model.fit(window);
+      HORIZONS.forEach(({ days }, h) => {
+        if (origin + days < closes.length && errors[m][h].length < EVALUATION_ORIGINS) {
+          errors[m][h].push(predict(days).mean - Math.log(closes[origin + days] / closes[origin]));
+        }
+      });
+    });
+  }
+
+  const rmse = errors.map(model => model.map(samples =>
+    samples.length > 0 ? Math.sqrt(mean(samples.map(error => error ** 2))) : null
+  ));
+
+  // Inverse squared error, normalized per horizon; equal weights until every model has been scored
+  const weights = HORIZONS.map((_, h) => {
+    const scores = rmse.map(model => model[h]);
+    if (scores.some(score => !score)) {
+      return forecastModels.map(() => 1 / forecastModels.length);
+    }
+    const inverse = scores.map(score => 1 / score! ** 2);
+    const total = inverse.reduce((sum, value) => sum + value, 0);
+    return inverse.map(value => value / total);
+  });
+
+  return forecastModels.map((model, m) => ({
+    model: model.name,
+    rmse: Object.fromEntries(HORIZONS.map(({ period }, h) => [period, rmse[m][h]])) as Record<ForecastHorizon, number | null>,
+    weight: Object.fromEntries(HORIZONS.map(({ period }, h) => [period, weights[h][m]])) as Record<ForecastHorizon, number>,
+  }));
+}
+
+// Normal with the mean and variance of a weighted mixture of the models' predictions
+function blend(parts: { weight: number; distribution: ReturnDistribution }[]): ReturnDistribution {
+  const average = parts.reduce((sum, { weight, distribution }) => sum + weight * distribution.mean, 0);
+  const secondMoment = parts.reduce(
+    (sum, { weight, distribution }) => sum + weight * (distribution.spread ** 2 + distribution.mean ** 2),
+    0
+  );
+  return { mean: average, spread: Math.sqrt(Math.max(0, secondMoment - average ** 2)) };
+}
+
+// Turns the predicted log-return distribution of each horizon into prices
+function project(
+  model: string,
+  price: number,
+  distributions: ReturnDistribution[],
+  describe: (period: ForecastHorizon) => string
+): ForecastPoint[] {
+  return HORIZONS.map(({ period, label, days }, h) => {
+    const { mean, spread } = distributions[h];
+    // ln(S_h / S_0) ~ N(mean, spread²), so the quantile at z is S_0·e^(mean + z·spread)
+    const quantiles = Object.fromEntries(Object.entries(QUANTILE_Z).map(([key, z]) => [
+      key,
+      price * Math.exp(mean + z * spread),
+    ])) as unknown as ForecastQuantiles;
+    const prediction = quantiles.p50;
+    const probabilityUp = spread > 0 ? normalCdf(mean / spread) : mean >= 0 ? 1 : 0;
+
+    const trend = probabilityUp >= TREND_PROBABILITY ? "up" : probabilityUp <= 1 - TREND_PROBABILITY ? "down" : "neutral";
+    const confidence = 100 * (trend === "down" ? 1 - probabilityUp : trend === "up" ? probabilityUp : Math.max(probabilityUp, 1 - probabilityUp));
+    const side = trend === "down" || (trend === "neutral" && probabilityUp < 0.5) ? "below" : "above";
+
+    return {
+      model,
+      period,
+      label,
+      prediction,
+      quantiles,
+      confidence,
+      trend,
+      reasoning: `${describe(period)}. ` +
+        `${confidence.toFixed(0)}% chance of ending ${side} today's price after ${days} trading day${days === 1 ? "" : "s"}, ` +
+        `80% chance of ending between ${quantiles.p10.toFixed(2)} and ${quantiles.p90.toFixed(2)}.`,
+    };
+  });
+}
+
+// The day `days` trading days after `date` (YYYY-MM-DD), counting weekdays; exchange holidays are not known
+export function addTradingDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  while (days > 0) {
+    day.setUTCDate(day.getUTCDate() + 1);
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) {
+      days--;
+    }
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+function toRecords(symbol: string, asOf: string, price: number, points: ForecastPoint[]): InsertForecastRecord[] {
+  return points.map(point => ({
+    symbol,
+    model: point.model,
+    horizon: point.period,
+    asOf,
+    targetDate: addTradingDays(asOf, HORIZONS.find(h => h.period === point.period)!.days),
+    startPrice: String(price),
+    prediction: String(point.prediction),
+    p10: String(point.quantiles.p10),
+    p25: String(point.quantiles.p25),
+    p75: String(point.quantiles.p75),
+    p90: String(point.quantiles.p90),
+  }));
+}
+
+// Forecast from the stored history by one model, the ensemble by default; starts at
+// `price` if given, else at the last close. Every model's forecast from the last close
+// is stored either way; a caller's price is untrusted and never reaches the records.
+export async function getForecast(symbol: string, price?: number, model: string = ENSEMBLE): Promise<Forecast> {
+  if (!modelNames.includes(model)) {
+    throw new ForecastError(`Unknown forecast model "${model}", expected one of ${modelNames.join(", ")}`);
+  }
+
+  symbol = symbol.toUpperCase();
+  const to = new Date();
+  // Calendar days enough to cover the lookback and the walk-forward origins in trading days
+  const tradingDays = LOOKBACK_DAYS + EVALUATION_ORIGINS * EVALUATION_STEP + HORIZONS[HORIZONS.length - 1].days;
+  const from = new Date(to.getTime() - Math.ceil(tradingDays * 1.5) * DAY_MS);
+  const history = await getHistory(symbol, from, to);
+  const closes = history.map(bar => bar.adjustedClose);
+
+  if (closes.length < MIN_OBSERVATIONS + 1) {
+    throw new ForecastError(`Need at least ${MIN_OBSERVATIONS + 1} daily closes to forecast, have ${closes.length}`);
+  }
+
+  const window = closes.slice(-(LOOKBACK_DAYS + 1));
+  const returns = logReturns(window);
+  const last = history[history.length - 1];
+  const start = price ?? last.close;
+  const asOf = new Date(last.time * 1000).toISOString().slice(0, 10);
+  const evaluation = evaluateModels(closes);
+
+  const fitted = forecastModels.map(candidate => {
+    const predict = candidate.fit(window);
+    return { candidate, distributions: HORIZONS.map(({ days }) => predict(days)) };
+  });
+
+  // Every model's points, and the ensemble's, from one starting price
+  const projectAll = (from: number) => {
+    const points = new Map<string, ForecastPoint[]>();
+    fitted.forEach(({ candidate, distributions }) => {
+      points.set(candidate.name, project(candidate.name, from, distributions, () =>
+        `${candidate.description}, fitted to ${returns.length} daily returns`
+      ));
+    });
+    points.set(ENSEMBLE, project(
+      ENSEMBLE,
+      from,
+      HORIZONS.map(({ period }, h) => blend(fitted.map(({ distributions }, m) => ({
+        weight: evaluation[m].weight[period],
+        distribution: distributions[h],
+      })))),
+      period => "Blend of " + evaluation
+        .map(({ model: name, weight }) => ({ name, weight: weight[period] }))
+        .sort((a, b) => b.weight - a.weight)
+        .map(({ name, weight }) => `${name} ${(weight * 100).toFixed(0)}%`)
+        .join(", ") + ", weighted by walk-forward accuracy"
+    ));
+    return points;
+  };
+
+  const points = projectAll(start);
+  const recorded = start === last.close ? points : projectAll(last.close);
+  await storage.saveForecasts(
+    Array.from(recorded.values()).flatMap(modelPoints => toRecords(symbol, asOf, last.close, modelPoints))
+  );
+
+  return {
+    symbol,
+    model,
+    price: start,
+    asOf,
+    observations: returns.length,
+    drift: mean(returns),
+    volatility: stdev(returns),
+    points: points.get(model)!,
+    evaluation,
+  };
+}
@@ -0,0 +1,121 @@
+import { forecastHorizons, type ForecastAccuracy, type ForecastAccuracyReport, type ForecastRecord } from "@shared/schema";
+import { storage, type ForecastRecordFilter } from "./storage";
+import { closeInTermsOf, getHistory } from "./priceHistory";
+import { runWithPriority } from "./rateLimiter";
+import { log } from "./vite";
+
+// Backtesting of stored forecasts. A forecast is scored with the close of its target
+// day (or the next day with a bar, if the target was a holiday) once that day is over.
+// That close is taken in the share terms of the forecast's as-of day, the prices it was
+// projected from, so a split or dividend inside the horizon does not count as a miss.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCORING_INTERVAL_MS = 60 * 60 * 1000;
+const BASE_LOOKBACK_DAYS = 7; // enough to reach the last bar before a weekend or holiday
+
+const toDate = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+
+// Fills in the actual close of every forecast whose target day has passed
+export async function scoreForecasts(): Promise<number> {
+  const today = new Date().toISOString().slice(0, 10);
+  const due = (await storage.getForecastRecords({ scored: false })).filter(record => record.targetDate < today);
+
+  const bySymbol = new Map<string, ForecastRecord[]>();
+  for (const record of due) {
+    bySymbol.set(record.symbol, [...(bySymbol.get(record.symbol) ?? []), record]);
+  }
+
+  let scored = 0;
+  for (const [symbol, records] of Array.from(bySymbol.entries())) {
+    try {
+      const earliest = records.map(record => record.asOf).sort()[0];
+      const from = new Date(Date.parse(`${earliest}T00:00:00Z`) - BASE_LOOKBACK_DAYS * DAY_MS);
+      // Today's bar may still move, so only finished days count
+      const bars = (await getHistory(symbol, from, new Date())).filter(bar => toDate(bar.time) < today);
+
+      for (const record of records) {
+        const base = bars.filter(bar => toDate(bar.time) <= record.asOf).pop();
+        const bar = bars.find(bar => toDate(bar.time) >= record.targetDate);
+        if (base && bar) {
+          await storage.scoreForecast(record.id, String(closeInTermsOf(bar, base)));
+          scored++;
+        }
+      }
+    } catch (error) {
+      log(`${symbol}: scoring forecasts failed: ${(error as Error).message}`, "forecast");
+    }
+  }
+  return scored;
+}
+
+function summarize(symbol: string | null, records: ForecastRecord[]): ForecastAccuracy {
+  let absoluteError = 0;
+  let percentageError = 0;
+  let hits = 0;
+  let inside50 = 0;
+  let inside80 = 0;
+
+  for (const record of records) {
+    const actual = Number(record.actual);
+    const start = Number(record.startPrice);
+    const prediction = Number(record.prediction);
+
+    absoluteError += Math.abs(prediction - actual);
+    percentageError += Math.abs(prediction - actual) / actual;
+    if (Math.sign(prediction - start) === Math.sign(actual - start)) hits++;
+    if (actual >= Number(record.p25) && actual <= Number(record.p75)) inside50++;
+    if (actual >= Number(record.p10) && actual <= Number(record.p90)) inside80++;
+  }
+
+  const count = records.length;
+  return {
+    symbol,
+    model: records[0].model,
+    horizon: records[0].horizon,
+    count,
+    mae: absoluteError / count,
+    mape: (percentageError / count) * 100,
+    hitRate: hits / count,
+    coverage50: inside50 / count,
+    coverage80: inside80 / count,
+  };
+}
+
+function groupBy(records: ForecastRecord[], key: (record: ForecastRecord) => string): ForecastRecord[][] {
+  const groups = new Map<string, ForecastRecord[]>();
+  for (const record of records) {
+    groups.set(key(record), [...(groups.get(key(record)) ?? []), record]);
+  }
+  return Array.from(groups.values());
+}
+
+// Scores whatever has come due, then reports MAE, MAPE, hit rate and interval coverage
+export async function getForecastAccuracy(filter: Omit<ForecastRecordFilter, "scored">): Promise<ForecastAccuracyReport> {
+  await scoreForecasts();
+  const [scored, pending] = await Promise.all([
+    storage.getForecastRecords({ ...filter, scored: true }),
+    storage.getForecastRecords({ ...filter, scored: false }),
+  ]);
+
+  const order = (a: ForecastAccuracy, b: ForecastAccuracy) =>
+    (a.symbol ?? "").localeCompare(b.symbol ?? "") || a.model.localeCompare(b.model) ||
+    forecastHorizons.indexOf(a.horizon) - forecastHorizons.indexOf(b.horizon);
+
+  return {
+    bySymbol: groupBy(scored, record => `${record.symbol}:${record.model}:${record.horizon}`)
+      .map(records => summarize(records[0].symbol, records))
+      .sort(order),
+    byModel: groupBy(scored, record => `${record.model}:${record.horizon}`)
+      .map(records => summarize(null, records))
+      .sort(order),
+    pending: pending.length,
+  };
+}
+
+export function startForecastScoring() {
+  const run = () => runWithPriority("background", scoreForecasts)
+    .then(scored => scored > 0 && log(`${scored} forecasts scored`, "forecast"))
+    .catch(error => log(`scoring forecasts failed: ${error.message}`, "forecast"));
+  run();
+  setInterval(run, SCORING_INTERVAL_MS);
+}
@@ -0,0 +1,153 @@
+// Forecasting models. Each one is fitted to daily closes (oldest first) and predicts
+// the log return ln(S_t+h / S_t) `h` trading days ahead as a normal distribution, so
+// every model yields a median, quantile bands and a probability of moving up.
+
+export interface ReturnDistribution {
+  mean: number;
+  spread: number; // standard deviation
+}
+
+export interface ForecastModel {
+  readonly name: string;
+  readonly description: string;
+  fit(closes: number[]): (days: number) => ReturnDistribution;
+}
+
+export function logReturns(closes: number[]): number[] {
+  return closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function stdev(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / Math.max(1, values.length - 1));
+}
+
+// Tomorrow is today plus noise; the spread is the historical volatility
+const naive: ForecastModel = {
+  name: "naive",
+  description: "Last price with historical volatility",
+  fit(closes) {
+    const volatility = stdev(logReturns(closes));
+    return days => ({ mean: 0, spread: volatility * Math.sqrt(days) });
+  },
+};
+
+// Geometric Brownian motion: constant drift and volatility of daily log returns
+const gbm: ForecastModel = {
+  name: "gbm",
+  description: "Random walk with the average daily drift",
+  fit(closes) {
+    const returns = logReturns(closes);
+    const drift = mean(returns);
+    const volatility = stdev(returns);
+    return days => ({ mean: drift * days, spread: volatility * Math.sqrt(days) });
+  },
+};
+
+const MA_WINDOW = 20;
+const MA_SLOPE_DAYS = 5;
+
+// Drift from the recent slope of the 20-day moving average of log prices
+const maDrift: ForecastModel = {
+  name: "ma-drift",
+  description: `Drift of the ${MA_WINDOW}-day moving average`,
+  fit(closes) {
+    const logs = closes.map(Math.log);
+    const average = (end: number) => mean(logs.slice(Math.max(0, end - MA_WINDOW), end));
+    const slope = logs.length > MA_SLOPE_DAYS
+      ? (average(logs.length) - average(logs.length - MA_SLOPE_DAYS)) / MA_SLOPE_DAYS
+      : 0;
+    const volatility = stdev(logReturns(closes));
+    return days => ({ mean: slope * days, spread: volatility * Math.sqrt(days) });
+  },
+};
+
+const SMOOTHING_LEVEL = 0.3;
+const SMOOTHING_TREND = 0.1;
+
+// Holt's linear exponential smoothing of log prices; the spread comes from its one-step errors
+const expSmoothing: ForecastModel = {
+  name: "exp-smoothing",
+  description: "Exponentially smoothed level and trend",
+  fit(closes) {
+    const logs = closes.map(Math.log);
+    let level = logs[0];
+    let trend = logs.length > 1 ? logs[1] - logs[0] : 0;
+    const errors: number[] = [];
+
+    for (const value of logs.slice(1)) {
+      errors.push(value - (level + trend));
+      const previousLevel = level;
+      level = SMOOTHING_LEVEL * value + (1 - SMOOTHING_LEVEL) * (level + trend);
+      trend = SMOOTHING_TREND * (level - previousLevel) + (1 - SMOOTHING_TREND) * trend;
+    }
+
+    const last = logs[logs.length - 1];
+    const volatility = stdev(errors);
+    return days => ({ mean: level + days * trend - last, spread: volatility * Math.sqrt(days) });
+  },
+};
+
+const AR_ORDER = 3;
+
+// Autoregression coefficients from autocovariances (Yule-Walker, Levinson-Durbin recursion)
+function yuleWalker(autocovariance: number[], order: number): { coefficients: number[]; variance: number } {
+  let coefficients: number[] = [];
+  let variance = autocovariance[0];
+  for (let k = 1; k <= order && variance > 0; k++) {
+    const reflection = (autocovariance[k] - coefficients.reduce((sum, phi, i) => sum + phi * autocovariance[k - 1 - i], 0)) / variance;
+    coefficients = [...coefficients.map((phi, i) => phi - reflection * coefficients[k - 2 - i]), reflection];
+    variance *= 1 - reflection ** 2;
+  }
+  return { coefficients, variance };
+}
+
+// AR(3) on daily log returns, the autoregressive part of an ARIMA(3,1,0) on log prices
+const ar: ForecastModel = {
+  name: "ar",
+  description: `AR(${AR_ORDER}) model of daily returns`,
+  fit(closes) {
+    const returns = logReturns(closes);
+    const average = mean(returns);
+    const centered = returns.map(r => r - average);
+    const autocovariance = Array.from({ length: AR_ORDER + 1 }, (_, lag) =>
+      centered.slice(lag).reduce((sum, value, i) => sum + value * centered[i], 0) / centered.length
+    );
+    const { coefficients, variance } = yuleWalker(autocovariance, AR_ORDER);
+
+    return days => {
+      // Expected returns of the coming days, each built on the ones before
+      const recent = centered.slice(-AR_ORDER);
+      let expected = 0;
+      for (let day = 0; day < days; day++) {
+        const next = coefficients.reduce((sum, phi, i) => sum + phi * (recent[recent.length - 1 - i] ?? 0), 0);
+        recent.push(next);
+        expected += next + average;
+      }
+
+      // Variance of the summed returns from the model's impulse response
+      const psi = [1];
+      for (let j = 1; j < days; j++) {
+        psi.push(coefficients.reduce((sum, phi, i) => sum + phi * (psi[j - 1 - i] ?? 0), 0));
+      }
+      let cumulative = 0;
+      let sumOfSquares = 0;
+      for (const weight of psi) {
+        cumulative += weight;
+        sumOfSquares += cumulative ** 2;
+      }
+      return { mean: expected, spread: Math.sqrt(Math.max(0, variance) * sumOfSquares) };
+    };
+  },
+};
+
+export const forecastModels: ForecastModel[] = [naive, gbm, maDrift, expSmoothing, ar];
+
+// Name of the weighted blend of all models that forecast.ts builds per symbol
+export const ENSEMBLE = "ensemble";
+
+export const modelNames = [...forecastModels.map(model => model.name), ENSEMBLE];
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+import type { HistoricalCandle } from "@shared/schema";
+import { atr, bollinger, ema, getIndicators, macd, rsi, sma, vwap } from "./indicators";
+import { getHistory } from "./priceHistory";
+
+vi.mock("./priceHistory", () => ({ getHistory: vi.fn() }));
+
+const DAY_SECONDS = 86400;
+
+// Wilder's 14-day RSI worked example as published by StockCharts, with its RSI from the 15th close on.
+// The sheet rounds the average gain and loss to two decimals, so it is a few hundredths off the exact values.
+const WILDER_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+const WILDER_RSI = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87,
+  45.46, 37.30, 33.08, 37.77,
+];
+
+const linear = (count: number) => Array.from({ length: count }, (_, i) => 100 + i);
+
+function candle(time: number, close: number, fields: Partial<HistoricalCandle> = {}): HistoricalCandle {
+  return { time, open: close, high: close + 1, low: close - 1, close, adjustedClose: close, volume: 100, ...fields };
+}
+
+describe("moving averages", () => {
+  it("averages the last `period` values once there are enough", () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it("seeds the EMA with the simple average and skips leading nulls", () => {
+    expect(ema([1, 2, 3, 4], 3)).toEqual([null, null, 2, 3]);
+    const skipped = ema([null, 2, 4, 6, 12], 2);
+    expect(skipped.slice(0, 4)).toEqual([null, null, 3, 5]);
+    expect(skipped[4]).toBeCloseTo(29 / 3);
+  });
+});
+
+describe("rsi", () => {
+  it("matches Wilder's worked example", () => {
+    const values = rsi(WILDER_CLOSES, 14);
+
+    expect(values.slice(0, 14)).toEqual(new Array(14).fill(null));
+    values.slice(14).forEach((value, i) => expect(Math.abs(value! - WILDER_RSI[i])).toBeLessThan(0.1));
+  });
+
+  it("is 100 when the price has only risen", () => {
+    expect(rsi(linear(20), 14).pop()).toBe(100);
+  });
+});
+
+describe("macd", () => {
+  // Each EMA of a series rising by one a bar lags it by (period - 1) / 2
+  it("is the gap between the lags of the two averages on a steady trend", () => {
+    const { line, signal, histogram } = macd(linear(60), 12, 26, 9);
+
+    expect(line.findIndex(value => value !== null)).toBe(25);
+    expect(signal.findIndex(value => value !== null)).toBe(33);
+    expect(line[59]).toBeCloseTo(7, 10);
+    expect(signal[59]).toBeCloseTo(7, 10);
+    expect(histogram[59]).toBeCloseTo(0, 10);
+  });
+});
+
+describe("bollinger", () => {
+  it("puts the bands `width` population deviations around the average", () => {
+    const { upper, middle, lower } = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+
+    expect(middle[7]).toBe(5);
+    expect(upper[7]).toBe(9);
+    expect(lower[7]).toBe(1);
+  });
+});
+
+describe("atr and vwap", () => {
+  it("takes gaps from the previous close into the true range", () => {
+    const candles = [candle(0, 10), candle(1, 10), candle(2, 14, { high: 15, low: 13 })];
+
+    // The last bar's range is 2 but it gapped 5 above the previous close
+    expect(atr(candles, 2)).toEqual([null, null, 3.5]);
+  });
+
+  it("weights the typical price by volume", () => {
+    const candles = [candle(0, 10, { volume: 100 }), candle(1, 20, { volume: 300 })];
+
+    expect(vwap(candles)).toEqual([10, 17.5]);
+  });
+});
+
+describe("getIndicators", () => {
+  it("reads a split from the adjusted closes, not as a crash", async () => {
+    const start = Date.parse("2024-01-01T00:00:00Z") / 1000;
+    // Steady growth, with a 2-for-1 split halving the raw closes halfway through
+    const candles = linear(60).map((adjusted, i) =>
+      candle(start + i * DAY_SECONDS, i < 30 ? adjusted * 2 : adjusted, { adjustedClose: adjusted })
+    );
+    vi.mocked(getHistory).mockResolvedValue(candles);
+
+    const { values } = await getIndicators("AAPL", ["rsi", "macd"], new Date((start + 40 * DAY_SECONDS) * 1000), new Date());
+
+    expect(values).toHaveLength(20);
+    expect(values.every(row => row.rsi === 100)).toBe(true);
+    expect(values.every(row => row.macd! > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,189 @@
+import type { HistoricalCandle, HistoryResolution, IndicatorName, Indicators, IndicatorValues } from "@shared/schema";
+import { getHistory } from "./priceHistory";
+
+// Technical indicators over stored history. Each function takes bars oldest first and
+// returns one value per bar, null until it has seen enough bars. Reads start
+// WARMUP_BARS before the requested range so values are settled from its first bar on.
+// Close-based indicators use adjusted closes, like the forecasts and recommendations, so
+// a split is not read as a crash; ATR and VWAP need highs and lows, which are only stored raw.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WARMUP_BARS = 100;
+
+// Calendar days per bar of each resolution
+const BAR_DAYS: Record<HistoryResolution, number> = { D: 1.5, W: 7, M: 31 };
+
+export const PARAMETERS = {
+  smaPeriod: 20,
+  emaPeriod: 20,
+  rsiPeriod: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+  bollingerPeriod: 20,
+  bollingerWidth: 2,
+  atrPeriod: 14,
+};
+
+type Series = (number | null)[];
+
+export function sma(values: number[], period: number): Series {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value - (i >= period ? values[i - period] : 0);
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+// Exponential moving average seeded with the simple average of the first `period`
+// values; leading nulls (e.g. a MACD line warming up) are skipped
+export function ema(values: Series, period: number): Series {
+  const k = 2 / (period + 1);
+  const result: Series = values.map(() => null);
+  const start = values.findIndex(value => value !== null);
+  if (start < 0 || values.length - start < period) {
+    return result;
+  }
+
+  let average = (values.slice(start, start + period) as number[]).reduce((sum, value) => sum + value, 0) / period;
+  result[start + period - 1] = average;
+  for (let i = start + period; i < values.length; i++) {
+    average = values[i]! * k + average * (1 - k);
+    result[i] = average;
+  }
+  return result;
+}
+
+// Wilder's smoothing: the first value is a plain average, then each step keeps (period - 1)/period
+function wilder(values: number[], period: number, offset: number, length: number): Series {
+  const result: Series = new Array(length).fill(null);
+  if (values.length < period) {
+    return result;
+  }
+  let average = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[offset + period - 1] = average;
+  for (let i = period; i < values.length; i++) {
+    average = (average * (period - 1) + values[i]) / period;
+    result[offset + i] = average;
+  }
+  return result;
+}
+
+// Relative strength index with Wilder's smoothing of gains and losses
+export function rsi(closes: number[], period: number): Series {
+  const changes = closes.slice(1).map((close, i) => close - closes[i]);
+  const gains = wilder(changes.map(change => Math.max(change, 0)), period, 1, closes.length);
+  const losses = wilder(changes.map(change => Math.max(-change, 0)), period, 1, closes.length);
+  return gains.map((gain, i) => {
+    const loss = losses[i];
+    if (gain === null || loss === null) {
+      return null;
+    }
+    return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  });
+}
+
+export function macd(closes: number[], fast: number, slow: number, signalPeriod: number) {
+  const fastLine = ema(closes, fast);
+  const slowLine = ema(closes, slow);
+  const line = fastLine.map((value, i) => value !== null && slowLine[i] !== null ? value - slowLine[i]! : null);
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, i) => value !== null && signal[i] !== null ? value - signal[i]! : null);
+  return { line, signal, histogram };
+}
+
+// Simple moving average with bands `width` population standard deviations either side
+export function bollinger(closes: number[], period: number, width: number) {
+  const middle = sma(closes, period);
+  const deviation = middle.map((average, i) => {
+    if (average === null) {
+      return null;
+    }
+    const window = closes.slice(i - period + 1, i + 1);
+    return Math.sqrt(window.reduce((sum, close) => sum + (close - average) ** 2, 0) / period);
+  });
+  return {
+    upper: middle.map((average, i) => average === null ? null : average + width * deviation[i]!),
+    middle,
+    lower: middle.map((average, i) => average === null ? null : average - width * deviation[i]!),
+  };
+}
+
+// Average true range with Wilder's smoothing
+export function atr(candles: HistoricalCandle[], period: number): Series {
+  const trueRanges = candles.slice(1).map((candle, i) => Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - candles[i].close),
+    Math.abs(candle.low - candles[i].close)
+  ));
+  return wilder(trueRanges, period, 1, candles.length);
+}
+
+// Volume-weighted average of the typical price (high + low + close) / 3, from the first bar on
+export function vwap(candles: HistoricalCandle[]): Series {
+  let value = 0;
+  let volume = 0;
+  return candles.map(candle => {
+    value += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    volume += candle.volume;
+    return volume > 0 ? value / volume : null;
+  });
+}
+
+// The requested indicators for each bar of the range
+export async function getIndicators(
+  symbol: string,
+  names: readonly IndicatorName[],
+  from: Date,
+  to: Date,
+  resolution: HistoryResolution = "D"
+): Promise<Indicators> {
+  symbol = symbol.toUpperCase();
+  const warmupFrom = new Date(from.getTime() - Math.ceil(WARMUP_BARS * BAR_DAYS[resolution]) * DAY_MS);
+  const candles = await getHistory(symbol, warmupFrom, to, resolution);
+  const closes = candles.map(candle => candle.adjustedClose);
+  const start = candles.findIndex(candle => candle.time * 1000 >= from.getTime());
+  const first = start < 0 ? candles.length : start;
+
+  const columns: Partial<Record<keyof Omit<IndicatorValues, "time">, Series>> = {};
+  for (const name of names) {
+    switch (name) {
+      case "sma":
+        columns.sma = sma(closes, PARAMETERS.smaPeriod);
+        break;
+      case "ema":
+        columns.ema = ema(closes, PARAMETERS.emaPeriod);
+        break;
+      case "rsi":
+        columns.rsi = rsi(closes, PARAMETERS.rsiPeriod);
+        break;
+      case "macd": {
+        const { line, signal, histogram } = macd(closes, PARAMETERS.macdFast, PARAMETERS.macdSlow, PARAMETERS.macdSignal);
+        Object.assign(columns, { macd: line, macdSignal: signal, macdHistogram: histogram });
+        break;
+      }
+      case "bollinger": {
+        const { upper, middle, lower } = bollinger(closes, PARAMETERS.bollingerPeriod, PARAMETERS.bollingerWidth);
+        Object.assign(columns, { bollingerUpper: upper, bollingerMiddle: middle, bollingerLower: lower });
+        break;
+      }
+      case "atr":
+        columns.atr = atr(candles, PARAMETERS.atrPeriod);
+        break;
+      case "vwap":
+        // Anchored at the start of the requested range, not of the warm-up
+        columns.vwap = [...new Array(first).fill(null), ...vwap(candles.slice(first))];
+        break;
+    }
+  }
+
+  const values = candles.slice(first).map((candle, i): IndicatorValues => {
+    const row: IndicatorValues = { time: candle.time };
+    for (const [key, series] of Object.entries(columns)) {
+      row[key as keyof typeof columns] = series![first + i];
+    }
+    return row;
+  });
+
+  return { symbol, resolution, indicators: [...names], parameters: PARAMETERS, values };
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { combinePositions, derivePosition, LedgerError, matchLots, type LedgerEntry } from "./ledger";
+
+let nextId = 1;
+
+function entry(type: LedgerEntry["type"], date: string, fields: Partial<LedgerEntry> = {}): LedgerEntry {
+  return { id: nextId++, symbol: "AAPL", type, executedAt: new Date(date), ...fields };
+}
+
+const buy = (date: string, quantity: number, price: number, fees?: number) =>
+  entry("buy", date, { quantity: String(quantity), price: String(price), fees: fees !== undefined ? String(fees) : null });
+const sell = (date: string, quantity: number, price: number, fees?: number) =>
+  entry("sell", date, { quantity: String(quantity), price: String(price), fees: fees !== undefined ? String(fees) : null });
+
+// 10 @ 100, then 10 @ 120, then 5 sold @ 130
+const twoLotsOneSale = () => [buy("2024-01-02", 10, 100), buy("2024-02-01", 10, 120), sell("2024-03-01", 5, 130)];
+
+describe("derivePosition", () => {
+  it("sells the oldest lot first with FIFO", () => {
+    const position = derivePosition(twoLotsOneSale(), "fifo");
+
+    expect(position.quantity).toBe(15);
+    expect(position.costBasis).toBeCloseTo(1700);
+    expect(position.realizedPnl).toBeCloseTo(150);
+    expect(position.lots.map(lot => lot.quantity)).toEqual([5, 10]);
+    expect(position.purchaseDate).toEqual(new Date("2024-01-02"));
+  });
+
+  it("sells the newest lot first with LIFO", () => {
+    const position = derivePosition(twoLotsOneSale(), "lifo");
+
+    expect(position.quantity).toBe(15);
+    expect(position.costBasis).toBeCloseTo(1600);
+    expect(position.realizedPnl).toBeCloseTo(50);
+    expect(position.lots.map(lot => lot.quantity)).toEqual([10, 5]);
+  });
+
+  it("sells at the pooled cost with average cost and keeps the average", () => {
+    const position = derivePosition(twoLotsOneSale(), "average");
+
+    expect(position.quantity).toBeCloseTo(15);
+    expect(position.averageCost).toBeCloseTo(110);
+    expect(position.costBasis).toBeCloseTo(1650);
+    expect(position.realizedPnl).toBeCloseTo(100);
+
+    const later = derivePosition([...twoLotsOneSale(), sell("2024-04-01", 5, 100)], "average");
+    expect(later.sales[1].costBasis).toBeCloseTo(550);
+    expect(later.averageCost).toBeCloseTo(110);
+  });
+
+  it("splits a lot when a sale takes only part of it", () => {
+    const ledger = [buy("2024-01-02", 10, 100), buy("2024-02-01", 10, 120), sell("2024-03-01", 15, 130)];
+    const position = derivePosition(ledger, "fifo");
+
+    expect(position.quantity).toBe(5);
+    expect(position.costBasis).toBeCloseTo(600);
+    expect(position.lots).toHaveLength(1);
+    expect(position.lots[0].acquiredAt).toEqual(new Date("2024-02-01"));
+    expect(position.sales[0].costBasis).toBeCloseTo(1600);
+    expect(position.sales[0].gain).toBeCloseTo(15 * 130 - 1600);
+  });
+
+  it("closes the position when everything is sold", () => {
+    const position = derivePosition([buy("2024-01-02", 10, 100), sell("2024-03-01", 10, 90)], "fifo");
+
+    expect(position.quantity).toBe(0);
+    expect(position.averageCost).toBe(0);
+    expect(position.lots).toEqual([]);
+    expect(position.purchaseDate).toBeNull();
+    expect(position.realizedPnl).toBeCloseTo(-100);
+  });
+
+  it("adds buy commissions to the cost basis and takes sell commissions from the proceeds", () => {
+    const position = derivePosition([buy("2024-01-02", 10, 100, 10), sell("2024-03-01", 5, 130, 5)], "fifo");
+
+    expect(position.averageCost).toBeCloseTo(101);
+    expect(position.sales[0].proceeds).toBeCloseTo(645);
+    expect(position.sales[0].costBasis).toBeCloseTo(505);
+    expect(position.realizedPnl).toBeCloseTo(140);
+  });
+
+  it("multiplies the shares of every open lot on a split and keeps the cost basis", () => {
+    const ledger = [
+      buy("2024-01-02", 10, 100),
+      entry("split", "2024-02-01", { splitRatio: "2" }),
+      sell("2024-03-01", 5, 60),
+    ];
+    const position = derivePosition(ledger, "fifo");
+
+    expect(position.quantity).toBe(15);
+    expect(position.averageCost).toBeCloseTo(50);
+    expect(position.sales[0].costBasis).toBeCloseTo(250);
+    expect(position.realizedPnl).toBeCloseTo(50);
+  });
+
+  it("totals dividends and account fees apart from the lots", () => {
+    const ledger = [
+      buy("2024-01-02", 10, 100),
+      entry("dividend", "2024-02-01", { amount: "2.5" }),
+      entry("dividend", "2024-05-01", { amount: "2.5" }),
+      entry("fee", "2024-06-01", { amount: "1" }),
+    ];
+    const position = derivePosition(ledger, "fifo");
+
+    expect(position.dividends).toBeCloseTo(5);
+    expect(position.fees).toBeCloseTo(1);
+    expect(position.costBasis).toBeCloseTo(1000);
+  });
+
+  it("replays the ledger in date order, whatever order it is stored in", () => {
+    const [first, second, sale] = twoLotsOneSale();
+
+    expect(derivePosition([sale, second, first], "fifo")).toEqual(derivePosition([first, second, sale], "fifo"));
+  });
+});
+
+describe("matchLots", () => {
+  it("rejects selling more than is held at the time of the sale", () => {
+    const ledger = [buy("2024-01-02", 10, 100), sell("2024-02-01", 12, 110)];
+
+    expect(() => matchLots(ledger, "fifo")).toThrow(LedgerError);
+    expect(() => matchLots(ledger, "fifo")).toThrow("Cannot sell 12 AAPL on 2024-02-01: only 10 held");
+  });
+
+  it("rejects a sale dated before the buy that would cover it", () => {
+    const ledger = [sell("2024-01-02", 5, 100), buy("2024-02-01", 10, 100)];
+
+    expect(() => matchLots(ledger, "average")).toThrow(LedgerError);
+  });
+
+  it("allows selling fractional shares down to rounding noise", () => {
+    const ledger = [buy("2024-01-02", 0.1, 100), buy("2024-01-03", 0.2, 100), sell("2024-02-01", 0.3, 100)];
+
+    expect(matchLots(ledger, "fifo").openLots).toEqual([]);
+  });
+});
+
+describe("combinePositions", () => {
+  it("pools the lots of several portfolios and sums their results", () => {
+    const first = derivePosition([buy("2024-02-01", 10, 120)], "fifo");
+    const second = derivePosition([buy("2024-01-02", 10, 100), sell("2024-03-01", 5, 130)], "fifo");
+    const combined = combinePositions([first, second]);
+
+    expect(combined.quantity).toBe(15);
+    expect(combined.costBasis).toBeCloseTo(1700);
+    expect(combined.realizedPnl).toBeCloseTo(150);
+    expect(combined.purchaseDate).toEqual(new Date("2024-01-02"));
+  });
+});
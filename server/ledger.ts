@@ -0,0 +1,167 @@
+import type { CostBasisMethod, DerivedPosition, InsertTransaction, Lot, RealizedSale } from "@shared/schema";
+
+// Stored transactions, or one that is about to be saved and has no id yet
+export type LedgerEntry = Pick<
+  InsertTransaction,
+  "symbol" | "type" | "quantity" | "price" | "amount" | "fees" | "splitRatio" | "executedAt"
+> & { id?: number };
+
+export interface LotMatch {
+  openLots: Lot[];
+  sales: RealizedSale[];
+  dividends: number;
+  fees: number;
+}
+
+// Quantities below this are rounding noise from fractional shares
+const EPSILON = 1e-9;
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+// Ledger entries are applied oldest first; ties keep insertion order
+export function sortTransactions<T extends LedgerEntry>(transactions: T[]): T[] {
+  return [...transactions].sort((a, b) =>
+    new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime() ||
+    (a.id ?? Infinity) - (b.id ?? Infinity)
+  );
+}
+
+// Takes `shares` out of the open lots and returns the cost basis removed.
+// FIFO and LIFO consume whole lots from either end; average cost takes the same
+// fraction from every lot, so every sale is costed at the pooled average.
+function consumeLots(lots: Lot[], shares: number, method: CostBasisMethod): number {
+  if (method === "average") {
+    const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const fraction = held > 0 ? shares / held : 0;
+    let cost = 0;
+    for (const lot of lots) {
+      cost += lot.costBasis * fraction;
+      lot.costBasis -= lot.costBasis * fraction;
+      lot.quantity -= lot.quantity * fraction;
+    }
+    return cost;
+  }
+
+  let remaining = shares;
+  let cost = 0;
+  while (remaining > EPSILON && lots.length > 0) {
+    const lot = method === "fifo" ? lots[0] : lots[lots.length - 1];
+    const taken = Math.min(lot.quantity, remaining);
+    const takenCost = lot.costBasis * (taken / lot.quantity);
+
+    cost += takenCost;
+    lot.costBasis -= takenCost;
+    lot.quantity -= taken;
+    remaining -= taken;
+
+    if (lot.quantity <= EPSILON) {
+      lots.splice(method === "fifo" ? 0 : lots.length - 1, 1);
+    }
+  }
+  return cost;
+}
+
+// Replays a ledger into the lots still held and the gain realized by each sale
+export function matchLots(transactions: LedgerEntry[], method: CostBasisMethod): LotMatch {
+  let lots: Lot[] = [];
+  const sales: RealizedSale[] = [];
+  let dividends = 0;
+  let fees = 0;
+
+  for (const tx of sortTransactions(transactions)) {
+    const shares = Number(tx.quantity ?? 0);
+    const price = Number(tx.price ?? 0);
+    const commission = Number(tx.fees ?? 0);
+    const executedAt = new Date(tx.executedAt);
+
+    switch (tx.type) {
+      case "buy":
+        lots.push({
+          transactionId: tx.id ?? null,
+          acquiredAt: executedAt,
+          quantity: shares,
+          costBasis: shares * price + commission,
+        });
+        break;
+      case "sell": {
+        const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+        if (shares > held + EPSILON) {
+          throw new LedgerError(
+            `Cannot sell ${shares} ${tx.symbol} on ${executedAt.toISOString().slice(0, 10)}: only ${held} held`
+          );
+        }
+        const costBasis = consumeLots(lots, shares, method);
+        const proceeds = shares * price - commission;
+        sales.push({
+          transactionId: tx.id ?? null,
+          soldAt: executedAt,
+          quantity: shares,
+          proceeds,
+          costBasis,
+          gain: proceeds - costBasis,
+        });
+        lots = lots.filter(lot => lot.quantity > EPSILON);
+        break;
+      }
+      case "dividend":
+        dividends += Number(tx.amount ?? 0);
+        break;
+      case "fee":
+        fees += Number(tx.amount ?? 0);
+        break;
+      case "split": {
+        const ratio = Number(tx.splitRatio ?? 1);
+        for (const lot of lots) {
+          lot.quantity *= ratio;
+        }
+        break;
+      }
+    }
+  }
+
+  return { openLots: lots, sales, dividends, fees };
+}
+
+// Rebuild a holding from its ledger using the chosen cost basis method
+export function derivePosition(transactions: LedgerEntry[], method: CostBasisMethod): DerivedPosition {
+  const { openLots, sales, dividends, fees } = matchLots(transactions, method);
+  const quantity = openLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const costBasis = openLots.reduce((sum, lot) => sum + lot.costBasis, 0);
+
+  return {
+    quantity,
+    averageCost: quantity > 0 ? costBasis / quantity : 0,
+    costBasis,
+    realizedPnl: sales.reduce((sum, sale) => sum + sale.gain, 0),
+    dividends,
+    fees,
+    purchaseDate: openLots[0]?.acquiredAt ?? null,
+    lots: openLots,
+    sales,
+  };
+}
+
+// One position out of the same symbol's positions in several portfolios; each was
+// derived from its own ledger, so lots and sales stay with the portfolio they came from
+export function combinePositions(positions: DerivedPosition[]): DerivedPosition {
+  const lots = positions.flatMap(position => position.lots).sort((a, b) => a.acquiredAt.getTime() - b.acquiredAt.getTime());
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const costBasis = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+
+  return {
+    quantity,
+    averageCost: quantity > 0 ? costBasis / quantity : 0,
+    costBasis,
+    realizedPnl: positions.reduce((sum, position) => sum + position.realizedPnl, 0),
+    dividends: positions.reduce((sum, position) => sum + position.dividends, 0),
+    fees: positions.reduce((sum, position) => sum + position.fees, 0),
+    purchaseDate: lots[0]?.acquiredAt ?? null,
+    lots,
+    sales: positions.flatMap(position => position.sales).sort((a, b) => a.soldAt.getTime() - b.soldAt.getTime()),
+  };
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cacheKinds, MarketCache, type CacheKind, type CachePolicy } from "./marketCache";
+
+// Quotes are fresh for 15 s and served stale for 60 s more
+const POLICIES = Object.fromEntries(
+  cacheKinds.map(kind => [kind, { ttl: 15, stale: 60 }])
+) as Record<CacheKind, CachePolicy>;
+
+// A loader returning "v1", "v2", ... on successive calls
+function counter() {
+  let calls = 0;
+  return vi.fn(async () => `v${++calls}`);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("MarketCache", () => {
+  it("serves a fresh entry without calling upstream", async () => {
+    const cache = new MarketCache(POLICIES);
+    const load = counter();
+
+    expect(await cache.get("quote", "AAPL", load)).toBe("v1");
+    vi.advanceTimersByTime(14_000);
+    expect(await cache.get("quote", "AAPL", load)).toBe("v1");
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.stats().quote).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+  });
+
+  it("keys entries by kind and key", async () => {
+    const cache = new MarketCache(POLICIES);
+    const load = counter();
+
+    await cache.get("quote", "AAPL", load);
+    await cache.get("quote", "MSFT", load);
+    await cache.get("news", "AAPL", load);
+
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it("serves a stale entry at once and refreshes it in the background", async () => {
+    const cache = new MarketCache(POLICIES);
+    const load = counter();
+    await cache.get("quote", "AAPL", load);
+    vi.advanceTimersByTime(20_000);
+
+    expect(await cache.get("quote", "AAPL", load)).toBe("v1");
+    expect(load).toHaveBeenCalledTimes(2);
+
+    await vi.runAllTimersAsync();
+    expect(await cache.get("quote", "AAPL", load)).toBe("v2");
+    expect(cache.stats().quote).toMatchObject({ staleHits: 1, hits: 1 });
+  });
+
+  it("starts a single refresh for stale reads that arrive together", async () => {
+    const cache = new MarketCache(POLICIES);
+    await cache.get("quote", "AAPL", async () => "v1");
+    vi.advanceTimersByTime(20_000);
+
+    let finish!: (value: string) => void;
+    const refresh = vi.fn(() => new Promise<string>(resolve => { finish = resolve; }));
+    const reads = await Promise.all([1, 2, 3].map(() => cache.get("quote", "AAPL", refresh)));
+
+    expect(reads).toEqual(["v1", "v1", "v1"]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    finish("v2");
+    await vi.runAllTimersAsync();
+    expect(await cache.get("quote", "AAPL", refresh)).toBe("v2");
+  });
+
+  it("shares one upstream call among concurrent misses", async () => {
+    const cache = new MarketCache(POLICIES);
+    const load = vi.fn(() => new Promise<string>(resolve => setTimeout(() => resolve("v1"), 100)));
+
+    const reads = Promise.all([1, 2, 3].map(() => cache.get("quote", "AAPL", load)));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await reads).toEqual(["v1", "v1", "v1"]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps serving the stale value when the background refresh fails", async () => {
+    const cache = new MarketCache(POLICIES);
+    await cache.get("quote", "AAPL", async () => "v1");
+    vi.advanceTimersByTime(20_000);
+
+    const failing = vi.fn(async () => { throw new Error("upstream down"); });
+    expect(await cache.get("quote", "AAPL", failing)).toBe("v1");
+    await vi.runAllTimersAsync();
+
+    expect(await cache.get("quote", "AAPL", failing)).toBe("v1");
+    await vi.runAllTimersAsync();
+    expect(cache.stats().quote.refreshErrors).toBe(2);
+  });
+
+  it("reloads an expired entry before answering", async () => {
+    const cache = new MarketCache(POLICIES);
+    const load = counter();
+    await cache.get("quote", "AAPL", load);
+    vi.advanceTimersByTime(75_000);
+
+    expect(await cache.get("quote", "AAPL", load)).toBe("v2");
+    expect(cache.stats().quote).toMatchObject({ misses: 2, staleHits: 0 });
+  });
+
+  it("falls back to an expired entry when reloading fails", async () => {
+    const cache = new MarketCache(POLICIES);
+    await cache.get("quote", "AAPL", async () => "v1");
+    vi.advanceTimersByTime(75_000);
+
+    expect(await cache.get("quote", "AAPL", async () => { throw new Error("circuit open"); })).toBe("v1");
+    expect(cache.stats().quote.fallbacks).toBe(1);
+  });
+
+  it("passes the error on when there is nothing cached to fall back to", async () => {
+    const cache = new MarketCache(POLICIES);
+
+    await expect(cache.get("quote", "AAPL", async () => { throw new Error("circuit open"); })).rejects.toThrow("circuit open");
+    expect(cache.stats().quote.entries).toBe(0);
+  });
+});
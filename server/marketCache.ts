@@ -0,0 +1,145 @@
+import { runWithPriority } from "./rateLimiter";
+
+// Server-side cache for upstream market data, shared by every user and tab.
+//
+// An entry is fresh for `ttl` seconds and is then served stale for up to `stale`
+// more seconds while a single background call refreshes it. Past that it is
+// reloaded before answering, and if the reload fails (provider down, circuit open)
+// the old value is served as a fallback. Concurrent misses for one key share one
+// upstream call.
+
+export const cacheKinds = ["quote", "profile", "fundamentals", "candles", "news", "search", "fx"] as const;
+export type CacheKind = (typeof cacheKinds)[number];
+
+export interface CachePolicy {
+  ttl: number; // seconds an entry is served without revalidating
+  stale: number; // further seconds it may be served while revalidating
+}
+
+export interface CacheCounters {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  refreshErrors: number;
+  fallbacks: number; // expired entries served because reloading failed
+  entries: number;
+}
+
+const DEFAULT_POLICIES: Record<CacheKind, CachePolicy> = {
+  quote: { ttl: 15, stale: 60 },
+  profile: { ttl: 24 * 3600, stale: 7 * 24 * 3600 },
+  fundamentals: { ttl: 6 * 3600, stale: 24 * 3600 },
+  candles: { ttl: 300, stale: 3600 },
+  news: { ttl: 900, stale: 3600 },
+  search: { ttl: 3600, stale: 24 * 3600 },
+  fx: { ttl: 3600, stale: 6 * 3600 },
+};
+
+// MARKET_CACHE_TTL_QUOTE=30 or MARKET_CACHE_STALE_CANDLES=0 override the defaults
+function loadPolicies(): Record<CacheKind, CachePolicy> {
+  const seconds = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return Object.fromEntries(cacheKinds.map(kind => {
+    const policy = DEFAULT_POLICIES[kind];
+    return [kind, {
+      ttl: seconds(`MARKET_CACHE_TTL_${kind.toUpperCase()}`, policy.ttl),
+      stale: seconds(`MARKET_CACHE_STALE_${kind.toUpperCase()}`, policy.stale),
+    }];
+  })) as Record<CacheKind, CachePolicy>;
+}
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+const MAX_ENTRIES = 5000;
+
+export class MarketCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private counters = new Map<CacheKind, Omit<CacheCounters, "entries">>();
+
+  constructor(private policies: Record<CacheKind, CachePolicy> = loadPolicies()) {
+    for (const kind of cacheKinds) {
+      this.counters.set(kind, { hits: 0, staleHits: 0, misses: 0, refreshErrors: 0, fallbacks: 0 });
+    }
+  }
+
+  async get<T>(kind: CacheKind, key: string, load: () => Promise<T>): Promise<T> {
+    const cacheKey = `${kind}:${key}`;
+    const counters = this.counters.get(kind)!;
+    const entry = this.entries.get(cacheKey);
+    const { ttl, stale } = this.policies[kind];
+
+    if (entry) {
+      const age = (Date.now() - entry.fetchedAt) / 1000;
+      if (age < ttl) {
+        counters.hits++;
+        return entry.value as T;
+      }
+      if (age < ttl + stale) {
+        counters.staleHits++;
+        // Background refresh; on failure the stale value keeps being served
+        runWithPriority("background", () => this.load(cacheKey, load)).catch(() => {
+          counters.refreshErrors++;
+        });
+        return entry.value as T;
+      }
+    }
+
+    counters.misses++;
+    try {
+      return await this.load(cacheKey, load);
+    } catch (error) {
+      if (!entry) {
+        throw error;
+      }
+      counters.fallbacks++;
+      return entry.value as T;
+    }
+  }
+
+  stats(): Record<CacheKind, CacheCounters> {
+    const entriesByKind = new Map<string, number>();
+    this.entries.forEach((_entry, cacheKey) => {
+      const kind = cacheKey.slice(0, cacheKey.indexOf(":"));
+      entriesByKind.set(kind, (entriesByKind.get(kind) ?? 0) + 1);
+    });
+
+    return Object.fromEntries(cacheKinds.map(kind => [
+      kind,
+      { ...this.counters.get(kind)!, entries: entriesByKind.get(kind) ?? 0 },
+    ])) as Record<CacheKind, CacheCounters>;
+  }
+
+  private load<T>(cacheKey: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const request = load()
+      .then(value => {
+        this.set(cacheKey, value);
+        return value;
+      })
+      .finally(() => this.inFlight.delete(cacheKey));
+    this.inFlight.set(cacheKey, request);
+    return request;
+  }
+
+  private set(cacheKey: string, value: unknown) {
+    // Re-inserting keeps the Map in least-recently-fetched order for eviction
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, { value, fetchedAt: Date.now() });
+    if (this.entries.size > MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+export const marketCache = new MarketCache();
@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import path from "path";
+
+// The gateway picks its provider when it is loaded, so it is imported after the
+// environment points it at the bundled fixtures
+let gateway: typeof import("./marketData");
+
+beforeAll(async () => {
+  process.env.MARKET_DATA_PROVIDER = "fixture";
+  process.env.MARKET_DATA_FIXTURES = path.resolve(import.meta.dirname, "fixtures", "market-data.json");
+  gateway = await import("./marketData");
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("market data gateway with the fixture provider", () => {
+  it("quotes a fixture symbol with its name and currency", async () => {
+    const quote = await gateway.getQuote("aapl");
+
+    expect(quote).toEqual({
+      symbol: "AAPL",
+      name: "Apple Inc",
+      price: 227.52,
+      change: 1.84,
+      changePercent: 0.82,
+      currency: "USD",
+    });
+  });
+
+  it("reports a symbol missing from the fixtures as not found", async () => {
+    const error = await gateway.getQuote("ZZZZQ").catch(error => error);
+
+    expect(error).toBeInstanceOf(gateway.MarketDataError);
+    expect(error.code).toBe("NOT_FOUND");
+    expect(error.status).toBe(404);
+  });
+
+  it("serves daily candles that end at the fixture price", async () => {
+    const to = new Date();
+    const candles = await gateway.getCandles("AAPL", "D", new Date(to.getTime() - 30 * DAY_MS), to);
+
+    expect(candles.length).toBeGreaterThanOrEqual(29);
+    expect(candles[candles.length - 1].close).toBeCloseTo(227.52);
+    for (const [i, candle] of candles.entries()) {
+      expect(candle.high).toBeGreaterThanOrEqual(Math.max(candle.open, candle.close));
+      expect(candle.low).toBeLessThanOrEqual(Math.min(candle.open, candle.close));
+      if (i > 0) {
+        expect(candle.time - candles[i - 1].time).toBe(86400);
+        expect(candle.open).toBeCloseTo(candles[i - 1].close);
+      }
+    }
+  });
+
+  it("returns the same bars for overlapping candle ranges", async () => {
+    const to = new Date();
+    const month = await gateway.getCandles("MSFT", "D", new Date(to.getTime() - 30 * DAY_MS), to);
+    const quarter = await gateway.getCandles("MSFT", "D", new Date(to.getTime() - 90 * DAY_MS), to);
+
+    expect(quarter.slice(-month.length)).toEqual(month);
+  });
+
+  it("has no candles for a symbol missing from the fixtures", async () => {
+    const to = new Date();
+
+    expect(await gateway.getCandles("ZZZZQ", "D", new Date(to.getTime() - 30 * DAY_MS), to)).toEqual([]);
+  });
+
+  it("serves the fixture news of a symbol", async () => {
+    const news = await gateway.getNews("AAPL");
+
+    expect(news).toHaveLength(2);
+    expect(news[0]).toMatchObject({ title: "Apple Expands Services Revenue in Latest Quarter", source: "Reuters" });
+    expect(await gateway.getNews("ZZZZQ")).toEqual([]);
+  });
+
+  it("serves fundamentals, with nulls for a symbol without any", async () => {
+    expect(await gateway.getFundamentals("AAPL")).toEqual({
+      symbol: "AAPL",
+      peRatio: 34.6,
+      analysts: { strongBuy: 14, buy: 22, hold: 12, sell: 2, strongSell: 0 },
+      targetPrice: 245,
+    });
+    expect(await gateway.getFundamentals("ZZZZQ")).toEqual({ symbol: "ZZZZQ", peRatio: null, analysts: null, targetPrice: null });
+  });
+
+  it("converts the fixture exchange rates to the requested base", async () => {
+    const { base, rates } = await gateway.getFxRates("eur");
+
+    expect(base).toBe("EUR");
+    expect(rates.EUR).toBe(1);
+    expect(rates.USD).toBeCloseTo(1 / 0.92);
+  });
+});
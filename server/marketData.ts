@@ -0,0 +1,127 @@
+import path from "path";
+import type { Candle, CandleResolution, CompanyFundamentals, CompanyProfile, FxRates, NewsArticle, Quote, SymbolMatch, UpstreamStatus } from "@shared/schema";
+import { createLiveProvider, MarketDataError, type MarketDataProvider, type Profile } from "./marketProviders";
+import { createFixtureProvider } from "./fixtureProvider";
+import { marketCache } from "./marketCache";
+import { scheduler } from "./rateLimiter";
+import { breakers } from "./circuitBreaker";
+
+export { MarketDataError } from "./marketProviders";
+
+export function getCacheStats() {
+  return marketCache.stats();
+}
+
+// Rate limiter queues and circuit breaker state per upstream service
+export function getUpstreamStatus(): UpstreamStatus[] {
+  return scheduler.status().map(queue => {
+    const breaker = breakers[queue.service].status();
+    return {
+      ...queue,
+      ...breaker,
+      degraded: breaker.circuit !== "closed" || breaker.consecutiveFailures > 0,
+    };
+  });
+}
+
+// Market data gateway. MARKET_DATA_PROVIDER picks where data comes from: "live"
+// (default) calls the upstream services with keys that stay on the server, and
+// "fixture" serves MARKET_DATA_FIXTURES so the dashboard runs without network access.
+function selectProvider(): MarketDataProvider {
+  const choice = process.env.MARKET_DATA_PROVIDER || "live";
+
+  switch (choice) {
+    case "live":
+      return createLiveProvider({
+        finnhub: process.env.FINNHUB_API_KEY || "demo",
+        fmp: process.env.FMP_API_KEY || "demo",
+        newsData: process.env.NEWSDATA_API_KEY || "",
+      });
+    case "fixture":
+      return createFixtureProvider(
+        process.env.MARKET_DATA_FIXTURES || path.resolve(import.meta.dirname, "fixtures", "market-data.json")
+      );
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${choice}"; expected "live" or "fixture"`);
+  }
+}
+
+const provider = selectProvider();
+
+const MINUTE_MS = 60 * 1000;
+
+// A missing profile shouldn't hide the quote; fall back to the symbol and USD
+async function getProfile(symbol: string): Promise<Profile> {
+  try {
+    const profile = await marketCache.get("profile", symbol, () => provider.getProfile(symbol));
+    return profile ?? { name: symbol, currency: "USD" };
+  } catch {
+    return { name: symbol, currency: "USD" };
+  }
+}
+
+export async function getQuote(symbol: string): Promise<Quote> {
+  symbol = symbol.toUpperCase();
+  const quote = await marketCache.get("quote", symbol, () => provider.getQuote(symbol));
+
+  if (!quote) {
+    throw new MarketDataError(`Stock ${symbol} not found or no data available`, "NOT_FOUND");
+  }
+
+  const profile = await getProfile(symbol);
+  return { symbol, name: profile.name, ...quote, currency: profile.currency };
+}
+
+export async function getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  symbol = symbol.toUpperCase();
+  const profile = await getProfile(symbol);
+  return {
+    symbol,
+    name: profile.name,
+    currency: profile.currency,
+    exchange: profile.exchange ?? null,
+    sector: profile.sector ?? null,
+    marketCap: profile.marketCap ?? null,
+  };
+}
+
+// Symbols without fundamentals (funds, small listings) get nulls rather than an error
+export async function getFundamentals(symbol: string): Promise<CompanyFundamentals> {
+  symbol = symbol.toUpperCase();
+  const fundamentals = await marketCache.get("fundamentals", symbol, () => provider.getFundamentals(symbol));
+  return {
+    symbol,
+    peRatio: fundamentals?.peRatio ?? null,
+    analysts: fundamentals?.analysts ?? null,
+    targetPrice: fundamentals?.targetPrice ?? null,
+  };
+}
+
+export async function getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<Candle[]> {
+  symbol = symbol.toUpperCase();
+  // Ranges ending "now" differ by milliseconds between requests; key them by minute
+  const key = `${symbol}:${resolution}:${Math.floor(from.getTime() / MINUTE_MS)}:${Math.floor(to.getTime() / MINUTE_MS)}`;
+  return marketCache.get("candles", key, () => provider.getCandles(symbol, resolution, from, to));
+}
+
+export async function getNews(symbol: string): Promise<NewsArticle[]> {
+  symbol = symbol.toUpperCase();
+  const { name } = await getProfile(symbol);
+  return marketCache.get("news", symbol, () => provider.getNews(symbol, name));
+}
+
+export async function searchSymbols(query: string): Promise<SymbolMatch[]> {
+  const key = query.trim().toLowerCase();
+  return marketCache.get("search", key, () => provider.search(query));
+}
+
+export async function getFxRates(base: string): Promise<FxRates> {
+  base = base.toUpperCase();
+  const rates = await marketCache.get("fx", base, () => provider.getFxRates(base));
+
+  if (!rates) {
+    throw new MarketDataError(`No exchange rates for ${base}`, "NOT_FOUND");
+  }
+
+  return rates;
+}
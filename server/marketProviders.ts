@@ -0,0 +1,369 @@
+import { z } from "zod";
+import type {
+  AnalystRatings, Candle, CandleResolution, FxRates, MarketDataErrorBody, MarketDataErrorCode, NewsArticle, SymbolMatch
+} from "@shared/schema";
+import { RateLimitError, scheduler, type UpstreamService } from "./rateLimiter";
+import { breakers } from "./circuitBreaker";
+
+const STATUS_BY_CODE: Record<MarketDataErrorCode, number> = {
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 502,
+  UPSTREAM_REJECTED: 502,
+  NETWORK: 502,
+  CIRCUIT_OPEN: 503,
+};
+
+const RETRYABLE_CODES: MarketDataErrorCode[] = ["RATE_LIMITED", "UPSTREAM_UNAVAILABLE", "NETWORK"];
+
+// A classified upstream failure; the code decides the HTTP status and whether trying again can help
+export class MarketDataError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, readonly code: MarketDataErrorCode) {
+    super(message);
+    this.name = "MarketDataError";
+    this.status = STATUS_BY_CODE[code];
+    this.retryable = RETRYABLE_CODES.includes(code);
+  }
+
+  toBody(): MarketDataErrorBody {
+    return { error: this.message, code: this.code, retryable: this.retryable };
+  }
+}
+
+export interface ProviderQuote {
+  price: number;
+  change: number;
+  changePercent: number;
+}
+
+export interface Profile {
+  name: string;
+  currency: string;
+  exchange?: string;
+  sector?: string;
+  marketCap?: number; // in the listing currency
+}
+
+export interface Fundamentals {
+  peRatio?: number;
+  analysts?: AnalystRatings; // latest month's recommendation counts
+  targetPrice?: number; // analysts' mean price target, in the listing currency
+}
+
+// Everything the gateway needs from upstream. Methods return null or an empty
+// list when the provider has no data, and throw MarketDataError when it fails.
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string): Promise<ProviderQuote | null>;
+  getProfile(symbol: string): Promise<Profile | null>;
+  getFundamentals(symbol: string): Promise<Fundamentals | null>;
+  getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<Candle[]>;
+  search(query: string): Promise<SymbolMatch[]>;
+  getNews(symbol: string, companyName: string): Promise<NewsArticle[]>;
+  getFxRates(base: string): Promise<FxRates | null>;
+}
+
+const SERVICE_NAMES: Record<UpstreamService, string> = {
+  finnhub: "Finnhub",
+  fmp: "Financial Modeling Prep",
+  newsdata: "NewsData",
+  exchangerate: "ExchangeRate-API",
+};
+
+const MAX_ATTEMPTS = Number(process.env.UPSTREAM_MAX_ATTEMPTS) || 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// Exponential backoff with full jitter, so clients that failed together don't retry together
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+// One attempt, after waiting for a token of the service's rate limit
+async function fetchOnce(service: UpstreamService, url: string): Promise<unknown> {
+  const source = SERVICE_NAMES[service];
+  let response: Response;
+  try {
+    response = await scheduler.schedule(service, () => fetch(url));
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
+    throw new MarketDataError(`${source} is unreachable: ${(error as Error).message}`, "NETWORK");
+  }
+
+  if (response.status === 429) {
+    throw new MarketDataError(`${source} rate limit reached`, "RATE_LIMITED");
+  }
+  if (response.status >= 500) {
+    throw new MarketDataError(`${source} is unavailable: ${response.status} ${response.statusText}`, "UPSTREAM_UNAVAILABLE");
+  }
+  if (!response.ok) {
+    throw new MarketDataError(`${source} request failed: ${response.status} ${response.statusText}`, "UPSTREAM_REJECTED");
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new MarketDataError(`${source} sent a malformed response`, "UPSTREAM_UNAVAILABLE");
+  }
+}
+
+// Retries rate limits, 5xx and network failures with backoff. Only those count
+// against the service's circuit breaker; a 4xx still proves the service is up.
+async function fetchWithRetry(service: UpstreamService, url: string): Promise<unknown> {
+  const breaker = breakers[service];
+  if (!breaker.tryAcquire()) {
+    throw new MarketDataError(`${SERVICE_NAMES[service]} is degraded; calls are paused`, "CIRCUIT_OPEN");
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = await fetchOnce(service, url);
+      breaker.recordSuccess();
+      return data;
+    } catch (error) {
+      // Our own queue being full says nothing about the service
+      if (error instanceof RateLimitError) {
+        breaker.release();
+        throw new MarketDataError(error.message, "RATE_LIMITED");
+      }
+
+      const failure = error as MarketDataError;
+      if (!failure.retryable) {
+        breaker.recordSuccess();
+        throw failure;
+      }
+      if (attempt + 1 >= MAX_ATTEMPTS) {
+        breaker.recordFailure(failure.message);
+        throw failure;
+      }
+      await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt)));
+    }
+  }
+}
+
+// Fetches and checks the payload's shape, so nothing unvalidated reaches quotes, candles or news
+async function fetchJson<T>(service: UpstreamService, url: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+  const parsed = schema.safeParse(await fetchWithRetry(service, url));
+  if (!parsed.success) {
+    throw new MarketDataError(`${SERVICE_NAMES[service]} sent an unexpected response`, "UPSTREAM_REJECTED");
+  }
+  return parsed.data;
+}
+
+// Adapters for the live services; each covers the part of the interface its service offers
+
+const FINNHUB_BASE = "https://finnhub.io/api/v1";
+const FMP_BASE = "https://financialmodelingprep.com/api/v3";
+const NEWSDATA_BASE = "https://newsdata.io/api/1";
+const EXCHANGE_RATE_BASE = "https://api.exchangerate-api.com/v4/latest";
+
+// The parts of each payload the adapters read. Upstream omits or nulls fields it has no data for.
+const finnhubQuoteSchema = z.object({
+  c: z.number().nullish(),
+  d: z.number().nullish(),
+  dp: z.number().nullish(),
+  error: z.string().optional(),
+});
+
+const finnhubProfileSchema = z.object({
+  name: z.string().nullish(),
+  currency: z.string().nullish(),
+  exchange: z.string().nullish(),
+  finnhubIndustry: z.string().nullish(),
+  marketCapitalization: z.number().nullish(),
+});
+
+const finnhubMetricsSchema = z.object({
+  metric: z.object({
+    peTTM: z.number().nullish(),
+    peBasicExclExtraTTM: z.number().nullish(),
+  }).nullish(),
+});
+
+// Anything other than a list of monthly ratings means there are none
+const finnhubRatingsSchema = z.array(z.object({
+  strongBuy: z.number().nullish(),
+  buy: z.number().nullish(),
+  hold: z.number().nullish(),
+  sell: z.number().nullish(),
+  strongSell: z.number().nullish(),
+})).catch([]);
+
+// "no_data" responses carry only the status
+const finnhubCandlesSchema = z.object({
+  s: z.string().optional(),
+  t: z.array(z.number()).optional(),
+  o: z.array(z.number()).optional(),
+  h: z.array(z.number()).optional(),
+  l: z.array(z.number()).optional(),
+  c: z.array(z.number()).optional(),
+  v: z.array(z.number()).optional(),
+  error: z.string().optional(),
+});
+
+// FMP answers errors with an object instead of the list
+const fmpSearchSchema = z.array(z.object({
+  symbol: z.string().nullish(),
+  name: z.string().nullish(),
+  exchangeShortName: z.string().nullish(),
+  currency: z.string().nullish(),
+})).catch([]);
+
+const newsDataSchema = z.object({
+  results: z.array(z.object({
+    title: z.string().nullish(),
+    description: z.string().nullish(),
+    content: z.string().nullish(),
+    link: z.string().nullish(),
+    pubDate: z.string().nullish(),
+    source_id: z.string().nullish(),
+  })).nullish(),
+});
+
+const exchangeRateSchema = z.object({
+  rates: z.record(z.number()).optional(),
+});
+
+export function createFinnhubAdapter(
+  apiKey: string
+): Pick<MarketDataProvider, "getQuote" | "getProfile" | "getFundamentals" | "getCandles"> {
+  return {
+    async getQuote(symbol) {
+      const data = await fetchJson("finnhub", `${FINNHUB_BASE}/quote?symbol=${encodeURIComponent(symbol)}&token=${apiKey}`, finnhubQuoteSchema);
+      if (data.error) {
+        throw new MarketDataError(`Finnhub error: ${data.error}`, "UPSTREAM_REJECTED");
+      }
+      if (!data.c) {
+        return null;
+      }
+      return { price: data.c, change: data.d ?? 0, changePercent: data.dp ?? 0 };
+    },
+
+    async getProfile(symbol) {
+      const data = await fetchJson("finnhub", `${FINNHUB_BASE}/stock/profile2?symbol=${encodeURIComponent(symbol)}&token=${apiKey}`, finnhubProfileSchema);
+      if (!data.name) {
+        return null;
+      }
+      return {
+        name: data.name,
+        currency: data.currency ? data.currency.toUpperCase() : "USD",
+        exchange: data.exchange || undefined,
+        sector: data.finnhubIndustry || undefined,
+        // Finnhub reports market capitalization in millions
+        marketCap: data.marketCapitalization ? data.marketCapitalization * 1e6 : undefined,
+      };
+    },
+
+    // Price targets are a paid Finnhub feature, so only P/E and the rating counts come from here
+    async getFundamentals(symbol) {
+      const query = `symbol=${encodeURIComponent(symbol)}&token=${apiKey}`;
+      const [metrics, ratings] = await Promise.all([
+        fetchJson("finnhub", `${FINNHUB_BASE}/stock/metric?${query}&metric=all`, finnhubMetricsSchema),
+        fetchJson("finnhub", `${FINNHUB_BASE}/stock/recommendation?${query}`, finnhubRatingsSchema),
+      ]);
+      const peRatio = metrics.metric?.peTTM ?? metrics.metric?.peBasicExclExtraTTM;
+      const latest = ratings[0];
+      if (peRatio == null && !latest) {
+        return null;
+      }
+      return {
+        peRatio: peRatio ?? undefined,
+        analysts: latest && {
+          strongBuy: latest.strongBuy ?? 0,
+          buy: latest.buy ?? 0,
+          hold: latest.hold ?? 0,
+          sell: latest.sell ?? 0,
+          strongSell: latest.strongSell ?? 0,
+        },
+      };
+    },
+
+    async getCandles(symbol, resolution, from, to) {
+      const params = new URLSearchParams({
+        symbol,
+        resolution,
+        from: String(Math.floor(from.getTime() / 1000)),
+        to: String(Math.floor(to.getTime() / 1000)),
+        token: apiKey,
+      });
+      const data = await fetchJson("finnhub", `${FINNHUB_BASE}/stock/candle?${params}`, finnhubCandlesSchema);
+      if (data.error) {
+        throw new MarketDataError(`Finnhub error: ${data.error}`, "UPSTREAM_REJECTED");
+      }
+      const { s: status, t: times, o: opens, h: highs, l: lows, c: closes, v: volumes } = data;
+      if (status !== "ok" || !times || !opens || !highs || !lows || !closes) {
+        return [];
+      }
+      return times.map((time, i) => ({
+        time,
+        open: opens[i],
+        high: highs[i],
+        low: lows[i],
+        close: closes[i],
+        volume: volumes?.[i] ?? 0,
+      }));
+    },
+  };
+}
+
+export function createFmpAdapter(apiKey: string): Pick<MarketDataProvider, "search"> {
+  return {
+    async search(query) {
+      const params = new URLSearchParams({ query, limit: "10", apikey: apiKey });
+      const data = await fetchJson("fmp", `${FMP_BASE}/search?${params}`, fmpSearchSchema);
+      return data.flatMap(item => item.symbol && item.name
+        ? [{ symbol: item.symbol, name: item.name, exchange: item.exchangeShortName ?? null, currency: item.currency ?? null }]
+        : []);
+    },
+  };
+}
+
+// Without a key there is no news rather than an error
+export function createNewsDataAdapter(apiKey: string): Pick<MarketDataProvider, "getNews"> {
+  return {
+    async getNews(symbol, companyName) {
+      if (!apiKey) {
+        return [];
+      }
+      const params = new URLSearchParams({
+        apikey: apiKey,
+        q: companyName === symbol ? `"${symbol}"` : `"${symbol}" OR "${companyName}"`,
+        category: "business,technology",
+        language: "en",
+        size: "10",
+      });
+      const data = await fetchJson("newsdata", `${NEWSDATA_BASE}/news?${params}`, newsDataSchema);
+      return (data.results ?? []).slice(0, 5).map(article => ({
+        title: article.title || `${symbol} News Update`,
+        summary: article.description || article.content?.substring(0, 200) || "No description available",
+        url: article.link || "#",
+        published: article.pubDate || new Date().toISOString(),
+        source: article.source_id || "NewsData",
+      }));
+    },
+  };
+}
+
+export function createExchangeRateAdapter(): Pick<MarketDataProvider, "getFxRates"> {
+  return {
+    async getFxRates(base) {
+      const data = await fetchJson("exchangerate", `${EXCHANGE_RATE_BASE}/${encodeURIComponent(base)}`, exchangeRateSchema);
+      return data.rates ? { base, rates: data.rates } : null;
+    },
+  };
+}
+
+export function createLiveProvider(keys: { finnhub: string; fmp: string; newsData: string }): MarketDataProvider {
+  return {
+    name: "live",
+    ...createFinnhubAdapter(keys.finnhub),
+    ...createFmpAdapter(keys.fmp),
+    ...createNewsDataAdapter(keys.newsData),
+    ...createExchangeRateAdapter(),
+  };
+}
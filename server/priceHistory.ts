@@ -0,0 +1,151 @@
+import type { Candle, HistoricalCandle, HistoryResolution, InsertPriceBar, PriceBar } from "@shared/schema";
+import { storage } from "./storage";
+import { getCandles } from "./marketData";
+import { runWithPriority } from "./rateLimiter";
+import { log } from "./vite";
+
+// Local daily price history. The first backfill of a symbol loads
+// PRICE_HISTORY_YEARS of daily candles through the market data gateway; later
+// ones only fetch from the latest stored day on. A job keeps every held symbol
+// current, and reads backfill on demand when a symbol hasn't been refreshed lately.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_YEARS = Number(process.env.PRICE_HISTORY_YEARS) || 5;
+const REFRESH_MS = (Number(process.env.PRICE_HISTORY_REFRESH_MINUTES) || 60) * 60 * 1000;
+
+const toDate = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`) / 1000;
+
+function toPriceBar(symbol: string, candle: Candle): InsertPriceBar {
+  return {
+    symbol,
+    date: toDate(candle.time),
+    open: String(candle.open),
+    high: String(candle.high),
+    low: String(candle.low),
+    close: String(candle.close),
+    adjustedClose: String(candle.adjustedClose ?? candle.close),
+    volume: String(Math.round(candle.volume)),
+  };
+}
+
+function toCandle(bar: PriceBar): HistoricalCandle {
+  return {
+    time: toTime(bar.date),
+    open: Number(bar.open),
+    high: Number(bar.high),
+    low: Number(bar.low),
+    close: Number(bar.close),
+    adjustedClose: Number(bar.adjustedClose),
+    volume: Number(bar.volume),
+  };
+}
+
+// A later bar's close in the share terms of an earlier one: its adjusted close scaled by the
+// earlier bar's raw-to-adjusted ratio, so a split or dividend in between is not counted as a move
+export function closeInTermsOf(bar: HistoricalCandle, base: HistoricalCandle): number {
+  return bar.adjustedClose * base.close / base.adjustedClose;
+}
+
+const lastRefreshed = new Map<string, number>();
+const inFlight = new Map<string, Promise<number>>();
+
+// Fetches the days missing since the last stored one and returns how many were saved.
+// The latest stored day is fetched again: it may have been saved before the close.
+export function backfillHistory(symbol: string): Promise<number> {
+  symbol = symbol.toUpperCase();
+  const pending = inFlight.get(symbol);
+  if (pending) {
+    return pending;
+  }
+
+  const run = (async () => {
+    const to = new Date();
+    const latest = await storage.getLatestPriceDate(symbol);
+    const from = latest ? new Date(toTime(latest) * 1000) : new Date(to.getTime() - HISTORY_YEARS * 365 * DAY_MS);
+
+    const candles = await getCandles(symbol, "D", from, to);
+    await storage.savePriceHistory(candles.map(candle => toPriceBar(symbol, candle)));
+    lastRefreshed.set(symbol, Date.now());
+    return candles.length;
+  })();
+
+  inFlight.set(symbol, run);
+  return run.finally(() => inFlight.delete(symbol));
+}
+
+// Start of the week (Monday) or month a day falls in
+function periodStart(date: string, resolution: HistoryResolution): string {
+  if (resolution === "M") {
+    return `${date.slice(0, 7)}-01`;
+  }
+  const day = new Date(`${date}T00:00:00Z`);
+  return toDate(toTime(date) - ((day.getUTCDay() + 6) % 7) * 86400);
+}
+
+function rollUp(bars: HistoricalCandle[], resolution: HistoryResolution): HistoricalCandle[] {
+  if (resolution === "D") {
+    return bars;
+  }
+
+  const periods: HistoricalCandle[] = [];
+  let currentPeriod: string | undefined;
+  for (const bar of bars) {
+    const start = periodStart(toDate(bar.time), resolution);
+    const current = periods[periods.length - 1];
+    if (start !== currentPeriod) {
+      currentPeriod = start;
+      periods.push({ ...bar, time: toTime(start) });
+    } else {
+      current.high = Math.max(current.high, bar.high);
+      current.low = Math.min(current.low, bar.low);
+      current.close = bar.close;
+      current.adjustedClose = bar.adjustedClose;
+      current.volume += bar.volume;
+    }
+  }
+  return periods;
+}
+
+// Stored bars between two dates. Refreshes the symbol first when it is due; if that
+// fails, whatever is stored is served, and the error only surfaces when nothing is.
+export async function getHistory(
+  symbol: string,
+  from: Date,
+  to: Date,
+  resolution: HistoryResolution = "D"
+): Promise<HistoricalCandle[]> {
+  symbol = symbol.toUpperCase();
+
+  if (Date.now() - (lastRefreshed.get(symbol) ?? 0) > REFRESH_MS) {
+    try {
+      await backfillHistory(symbol);
+    } catch (error) {
+      if (!(await storage.getLatestPriceDate(symbol))) {
+        throw error;
+      }
+    }
+  }
+
+  const bars = await storage.getPriceHistory(symbol, toDate(from.getTime() / 1000), toDate(to.getTime() / 1000));
+  return rollUp(bars.map(toCandle), resolution);
+}
+
+// Refreshes every held symbol in turn, at background priority so user requests go first
+async function backfillHeldSymbols() {
+  const symbols = await storage.getHeldSymbols();
+  for (const symbol of symbols) {
+    try {
+      const saved = await runWithPriority("background", () => backfillHistory(symbol));
+      log(`${symbol}: ${saved} daily bars saved`, "history");
+    } catch (error) {
+      log(`${symbol}: backfill failed: ${(error as Error).message}`, "history");
+    }
+  }
+}
+
+export function startHistoryBackfill() {
+  const run = () => backfillHeldSymbols().catch(error => log(`backfill failed: ${error.message}`, "history"));
+  run();
+  setInterval(run, REFRESH_MS);
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimitError, RequestScheduler, runWithPriority, type UpstreamService } from "./rateLimiter";
+
+const LIMITS: Record<UpstreamService, string> = {
+  finnhub: "2/sec",
+  fmp: "250/day",
+  newsdata: "200/day",
+  exchangerate: "60/hour",
+};
+
+// A request that records when it started and finishes at once
+function tracked(started: string[], name: string) {
+  return () => {
+    started.push(name);
+    return Promise.resolve(name);
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("RequestScheduler", () => {
+  it("starts requests while tokens last and the rest as the bucket refills", async () => {
+    const scheduler = new RequestScheduler(LIMITS);
+    const started: string[] = [];
+
+    const results = ["a", "b", "c", "d"].map(name => scheduler.schedule("finnhub", tracked(started, name)));
+    expect(started).toEqual(["a", "b"]);
+
+    // Two a second is one token every 500 ms
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toEqual(["a", "b"]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(["a", "b", "c"]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual(["a", "b", "c", "d"]);
+
+    expect(await Promise.all(results)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("refills no more than the bucket holds", async () => {
+    const scheduler = new RequestScheduler(LIMITS);
+    const started: string[] = [];
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    ["a", "b", "c"].forEach(name => scheduler.schedule("finnhub", tracked(started, name)));
+
+    expect(started).toEqual(["a", "b"]);
+  });
+
+  it("serves queued interactive requests before background ones, in order within each", async () => {
+    const scheduler = new RequestScheduler(LIMITS);
+    const started: string[] = [];
+
+    scheduler.schedule("finnhub", tracked(started, "first"));
+    scheduler.schedule("finnhub", tracked(started, "second"));
+    scheduler.schedule("finnhub", tracked(started, "background 1"), "background");
+    scheduler.schedule("finnhub", tracked(started, "background 2"), "background");
+    scheduler.schedule("finnhub", tracked(started, "interactive 1"), "interactive");
+    scheduler.schedule("finnhub", tracked(started, "interactive 2"), "interactive");
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(started).toEqual(["first", "second", "interactive 1", "interactive 2", "background 1", "background 2"]);
+  });
+
+  it("takes the priority of the surrounding context when none is given", async () => {
+    const scheduler = new RequestScheduler(LIMITS);
+    const started: string[] = [];
+
+    scheduler.schedule("finnhub", tracked(started, "first"));
+    scheduler.schedule("finnhub", tracked(started, "second"));
+    runWithPriority("background", () => scheduler.schedule("finnhub", tracked(started, "job")));
+    scheduler.schedule("finnhub", tracked(started, "user"));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(["first", "second", "user", "job"]);
+  });
+
+  it("keeps each service's bucket separate", () => {
+    const scheduler = new RequestScheduler(LIMITS);
+    const started: string[] = [];
+
+    ["a", "b", "c"].forEach(name => scheduler.schedule("finnhub", tracked(started, name)));
+    scheduler.schedule("fmp", tracked(started, "search"));
+
+    expect(started).toEqual(["a", "b", "search"]);
+  });
+
+  it("reports queue depth and the wait a new request can expect", () => {
+    const scheduler = new RequestScheduler(LIMITS);
+
+    ["a", "b", "c"].forEach(name => scheduler.schedule("finnhub", tracked([], name)));
+    scheduler.schedule("finnhub", tracked([], "d"), "background");
+    const finnhub = scheduler.status().find(status => status.service === "finnhub");
+
+    expect(finnhub).toEqual({
+      service: "finnhub",
+      limit: "2/sec",
+      tokens: 0,
+      queued: { interactive: 1, background: 1 },
+      estimatedWaitMs: { interactive: 1000, background: 1500 },
+    });
+  });
+
+  it("rejects requests once the queue is full", async () => {
+    const scheduler = new RequestScheduler(LIMITS);
+
+    for (let i = 0; i < 502; i++) {
+      scheduler.schedule("finnhub", tracked([], String(i)));
+    }
+
+    await expect(scheduler.schedule("finnhub", tracked([], "overflow"))).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it("rejects a malformed limit", () => {
+    expect(() => new RequestScheduler({ ...LIMITS, fmp: "lots" })).toThrow('Invalid rate limit "lots"');
+  });
+});
@@ -0,0 +1,180 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestPriority, UpstreamStatus } from "@shared/schema";
+
+// Upstream services with a quota; requests to each share one token bucket
+export const upstreamServices = ["finnhub", "fmp", "newsdata", "exchangerate"] as const;
+export type UpstreamService = (typeof upstreamServices)[number];
+
+const UNIT_MS: Record<string, number> = {
+  sec: 1000,
+  min: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+// Free-tier quotas; override with e.g. RATE_LIMIT_FINNHUB=300/min
+const DEFAULT_LIMITS: Record<UpstreamService, string> = {
+  finnhub: "60/min",
+  fmp: "250/day",
+  newsdata: "200/day",
+  exchangerate: "60/hour",
+};
+
+export type QueueStatus = Pick<UpstreamStatus, "limit" | "tokens" | "queued" | "estimatedWaitMs"> & {
+  service: UpstreamService;
+};
+
+const MAX_QUEUE_LENGTH = 500;
+
+// Highest priority first
+const PRIORITY_ORDER: RequestPriority[] = ["interactive", "background"];
+
+function parseLimit(limit: string): { requests: number; windowMs: number } {
+  const match = /^(\d+)\/(sec|min|hour|day)$/.exec(limit.trim());
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`Invalid rate limit "${limit}"; expected e.g. "60/min"`);
+  }
+  return { requests: Number(match[1]), windowMs: UNIT_MS[match[2]] };
+}
+
+// Holds up to `capacity` tokens and regains them evenly over the window
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly capacity: number, private refillPerMs: number) {
+    this.tokens = capacity;
+  }
+
+  available(): number {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+    return this.tokens;
+  }
+
+  tryTake(): boolean {
+    if (this.available() >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  // How long until `count` more tokens than are available now have been refilled
+  msUntil(count: number): number {
+    const missing = count - this.available();
+    return missing > 0 ? Math.ceil(missing / this.refillPerMs) : 0;
+  }
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  start: () => void;
+}
+
+export class RateLimitError extends Error {
+  constructor(service: UpstreamService) {
+    super(`${service} request queue is full; rate limit reached`);
+    this.name = "RateLimitError";
+  }
+}
+
+// Queues upstream calls per service and starts them as tokens become available,
+// interactive requests ahead of background ones and FIFO within a priority
+export class RequestScheduler {
+  private buckets = new Map<UpstreamService, TokenBucket>();
+  private queues = new Map<UpstreamService, QueuedRequest[]>();
+  private timers = new Map<UpstreamService, NodeJS.Timeout>();
+
+  constructor(private limits: Record<UpstreamService, string>) {
+    for (const service of upstreamServices) {
+      const { requests, windowMs } = parseLimit(limits[service]);
+      this.buckets.set(service, new TokenBucket(requests, requests / windowMs));
+      this.queues.set(service, []);
+    }
+  }
+
+  schedule<T>(service: UpstreamService, request: () => Promise<T>, priority: RequestPriority = currentPriority()): Promise<T> {
+    const queue = this.queues.get(service)!;
+    if (queue.length >= MAX_QUEUE_LENGTH) {
+      return Promise.reject(new RateLimitError(service));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedRequest = {
+        priority,
+        start: () => request().then(resolve, reject),
+      };
+      // Insert after the last request of the same or higher priority
+      const rank = PRIORITY_ORDER.indexOf(priority);
+      const index = queue.findIndex(item => PRIORITY_ORDER.indexOf(item.priority) > rank);
+      queue.splice(index === -1 ? queue.length : index, 0, queued);
+      this.drain(service);
+    });
+  }
+
+  status(): QueueStatus[] {
+    return upstreamServices.map(service => {
+      const bucket = this.buckets.get(service)!;
+      const queue = this.queues.get(service)!;
+      const queued = Object.fromEntries(PRIORITY_ORDER.map(priority => [
+        priority,
+        queue.filter(item => item.priority === priority).length,
+      ])) as Record<RequestPriority, number>;
+
+      // A new request waits for everything queued at its priority or above
+      let ahead = 0;
+      const estimatedWaitMs = {} as Record<RequestPriority, number>;
+      for (const priority of PRIORITY_ORDER) {
+        ahead += queued[priority];
+        estimatedWaitMs[priority] = bucket.msUntil(ahead + 1);
+      }
+
+      return {
+        service,
+        limit: this.limits[service],
+        tokens: Math.floor(bucket.available()),
+        queued,
+        estimatedWaitMs,
+      };
+    });
+  }
+
+  private drain(service: UpstreamService) {
+    const bucket = this.buckets.get(service)!;
+    const queue = this.queues.get(service)!;
+
+    while (queue.length > 0 && bucket.tryTake()) {
+      queue.shift()!.start();
+    }
+
+    if (queue.length > 0 && !this.timers.has(service)) {
+      this.timers.set(service, setTimeout(() => {
+        this.timers.delete(service);
+        this.drain(service);
+      }, bucket.msUntil(1)));
+    }
+  }
+}
+
+function loadLimits(): Record<UpstreamService, string> {
+  return Object.fromEntries(upstreamServices.map(service => [
+    service,
+    process.env[`RATE_LIMIT_${service.toUpperCase()}`] || DEFAULT_LIMITS[service],
+  ])) as Record<UpstreamService, string>;
+}
+
+export const scheduler = new RequestScheduler(loadLimits());
+
+// The priority of the request being handled travels with its async context, so
+// upstream calls made anywhere below a route inherit it
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+
+export function runWithPriority<T>(priority: RequestPriority, fn: () => T): T {
+  return priorityContext.run(priority, fn);
+}
+
+export function currentPriority(): RequestPriority {
+  return priorityContext.getStore() ?? "interactive";
+}
@@ -0,0 +1,200 @@
+import {
+  recommendationHorizons, recommendationRatings, recommendationSources,
+  type InsertRecommendationRecord, type Recommendation, type RecommendationHistory, type RecommendationHistoryQuery,
+  type RecommendationHorizon, type RecommendationPerformance, type RecommendationRecord, type RecordRecommendation,
+  type TrackedRecommendation
+} from "@shared/schema";
+import { storage, type RecommendationCloses } from "./storage";
+import { closeInTermsOf, getHistory } from "./priceHistory";
+import { getQuote } from "./marketData";
+import { runWithPriority } from "./rateLimiter";
+import { log } from "./vite";
+
+// Track record of recommendations. Each one is kept with the price it was made at and
+// later given the close a week, a month and three months on (the first trading day on
+// or after each), so calls can be judged against what the stock actually did. Those
+// closes are in the share terms of the day of the call, so a split is not a sell signal.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCORING_INTERVAL_MS = 60 * 60 * 1000;
+const HORIZON_DAYS: Record<RecommendationHorizon, number> = { "1w": 7, "1m": 30, "3m": 91 };
+const CLOSE_COLUMNS: Record<RecommendationHorizon, keyof RecommendationCloses> = { "1w": "close1w", "1m": "close1m", "3m": "close3m" };
+const HOLD_BAND = 5; // a hold is right if the price stayed within this many percent
+const BASE_LOOKBACK_DAYS = 7; // enough to reach the last bar before a weekend or holiday
+
+const toDate = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+const today = () => new Date().toISOString().slice(0, 10);
+
+function targetDate(asOf: string, horizon: RecommendationHorizon): string {
+  return new Date(new Date(`${asOf}T00:00:00Z`).getTime() + HORIZON_DAYS[horizon] * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Keeps the factor-scored picks that were shown; the first of each symbol a day counts
+export async function recordRecommendations(recommendations: Recommendation[], userId?: number): Promise<void> {
+  const asOf = today();
+  await storage.saveRecommendations(recommendations.map((recommendation): InsertRecommendationRecord => ({
+    userId: userId ?? null,
+    symbol: recommendation.symbol,
+    source: "score",
+    rating: recommendation.rating,
+    score: recommendation.score.toFixed(2),
+    asOf,
+    currency: recommendation.currency,
+    price: String(recommendation.price),
+    targetPrice: recommendation.targetPrice !== null ? String(recommendation.targetPrice) : null,
+    summary: recommendation.summary,
+  })));
+}
+
+// Keeps a call from the client's news analysis at the current quote, and returns the
+// record that stands for today (an earlier call the same day wins)
+export async function recordAnalysis(call: RecordRecommendation, userId?: number): Promise<TrackedRecommendation> {
+  const quote = await getQuote(call.symbol);
+  const asOf = today();
+  await storage.saveRecommendations([{
+    userId: userId ?? null,
+    symbol: call.symbol,
+    source: "analysis",
+    rating: call.rating,
+    asOf,
+    currency: quote.currency,
+    price: String(quote.price),
+    summary: call.summary ?? null,
+  }]);
+
+  const records = await storage.getRecommendationRecords({ userId, symbol: call.symbol, source: "analysis" });
+  return toTracked(records.filter(record => record.asOf === asOf && (record.userId ?? undefined) === userId)[0]);
+}
+
+// Fills in the closes of every horizon that has come due
+export async function scoreRecommendations(): Promise<number> {
+  const finished = today();
+  const open = await storage.getRecommendationRecords({ settled: false });
+  const due = open.filter(record => targetDate(record.asOf, "1w") < finished);
+
+  const bySymbol = new Map<string, RecommendationRecord[]>();
+  for (const record of due) {
+    bySymbol.set(record.symbol, [...(bySymbol.get(record.symbol) ?? []), record]);
+  }
+
+  let scored = 0;
+  for (const [symbol, records] of Array.from(bySymbol.entries())) {
+    try {
+      const earliest = records.map(record => record.asOf).sort()[0];
+      const from = new Date(Date.parse(`${earliest}T00:00:00Z`) - BASE_LOOKBACK_DAYS * DAY_MS);
+      // Today's bar may still move, so only finished days count
+      const bars = (await getHistory(symbol, from, new Date())).filter(bar => toDate(bar.time) < finished);
+
+      for (const record of records) {
+        const base = bars.filter(bar => toDate(bar.time) <= record.asOf).pop();
+        if (!base) {
+          continue;
+        }
+        const closes: RecommendationCloses = {};
+        for (const horizon of recommendationHorizons) {
+          if (record[CLOSE_COLUMNS[horizon]] !== null) {
+            continue;
+          }
+          const target = targetDate(record.asOf, horizon);
+          const bar = bars.find(bar => toDate(bar.time) >= target);
+          if (bar) {
+            closes[CLOSE_COLUMNS[horizon]] = String(closeInTermsOf(bar, base));
+          }
+        }
+        if (Object.keys(closes).length > 0) {
+          await storage.scoreRecommendation(record.id, closes);
+          scored++;
+        }
+      }
+    } catch (error) {
+      log(`${symbol}: scoring recommendations failed: ${(error as Error).message}`, "recommend");
+    }
+  }
+  return scored;
+}
+
+function toTracked(record: RecommendationRecord): TrackedRecommendation {
+  const price = Number(record.price);
+  return {
+    id: record.id,
+    symbol: record.symbol,
+    source: record.source,
+    rating: record.rating,
+    score: record.score !== null ? Number(record.score) : null,
+    asOf: record.asOf,
+    currency: record.currency,
+    price,
+    targetPrice: record.targetPrice !== null ? Number(record.targetPrice) : null,
+    summary: record.summary,
+    outcomes: recommendationHorizons.map(horizon => {
+      const close = record[CLOSE_COLUMNS[horizon]];
+      return {
+        horizon,
+        targetDate: targetDate(record.asOf, horizon),
+        close: close !== null ? Number(close) : null,
+        return: close !== null ? (Number(close) / price - 1) * 100 : null,
+      };
+    }),
+  };
+}
+
+function isHit(rating: TrackedRecommendation["rating"], change: number): boolean {
+  switch (rating) {
+    case "buy":
+      return change > 0;
+    case "sell":
+      return change < 0;
+    case "hold":
+      return Math.abs(change) <= HOLD_BAND;
+  }
+}
+
+function summarize(tracked: TrackedRecommendation[]): RecommendationPerformance[] {
+  const performance: RecommendationPerformance[] = [];
+  for (const source of recommendationSources) {
+    for (const rating of recommendationRatings) {
+      for (const horizon of recommendationHorizons) {
+        const returns = tracked
+          .filter(recommendation => recommendation.source === source && recommendation.rating === rating)
+          .map(recommendation => recommendation.outcomes.find(outcome => outcome.horizon === horizon)?.return ?? null)
+          .filter((change): change is number => change !== null);
+        if (returns.length === 0) {
+          continue;
+        }
+        performance.push({
+          source,
+          rating,
+          horizon,
+          count: returns.length,
+          hitRate: returns.filter(change => isHit(rating, change)).length / returns.length,
+          averageReturn: returns.reduce((sum, change) => sum + change, 0) / returns.length,
+        });
+      }
+    }
+  }
+  return performance;
+}
+
+// Scores whatever has come due, then lists the latest recommendations with how each
+// source's buy, hold and sell calls have done at every horizon
+export async function getRecommendationHistory(
+  { symbol, source, limit }: RecommendationHistoryQuery,
+  userId?: number
+): Promise<RecommendationHistory> {
+  await scoreRecommendations();
+  const tracked = (await storage.getRecommendationRecords({ userId, symbol, source })).map(toTracked);
+
+  return {
+    recommendations: tracked.slice().reverse().slice(0, limit),
+    performance: summarize(tracked),
+    pending: tracked.filter(recommendation => recommendation.outcomes.some(outcome => outcome.close === null)).length,
+  };
+}
+
+export function startRecommendationScoring() {
+  const run = () => runWithPriority("background", scoreRecommendations)
+    .then(scored => scored > 0 && log(`${scored} recommendations scored`, "recommend"))
+    .catch(error => log(`scoring recommendations failed: ${error.message}`, "recommend"));
+  run();
+  setInterval(run, SCORING_INTERVAL_MS);
+}
@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CompanyFundamentals, HistoricalCandle, NewsArticle, Recommendation } from "@shared/schema";
+import { getRecommendations, scoreSymbol } from "./recommendations";
+import { getFundamentals, getFxRates, getNews, getQuote, MarketDataError } from "./marketData";
+import { getHistory } from "./priceHistory";
+import { getForecast } from "./forecast";
+import { resolveUniverse } from "./screener";
+import { recordRecommendations } from "./recommendationTracking";
+
+vi.mock("./marketData", async () => ({
+  MarketDataError: (await import("./marketProviders")).MarketDataError,
+  getQuote: vi.fn(),
+  getNews: vi.fn(),
+  getFundamentals: vi.fn(),
+  getFxRates: vi.fn(),
+}));
+vi.mock("./priceHistory", () => ({ getHistory: vi.fn() }));
+vi.mock("./forecast", () => ({ getForecast: vi.fn() }));
+vi.mock("./screener", () => ({ resolveUniverse: vi.fn() }));
+vi.mock("./recommendationTracking", () => ({ recordRecommendations: vi.fn() }));
+vi.mock("./vite", () => ({ log: vi.fn() }));
+
+const DAY_SECONDS = 86400;
+
+// Closes growing by `daily` a bar, so the volatility is zero
+function growth(daily: number, count = 100): HistoricalCandle[] {
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 * (1 + daily) ** i;
+    return { time: i * DAY_SECONDS, open: close, high: close, low: close, close, adjustedClose: close, volume: 1000 };
+  });
+}
+
+const article = (title: string): NewsArticle => ({ title, summary: "", url: "https://example.com", published: "2024-06-03", source: "Wire" });
+
+function fundamentals(fields: Partial<CompanyFundamentals> = {}): CompanyFundamentals {
+  return {
+    symbol: "AAA",
+    peRatio: 10,
+    analysts: { strongBuy: 2, buy: 1, hold: 1, sell: 0, strongSell: 0 },
+    targetPrice: 120,
+    ...fields,
+  };
+}
+
+const noData = () => Promise.reject(new MarketDataError("Not covered", "NOT_FOUND"));
+
+const factor = (recommendation: Recommendation, name: string) =>
+  recommendation.factors.find(entry => entry.factor === name)!;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getQuote).mockImplementation(async symbol => ({
+    symbol, name: `${symbol} Inc`, price: 100, change: 0, changePercent: 0, currency: "USD",
+  }));
+  vi.mocked(getHistory).mockResolvedValue(growth(0.001));
+  vi.mocked(getNews).mockResolvedValue([article("Strong growth ahead"), article("Profit beat"), article("Sales decline")]);
+  vi.mocked(getFundamentals).mockResolvedValue(fundamentals());
+});
+
+describe("scoreSymbol", () => {
+  it("scores each factor and weights them into the total", async () => {
+    const recommendation = await scoreSymbol("aaa");
+
+    const momentum = Math.tanh((1.001 ** 63 - 1) / 0.15);
+    expect(factor(recommendation, "momentum").score).toBeCloseTo(momentum, 10);
+    expect(factor(recommendation, "valuation").score).toBe(0.5);
+    expect(factor(recommendation, "sentiment").score).toBeCloseTo(1 / 3, 10);
+    expect(factor(recommendation, "volatility").score).toBeCloseTo(1, 10);
+    expect(factor(recommendation, "analysts").score).toBe(5 / 8);
+
+    const weighted = 0.25 * momentum + 0.2 * 0.5 + 0.15 / 3 + 0.15 * 1 + 0.25 * 5 / 8;
+    expect(recommendation.symbol).toBe("AAA");
+    expect(recommendation.score).toBeCloseTo(50 + 50 * weighted, 6);
+    expect(recommendation.coverage).toBeCloseTo(1);
+    expect(recommendation.rating).toBe("buy");
+  });
+
+  it("rescales the weights over the factors that had data", async () => {
+    vi.mocked(getHistory).mockImplementation(noData);
+    vi.mocked(getNews).mockResolvedValue([]);
+
+    const recommendation = await scoreSymbol("AAA");
+
+    expect(recommendation.coverage).toBeCloseTo(0.45);
+    expect(factor(recommendation, "momentum")).toMatchObject({ score: null, contribution: 0, detail: "No data" });
+    expect(factor(recommendation, "sentiment").score).toBeNull();
+    expect(recommendation.score).toBeCloseTo(50 + 50 * (0.2 * 0.5 + 0.25 * 5 / 8) / 0.45, 6);
+    const contributions = recommendation.factors.reduce((sum, entry) => sum + entry.contribution, 0);
+    expect(contributions).toBeCloseTo(recommendation.score - 50, 10);
+  });
+
+  it("leaves out a history too short for three months", async () => {
+    vi.mocked(getHistory).mockResolvedValue(growth(0.001, 63));
+
+    const recommendation = await scoreSymbol("AAA");
+
+    expect(factor(recommendation, "momentum").score).toBeNull();
+    expect(factor(recommendation, "volatility").score).toBeNull();
+  });
+
+  it("scores a loss-making company as bearish on valuation and caps an expensive one", async () => {
+    vi.mocked(getFundamentals).mockResolvedValueOnce(fundamentals({ peRatio: -4 }));
+    const loss = await scoreSymbol("AAA");
+    vi.mocked(getFundamentals).mockResolvedValueOnce(fundamentals({ peRatio: 80 }));
+    const expensive = await scoreSymbol("AAA");
+
+    expect(factor(loss, "valuation")).toMatchObject({ score: -1, detail: "Loss-making, so no meaningful P/E" });
+    expect(factor(expensive, "valuation").score).toBe(-1);
+  });
+
+  it("ignores analyst ratings that add up to nothing", async () => {
+    vi.mocked(getFundamentals).mockResolvedValue(
+      fundamentals({ analysts: { strongBuy: 0, buy: 0, hold: 0, sell: 0, strongSell: 0 } })
+    );
+
+    expect(factor(await scoreSymbol("AAA"), "analysts").score).toBeNull();
+  });
+
+  it("is a neutral hold when no factor had data", async () => {
+    vi.mocked(getHistory).mockImplementation(noData);
+    vi.mocked(getNews).mockImplementation(noData);
+    vi.mocked(getFundamentals).mockImplementation(noData);
+    vi.mocked(getForecast).mockImplementation(noData);
+
+    const recommendation = await scoreSymbol("AAA");
+
+    expect(recommendation).toMatchObject({
+      score: 50, rating: "hold", coverage: 0, targetPrice: null, targetSource: null, upside: null,
+      summary: "No factor had data, so the score is neutral.",
+    });
+  });
+
+  it("rates by the score thresholds", async () => {
+    vi.mocked(getHistory).mockResolvedValue(growth(-0.01));
+    vi.mocked(getNews).mockResolvedValue([article("Shares decline on weak demand")]);
+    vi.mocked(getFundamentals).mockResolvedValue(
+      fundamentals({ peRatio: 60, analysts: { strongBuy: 0, buy: 0, hold: 1, sell: 2, strongSell: 1 } })
+    );
+
+    const recommendation = await scoreSymbol("AAA");
+
+    expect(recommendation.score).toBeLessThanOrEqual(40);
+    expect(recommendation.rating).toBe("sell");
+    expect(recommendation.summary).toMatch(/^Scores \d+\/100 \(sell\)\. Strongest: volatility/);
+  });
+
+  it("takes the analysts' target, else the one-month forecast", async () => {
+    const fromAnalysts = await scoreSymbol("AAA");
+    expect(fromAnalysts).toMatchObject({ targetPrice: 120, targetSource: "analysts" });
+    expect(fromAnalysts.upside).toBeCloseTo(20);
+    expect(getForecast).not.toHaveBeenCalled();
+
+    vi.mocked(getFundamentals).mockResolvedValue(fundamentals({ targetPrice: null }));
+    vi.mocked(getForecast).mockResolvedValue({
+      points: [{ period: "1d", prediction: 101 }, { period: "1m", prediction: 90 }],
+    } as Awaited<ReturnType<typeof getForecast>>);
+
+    const fromForecast = await scoreSymbol("AAA");
+    expect(getForecast).toHaveBeenCalledWith("AAA", 100);
+    expect(fromForecast).toMatchObject({ targetPrice: 90, targetSource: "forecast" });
+    expect(fromForecast.upside).toBeCloseTo(-10);
+  });
+
+  it("fails without a quote", async () => {
+    vi.mocked(getQuote).mockImplementation(noData);
+
+    await expect(scoreSymbol("AAA")).rejects.toBeInstanceOf(MarketDataError);
+  });
+});
+
+describe("getRecommendations", () => {
+  beforeEach(() => {
+    vi.mocked(resolveUniverse).mockResolvedValue(["AAA", "BBB", "CCC", "DDD"]);
+    vi.mocked(getQuote).mockImplementation(async symbol => {
+      if (symbol === "DDD") {
+        throw new MarketDataError("Stock DDD not found", "NOT_FOUND");
+      }
+      const listing = { AAA: { price: 100, currency: "USD" }, BBB: { price: 9000, currency: "JPY" }, CCC: { price: 50, currency: "XXX" } }[symbol]!;
+      return { symbol, name: `${symbol} Inc`, change: 0, changePercent: 0, ...listing };
+    });
+    // BBB gets the best analyst ratings, AAA and CCC tie
+    vi.mocked(getFundamentals).mockImplementation(async symbol =>
+      symbol === "BBB" ? fundamentals({ analysts: { strongBuy: 5, buy: 0, hold: 0, sell: 0, strongSell: 0 } }) : fundamentals()
+    );
+    vi.mocked(getFxRates).mockResolvedValue({ base: "EUR", rates: { USD: 1.25, JPY: 150 } });
+  });
+
+  it("ranks by score, then symbol, skipping symbols that could not be scored", async () => {
+    const recommendations = await getRecommendations({ universe: "trending", currency: "USD", limit: 5 }, 7);
+
+    expect(recommendations.map(({ symbol }) => symbol)).toEqual(["BBB", "AAA", "CCC"]);
+    expect(getFxRates).not.toHaveBeenCalled();
+    expect(recordRecommendations).toHaveBeenCalledWith(recommendations, 7);
+  });
+
+  it("compares prices in the requested currency and keeps listings without a rate", async () => {
+    const recommendations = await getRecommendations({ universe: "trending", maxPrice: 70, currency: "EUR", limit: 5 });
+
+    // BBB is 60 EUR and AAA 80 EUR; CCC's currency has no rate
+    expect(recommendations.map(({ symbol }) => symbol)).toEqual(["BBB", "CCC"]);
+    expect(getFxRates).toHaveBeenCalledWith("EUR");
+  });
+
+  it("returns at most `limit` recommendations and records only those", async () => {
+    const recommendations = await getRecommendations({ universe: "trending", currency: "USD", limit: 1 });
+
+    expect(recommendations.map(({ symbol }) => symbol)).toEqual(["BBB"]);
+    expect(recordRecommendations).toHaveBeenCalledWith(recommendations, undefined);
+  });
+});
@@ -0,0 +1,234 @@
+import type {
+  CompanyFundamentals, HistoricalCandle, NewsArticle, Quote, Recommendation, RecommendationFactor,
+  RecommendationFactorName, RecommendationQuery
+} from "@shared/schema";
+import { classifySentiment } from "@shared/sentiment";
+import { getFundamentals, getFxRates, getNews, getQuote } from "./marketData";
+import { getHistory } from "./priceHistory";
+import { getForecast } from "./forecast";
+import { logReturns, stdev } from "./forecastModels";
+import { resolveUniverse } from "./screener";
+import { recordRecommendations } from "./recommendationTracking";
+import { log } from "./vite";
+
+// Recommendation scores built from weighted factors, each scored from -1 (bearish) to
+// 1 (bullish) with a sentence on what it saw. Factors without data are left out and the
+// remaining weights rescaled, so a symbol is never marked down for missing coverage;
+// `coverage` says how much of the weight it was scored on.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MOMENTUM_DAYS = 63; // trading days in three months
+const MOMENTUM_SCALE = 0.15; // a 15% move scores about ±0.76
+const MARKET_PE = 20; // P/E that scores as neutral
+const NEUTRAL_VOLATILITY = 0.3; // annualized; calmer stocks score above zero
+const BUY_SCORE = 60;
+const SELL_SCORE = 40;
+
+// Everything the factors read; null where it could not be loaded
+interface FactorInputs {
+  quote: Quote;
+  history: HistoricalCandle[] | null;
+  news: NewsArticle[] | null;
+  fundamentals: CompanyFundamentals | null;
+}
+
+interface FactorDefinition {
+  factor: RecommendationFactorName;
+  label: string;
+  weight: number;
+  measure(inputs: FactorInputs): { score: number; detail: string } | null;
+}
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+const signed = (value: number, digits = 1) => `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+const FACTORS: FactorDefinition[] = [
+  {
+    factor: "momentum",
+    label: "Momentum",
+    weight: 0.25,
+    measure({ history }) {
+      if (!history || history.length <= MOMENTUM_DAYS) {
+        return null;
+      }
+      const last = history[history.length - 1].adjustedClose;
+      const change = last / history[history.length - 1 - MOMENTUM_DAYS].adjustedClose - 1;
+      return { score: Math.tanh(change / MOMENTUM_SCALE), detail: `${signed(change * 100)}% over 3 months` };
+    },
+  },
+  {
+    factor: "valuation",
+    label: "Valuation",
+    weight: 0.2,
+    measure({ fundamentals }) {
+      const pe = fundamentals?.peRatio;
+      if (pe == null) {
+        return null;
+      }
+      if (pe <= 0) {
+        return { score: -1, detail: "Loss-making, so no meaningful P/E" };
+      }
+      return { score: clamp((MARKET_PE - pe) / MARKET_PE), detail: `P/E of ${pe.toFixed(1)} against ${MARKET_PE} for the market` };
+    },
+  },
+  {
+    factor: "sentiment",
+    label: "News sentiment",
+    weight: 0.15,
+    measure({ news }) {
+      if (!news || news.length === 0) {
+        return null;
+      }
+      const sentiments = news.map(article => classifySentiment(`${article.title} ${article.summary}`));
+      const positive = sentiments.filter(sentiment => sentiment === "positive").length;
+      const negative = sentiments.filter(sentiment => sentiment === "negative").length;
+      return {
+        score: (positive - negative) / news.length,
+        detail: `${positive} positive and ${negative} negative of ${news.length} recent article${news.length === 1 ? "" : "s"}`,
+      };
+    },
+  },
+  {
+    factor: "volatility",
+    label: "Volatility",
+    weight: 0.15,
+    measure({ history }) {
+      if (!history || history.length <= MOMENTUM_DAYS) {
+        return null;
+      }
+      const returns = logReturns(history.slice(-(MOMENTUM_DAYS + 1)).map(bar => bar.adjustedClose));
+      const volatility = stdev(returns) * Math.sqrt(252);
+      return {
+        score: clamp((NEUTRAL_VOLATILITY - volatility) / NEUTRAL_VOLATILITY),
+        detail: `${(volatility * 100).toFixed(0)}% annualized volatility over 3 months`,
+      };
+    },
+  },
+  {
+    factor: "analysts",
+    label: "Analyst consensus",
+    weight: 0.25,
+    measure({ fundamentals }) {
+      const ratings = fundamentals?.analysts;
+      const total = ratings ? ratings.strongBuy + ratings.buy + ratings.hold + ratings.sell + ratings.strongSell : 0;
+      if (!ratings || total === 0) {
+        return null;
+      }
+      const balance = 2 * ratings.strongBuy + ratings.buy - ratings.sell - 2 * ratings.strongSell;
+      return {
+        score: balance / (2 * total),
+        detail: `${ratings.strongBuy + ratings.buy} buy, ${ratings.hold} hold and ${ratings.sell + ratings.strongSell} sell ratings`,
+      };
+    },
+  },
+];
+
+const TOTAL_WEIGHT = FACTORS.reduce((sum, { weight }) => sum + weight, 0);
+
+// Logs why an input is missing and carries on without it
+function optional<T>(symbol: string, what: string, load: Promise<T>): Promise<T | null> {
+  return load.catch(error => {
+    log(`${symbol}: no ${what} for scoring: ${(error as Error).message}`, "recommend");
+    return null;
+  });
+}
+
+function describe(score: number, rating: Recommendation["rating"], factors: RecommendationFactor[]): string {
+  const scored = factors.filter(factor => factor.score !== null).sort((a, b) => b.contribution - a.contribution);
+  if (scored.length === 0) {
+    return "No factor had data, so the score is neutral.";
+  }
+  const best = scored[0];
+  const worst = scored[scored.length - 1];
+  const parts = [`Scores ${score.toFixed(0)}/100 (${rating}).`, `Strongest: ${best.label.toLowerCase()} (${signed(best.contribution)}).`];
+  if (worst !== best) {
+    parts.push(`Weakest: ${worst.label.toLowerCase()} (${signed(worst.contribution)}).`);
+  }
+  return parts.join(" ");
+}
+
+// Scores one symbol; throws only if it has no quote
+export async function scoreSymbol(symbol: string): Promise<Recommendation> {
+  symbol = symbol.toUpperCase();
+  const quote = await getQuote(symbol);
+  const now = new Date();
+  const [history, news, fundamentals] = await Promise.all([
+    optional(symbol, "price history", getHistory(symbol, new Date(now.getTime() - 400 * DAY_MS), now)),
+    optional(symbol, "news", getNews(symbol)),
+    optional(symbol, "fundamentals", getFundamentals(symbol)),
+  ]);
+
+  const measured = FACTORS.map(definition => ({ definition, result: definition.measure({ quote, history, news, fundamentals }) }));
+  const scoredWeight = measured.reduce((sum, { definition, result }) => sum + (result ? definition.weight : 0), 0);
+
+  const factors: RecommendationFactor[] = measured.map(({ definition: { factor, label, weight }, result }) => ({
+    factor,
+    label,
+    weight,
+    score: result?.score ?? null,
+    // Points above or below the neutral 50; they add up to score - 50
+    contribution: result && scoredWeight > 0 ? (50 * weight * result.score) / scoredWeight : 0,
+    detail: result?.detail ?? "No data",
+  }));
+
+  const score = 50 + factors.reduce((sum, { contribution }) => sum + contribution, 0);
+  const rating = score >= BUY_SCORE ? "buy" : score <= SELL_SCORE ? "sell" : "hold";
+
+  let targetPrice = fundamentals?.targetPrice ?? null;
+  let targetSource: Recommendation["targetSource"] = targetPrice !== null ? "analysts" : null;
+  if (targetPrice === null) {
+    const forecast = await optional(symbol, "forecast", getForecast(symbol, quote.price));
+    const month = forecast?.points.find(point => point.period === "1m");
+    if (month) {
+      targetPrice = month.prediction;
+      targetSource = "forecast";
+    }
+  }
+
+  return {
+    symbol,
+    name: quote.name,
+    currency: quote.currency,
+    price: quote.price,
+    targetPrice,
+    targetSource,
+    upside: targetPrice !== null ? (targetPrice / quote.price - 1) * 100 : null,
+    score,
+    rating,
+    coverage: scoredWeight / TOTAL_WEIGHT,
+    factors,
+    summary: describe(score, rating, factors),
+  };
+}
+
+// The best-scoring symbols of a screener index, optionally only those priced at most maxPrice;
+// the ones returned are recorded for the track record
+export async function getRecommendations(
+  { universe, maxPrice, currency, limit }: RecommendationQuery,
+  userId?: number
+): Promise<Recommendation[]> {
+  const symbols = await resolveUniverse({ type: "index", id: universe });
+  // Units of each listing currency per unit of `currency`
+  const rates = maxPrice !== undefined ? (await getFxRates(currency)).rates : {};
+
+  // Symbols are scored concurrently; the rate limiter paces the upstream calls
+  const scored = await Promise.all(symbols.map(symbol => scoreSymbol(symbol).catch(error => {
+    log(`${symbol}: scoring failed: ${(error as Error).message}`, "recommend");
+    return null;
+  })));
+
+  const recommendations = scored
+    .filter((recommendation): recommendation is Recommendation => recommendation !== null)
+    .filter(({ price, currency: listing }) => {
+      if (maxPrice === undefined) {
+        return true;
+      }
+      const rate = listing === currency ? 1 : rates[listing];
+      return rate === undefined || price / rate <= maxPrice;
+    })
+    .sort((a, b) => b.score - a.score || a.symbol.localeCompare(b.symbol))
+    .slice(0, limit);
+
+  await recordRecommendations(recommendations, userId);
+  return recommendations;
+}
@@ -1,53 +1,1009 @@
-
-import { Hono } from "hono";
+import type { Express } from "express";
+import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
+import {
+  addHoldingSchema, addWatchlistItemSchema, alertEventQuerySchema, candleQuerySchema, forecastAccuracyQuerySchema, forecastQuerySchema, historyQuerySchema, indicatorNames, indicatorQuerySchema, insertAlertSchema, insertPortfolioSchema, insertScreenSchema,
+  insertTransactionSchema, insertWatchlistSchema, markAlertEventsReadSchema, moveToPortfolioSchema, portfolioFilterSchema, recommendationHistoryQuerySchema, recommendationQuerySchema, recordRecommendationSchema, screenDefinitionSchema, screenerPageSchema, updatePortfolioSchema, updateSettingsSchema,
+  type AlertEventList, type Holding, type Transaction, type WatchlistWithItems
+} from "@shared/schema";
 import { storage } from "./storage";
+import { combinePositions, derivePosition, LedgerError, type LedgerEntry } from "./ledger";
+import {
+  getCacheStats, getCandles, getFxRates, getNews, getQuote, getUpstreamStatus, MarketDataError, searchSymbols
+} from "./marketData";
+import { runWithPriority } from "./rateLimiter";
+import { backfillHistory, getHistory } from "./priceHistory";
+import { ForecastError, getForecast } from "./forecast";
+import { getForecastAccuracy } from "./forecastAccuracy";
+import { modelNames } from "./forecastModels";
+import { getIndicators } from "./indicators";
+import { getUniverses, runScreen, ScreenerError } from "./screener";
+import { getRecommendations } from "./recommendations";
+import { getRecommendationHistory, recordAnalysis } from "./recommendationTracking";
+import { getWatchlistQuotes } from "./watchlists";
+import { currentUserId, setupAuth } from "./auth";
 
-const app = new Hono();
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-// Stock endpoints
-app.get("/api/stocks", async (c) => {
-  try {
-    const stocks = await storage.getStocks();
-    return c.json(stocks);
-  } catch (error) {
-    return c.json({ error: "Failed to fetch stocks" }, 500);
+// Replays a holding's ledger with one entry added, replaced or removed, throwing a LedgerError if it no longer balances
+async function validateLedgerChange(
+  userId: number,
+  portfolioId: number,
+  symbol: string,
+  change: { removeId?: number; entry?: LedgerEntry }
+) {
+  const ledger: LedgerEntry[] = (await storage.getTransactions(userId, { portfolioId, symbol }))
+    .filter(tx => tx.id !== change.removeId);
+  if (change.entry) {
+    ledger.push(change.entry);
   }
-});
+  // Any method fails on the same oversell, so the cheapest one is enough
+  derivePosition(ledger, "average");
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Signup, login and logout; every /api route below needs a session
+  setupAuth(app);
 
-app.post("/api/stocks", async (c) => {
-  try {
-    const { symbol, name } = await c.req.json();
-    
-    if (!symbol || !name) {
-      return c.json({ error: "Symbol and name are required" }, 400);
+  // Portfolio endpoints
+  app.get("/api/portfolios", async (req, res) => {
+    try {
+      res.json(await storage.getPortfolios(currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch portfolios" });
     }
+  });
+
+  app.post("/api/portfolios", async (req, res) => {
+    try {
+      const parsed = insertPortfolioSchema.safeParse(req.body);
 
-    // Check if stock already exists
-    const existing = await storage.getStock(symbol);
-    if (existing && existing.isActive) {
-      return c.json({ error: "Stock already exists" }, 409);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      if ((await storage.getPortfolios(userId)).some(portfolio => portfolio.name === parsed.data.name)) {
+        return res.status(409).json({ error: "A portfolio with that name already exists" });
+      }
+
+      res.status(201).json(await storage.createPortfolio(parsed.data, userId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create portfolio" });
     }
+  });
 
-    const stock = await storage.addStock({
-      symbol: symbol.toUpperCase(),
-      name,
-      userId: undefined // Single user for now
-    });
+  app.put("/api/portfolios/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const parsed = updatePortfolioSchema.safeParse(req.body);
 
-    return c.json(stock);
-  } catch (error) {
-    return c.json({ error: "Failed to add stock" }, 500);
-  }
-});
-
-app.delete("/api/stocks/:symbol", async (c) => {
-  try {
-    const symbol = c.req.param("symbol");
-    await storage.removeStock(symbol);
-    return c.json({ success: true });
-  } catch (error) {
-    return c.json({ error: "Failed to remove stock" }, 500);
-  }
-});
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const portfolios = await storage.getPortfolios(userId);
+      if (!portfolios.some(portfolio => portfolio.id === id)) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+      if (portfolios.some(portfolio => portfolio.id !== id && portfolio.name === parsed.data.name)) {
+        return res.status(409).json({ error: "A portfolio with that name already exists" });
+      }
+
+      res.json(await storage.updatePortfolio(id, parsed.data, userId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update portfolio" });
+    }
+  });
+
+  // Only an empty portfolio can go, and never the last one
+  app.delete("/api/portfolios/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const userId = currentUserId(req);
+      const portfolios = await storage.getPortfolios(userId);
+      if (!portfolios.some(portfolio => portfolio.id === id)) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+      if (portfolios.length === 1) {
+        return res.status(409).json({ error: "The last portfolio cannot be removed" });
+      }
+
+      // Refused while it has active holdings
+      if (!(await storage.removePortfolio(id, userId))) {
+        return res.status(409).json({ error: "Remove the portfolio's holdings first" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove portfolio" });
+    }
+  });
+
+  // Stock endpoints; without portfolioId, holdings of every portfolio with a symbol
+  // held in several merged into one
+  app.get("/api/stocks", async (req, res) => {
+    try {
+      const parsed = portfolioFilterSchema.pick({ portfolioId: true }).safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const { portfolioId } = parsed.data;
+      // Also moves holdings from before portfolios into the default one
+      const portfolios = await storage.getPortfolios(userId);
+      if (portfolioId && !portfolios.some(portfolio => portfolio.id === portfolioId)) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const [stocks, ledger] = await Promise.all([
+        storage.getStocks(userId, portfolioId),
+        storage.getTransactions(userId, { portfolioId })
+      ]);
+      // Each holding is matched with its own portfolio's method
+      const methods = new Map(portfolios.map(portfolio => [portfolio.id, portfolio.costBasisMethod]));
+
+      const ledgerByHolding = new Map<string, Transaction[]>();
+      for (const tx of ledger) {
+        const key = `${tx.portfolioId}:${tx.symbol}`;
+        ledgerByHolding.set(key, [...(ledgerByHolding.get(key) ?? []), tx]);
+      }
+
+      const holdings: Holding[] = stocks.map(stock => ({
+        ...stock,
+        ...derivePosition(ledgerByHolding.get(`${stock.portfolioId}:${stock.symbol}`) ?? [], methods.get(stock.portfolioId!)!)
+      }));
+      if (portfolioId) {
+        return res.json(holdings);
+      }
+
+      const bySymbol = new Map<string, Holding[]>();
+      for (const holding of holdings) {
+        bySymbol.set(holding.symbol, [...(bySymbol.get(holding.symbol) ?? []), holding]);
+      }
+      res.json(Array.from(bySymbol.values()).map((held): Holding => ({
+        ...held[0],
+        ...combinePositions(held),
+        portfolioId: held.length === 1 ? held[0].portfolioId : null,
+        byPortfolio: held.map(holding => ({ portfolioId: holding.portfolioId!, quantity: holding.quantity }))
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stocks" });
+    }
+  });
+
+  app.post("/api/stocks", async (req, res) => {
+    try {
+      const parsed = addHoldingSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const { quantity, averageCost, purchaseDate, portfolioId, ...holding } = parsed.data;
+      const portfolio = await storage.getPortfolio(portfolioId, userId);
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      // Check if stock already exists
+      const existing = await storage.getStock(holding.symbol, userId, portfolioId);
+      if (existing && existing.isActive) {
+        return res.status(409).json({ error: "Stock already exists" });
+      }
+
+      const stock = await storage.addStock({ ...holding, symbol: holding.symbol.toUpperCase(), portfolioId }, userId);
+
+      // Record the opening position in the ledger
+      if (quantity) {
+        await storage.addTransaction({
+          symbol: stock.symbol,
+          portfolioId,
+          type: "buy",
+          quantity: String(quantity),
+          price: String(averageCost ?? 0),
+          executedAt: purchaseDate ?? new Date()
+        }, userId);
+      }
+
+      // Load the new holding's history ahead of its first chart
+      runWithPriority("background", () => backfillHistory(stock.symbol)).catch(() => {});
+
+      const transactions = await storage.getTransactions(userId, { portfolioId, symbol: stock.symbol });
+      res.json({ ...stock, ...derivePosition(transactions, portfolio.costBasisMethod) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to add stock" });
+    }
+  });
+
+  app.delete("/api/stocks/:symbol", async (req, res) => {
+    try {
+      const parsed = portfolioFilterSchema.pick({ portfolioId: true }).required().safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      await storage.removeStock(req.params.symbol, currentUserId(req), parsed.data.portfolioId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove stock" });
+    }
+  });
+
+  // Settings endpoints
+  app.get("/api/settings", async (req, res) => {
+    try {
+      res.json(await storage.getSettings(currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", async (req, res) => {
+    try {
+      const parsed = updateSettingsSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.json(await storage.updateSettings(parsed.data, currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update settings" });
+    }
+  });
+
+  // Transaction ledger endpoints
+  app.get("/api/transactions", async (req, res) => {
+    try {
+      const parsed = portfolioFilterSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const transactions = await storage.getTransactions(currentUserId(req), parsed.data);
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch transactions" });
+    }
+  });
+
+  app.get("/api/transactions/:id", async (req, res) => {
+    try {
+      const transaction = await storage.getTransaction(Number(req.params.id), currentUserId(req));
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      res.json(transaction);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch transaction" });
+    }
+  });
+
+  app.post("/api/transactions", async (req, res) => {
+    try {
+      const parsed = insertTransactionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const { symbol, portfolioId } = parsed.data;
+      const stock = await storage.getStock(symbol, userId, portfolioId);
+      if (!stock || !stock.isActive) {
+        return res.status(404).json({ error: `${symbol} is not in the portfolio` });
+      }
+
+      await validateLedgerChange(userId, portfolioId, symbol, { entry: parsed.data });
+      const transaction = await storage.addTransaction(parsed.data, userId);
+
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to add transaction" });
+    }
+  });
+
+  app.put("/api/transactions/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const parsed = insertTransactionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const existing = await storage.getTransaction(id, userId);
+      if (!existing) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+
+      const { symbol, portfolioId } = parsed.data;
+      if (!(await storage.getPortfolio(portfolioId, userId))) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+      const stock = await storage.getStock(symbol, userId, portfolioId);
+      if (!stock || !stock.isActive) {
+        return res.status(404).json({ error: `${symbol} is not in the portfolio` });
+      }
+
+      // Moving an entry to another symbol or portfolio changes both ledgers
+      if (existing.symbol !== symbol || existing.portfolioId !== portfolioId) {
+        await validateLedgerChange(userId, existing.portfolioId!, existing.symbol, { removeId: id });
+      }
+      await validateLedgerChange(userId, portfolioId, symbol, { removeId: id, entry: { ...parsed.data, id } });
+      const transaction = await storage.updateTransaction(id, parsed.data, userId);
+
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update transaction" });
+    }
+  });
+
+  app.delete("/api/transactions/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const userId = currentUserId(req);
+      const existing = await storage.getTransaction(id, userId);
+      if (!existing) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+
+      await validateLedgerChange(userId, existing.portfolioId!, existing.symbol, { removeId: id });
+      await storage.removeTransaction(id, userId);
+
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to remove transaction" });
+    }
+  });
+
+  // Market data gateway; upstream API keys stay on the server.
+  // Requests from users are interactive; only the server's own jobs run at background priority.
+  app.use(["/api/quotes", "/api/candles", "/api/history", "/api/indicators", "/api/forecast", "/api/forecasts", "/api/news", "/api/search", "/api/fx", "/api/screener", "/api/recommendations"], (_req, _res, next) => {
+    runWithPriority("interactive", next);
+  });
+
+  app.get("/api/quotes/:symbol", async (req, res) => {
+    try {
+      res.json(await getQuote(req.params.symbol));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to fetch quote" });
+    }
+  });
+
+  app.get("/api/candles/:symbol", async (req, res) => {
+    try {
+      const parsed = candleQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const to = parsed.data.to ?? new Date();
+      const from = parsed.data.from ?? new Date(to.getTime() - 30 * DAY_MS);
+      if (from > to) {
+        return res.status(400).json({ error: "from must not be after to" });
+      }
+
+      res.json(await getCandles(req.params.symbol, parsed.data.resolution, from, to));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to fetch candles" });
+    }
+  });
+
+  // Daily bars from the local price history, rolled up for W and M
+  app.get("/api/history/:symbol", async (req, res) => {
+    try {
+      const parsed = historyQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const to = parsed.data.to ?? new Date();
+      const from = parsed.data.from ?? new Date(to.getTime() - 365 * DAY_MS);
+      if (from > to) {
+        return res.status(400).json({ error: "from must not be after to" });
+      }
+
+      res.json(await getHistory(req.params.symbol, from, to, parsed.data.resolution));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to fetch price history" });
+    }
+  });
+
+  // Technical indicators over the stored history, one row per bar of the range
+  app.get("/api/indicators/:symbol", async (req, res) => {
+    try {
+      const parsed = indicatorQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const to = parsed.data.to ?? new Date();
+      const from = parsed.data.from ?? new Date(to.getTime() - 365 * DAY_MS);
+      if (from > to) {
+        return res.status(400).json({ error: "from must not be after to" });
+      }
+
+      res.json(await getIndicators(
+        req.params.symbol,
+        parsed.data.indicators ?? indicatorNames,
+        from,
+        to,
+        parsed.data.resolution
+      ));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to compute indicators" });
+    }
+  });
+
+  app.get("/api/forecast/:symbol", async (req, res) => {
+    try {
+      const parsed = forecastQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      if (parsed.data.model && !modelNames.includes(parsed.data.model)) {
+        return res.status(400).json({ error: `Unknown forecast model, expected one of ${modelNames.join(", ")}` });
+      }
+
+      res.json(await getForecast(req.params.symbol, parsed.data.price, parsed.data.model));
+    } catch (error) {
+      if (error instanceof ForecastError) {
+        return res.status(422).json({ error: error.message });
+      }
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to compute forecast" });
+    }
+  });
+
+  // Backtest of stored forecasts against the closes that followed
+  app.get("/api/forecasts/accuracy", async (req, res) => {
+    try {
+      const parsed = forecastAccuracyQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.json(await getForecastAccuracy(parsed.data));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to compute forecast accuracy" });
+    }
+  });
+
+  app.get("/api/news/:symbol", async (req, res) => {
+    try {
+      res.json(await getNews(req.params.symbol));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to fetch news" });
+    }
+  });
+
+  app.get("/api/search", async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.status(400).json({ error: "Query parameter q is required" });
+      }
+
+      res.json(await searchSymbols(query));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to search symbols" });
+    }
+  });
+
+  app.get("/api/fx", async (req, res) => {
+    try {
+      const base = typeof req.query.base === "string" ? req.query.base : "USD";
+      if (!/^[A-Za-z]{3}$/.test(base)) {
+        return res.status(400).json({ error: "base must be a 3-letter ISO currency code" });
+      }
+
+      res.json(await getFxRates(base));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to fetch exchange rates" });
+    }
+  });
+
+  // Index lists and exchanges a screen can run over
+  app.get("/api/screener/universes", async (req, res) => {
+    try {
+      res.json(await getUniverses(currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch screener universes" });
+    }
+  });
+
+  // Runs an unsaved screen; the body is its definition, the query picks the page
+  app.post("/api/screener", async (req, res) => {
+    try {
+      const definition = screenDefinitionSchema.safeParse(req.body);
+      const page = screenerPageSchema.safeParse(req.query);
+
+      if (!definition.success) {
+        return res.status(400).json({ error: fromZodError(definition.error).message });
+      }
+      if (!page.success) {
+        return res.status(400).json({ error: fromZodError(page.error).message });
+      }
+
+      res.json(await runScreen(definition.data, page.data, currentUserId(req)));
+    } catch (error) {
+      if (error instanceof ScreenerError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to run screen" });
+    }
+  });
+
+  app.get("/api/screens", async (req, res) => {
+    try {
+      res.json(await storage.getScreens(currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch screens" });
+    }
+  });
+
+  app.post("/api/screens", async (req, res) => {
+    try {
+      const parsed = insertScreenSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.json(await storage.createScreen(parsed.data, currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save screen" });
+    }
+  });
+
+  app.put("/api/screens/:id", async (req, res) => {
+    try {
+      const parsed = insertScreenSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const screen = await storage.updateScreen(Number(req.params.id), parsed.data, currentUserId(req));
+      if (!screen) {
+        return res.status(404).json({ error: "Screen not found" });
+      }
+      res.json(screen);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update screen" });
+    }
+  });
+
+  app.delete("/api/screens/:id", async (req, res) => {
+    try {
+      const removed = await storage.removeScreen(Number(req.params.id), currentUserId(req));
+      if (!removed) {
+        return res.status(404).json({ error: "Screen not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove screen" });
+    }
+  });
+
+  // Runs a saved screen
+  app.get("/api/screens/:id/results", async (req, res) => {
+    try {
+      const page = screenerPageSchema.safeParse(req.query);
+
+      if (!page.success) {
+        return res.status(400).json({ error: fromZodError(page.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const screen = await storage.getScreen(Number(req.params.id), userId);
+      if (!screen) {
+        return res.status(404).json({ error: "Screen not found" });
+      }
+      res.json(await runScreen(screen.definition, page.data, userId));
+    } catch (error) {
+      if (error instanceof ScreenerError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to run screen" });
+    }
+  });
+
+  // Factor-scored picks from a screener index, best first, with each factor's contribution
+  app.get("/api/recommendations", async (req, res) => {
+    try {
+      const parsed = recommendationQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.json(await getRecommendations(parsed.data, currentUserId(req)));
+    } catch (error) {
+      if (error instanceof ScreenerError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to compute recommendations" });
+    }
+  });
+
+  // Past recommendations with their closes 1w, 1m and 3m on, and hit rates per source and rating
+  app.get("/api/recommendations/history", async (req, res) => {
+    try {
+      const parsed = recommendationHistoryQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.json(await getRecommendationHistory(parsed.data, currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recommendation history" });
+    }
+  });
+
+  // Records a BUY/HOLD/SELL call from the client's news analysis at the current quote
+  app.post("/api/recommendations/history", async (req, res) => {
+    try {
+      const parsed = recordRecommendationSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.status(201).json(await recordAnalysis(parsed.data, currentUserId(req)));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to record recommendation" });
+    }
+  });
+
+  // Watchlist endpoints; symbols followed without holding them, so they stay out of the portfolio totals
+  app.get("/api/watchlists", async (req, res) => {
+    try {
+      const userId = currentUserId(req);
+      const watchlists = await storage.getWatchlists(userId);
+      res.json(await Promise.all(watchlists.map(async (watchlist): Promise<WatchlistWithItems> => ({
+        ...watchlist,
+        items: await storage.getWatchlistItems(watchlist.id, userId)
+      }))));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch watchlists" });
+    }
+  });
+
+  app.post("/api/watchlists", async (req, res) => {
+    try {
+      const parsed = insertWatchlistSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      if ((await storage.getWatchlists(userId)).some(watchlist => watchlist.name === parsed.data.name)) {
+        return res.status(409).json({ error: "A watchlist with that name already exists" });
+      }
+
+      const watchlist = await storage.createWatchlist(parsed.data, userId);
+      res.status(201).json({ ...watchlist, items: [] });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create watchlist" });
+    }
+  });
+
+  app.put("/api/watchlists/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const parsed = insertWatchlistSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const watchlists = await storage.getWatchlists(userId);
+      if (!watchlists.some(watchlist => watchlist.id === id)) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      if (watchlists.some(watchlist => watchlist.id !== id && watchlist.name === parsed.data.name)) {
+        return res.status(409).json({ error: "A watchlist with that name already exists" });
+      }
+
+      const watchlist = await storage.updateWatchlist(id, parsed.data, userId);
+      res.json({ ...watchlist, items: await storage.getWatchlistItems(id, userId) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update watchlist" });
+    }
+  });
+
+  app.delete("/api/watchlists/:id", async (req, res) => {
+    try {
+      const removed = await storage.removeWatchlist(Number(req.params.id), currentUserId(req));
+      if (!removed) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove watchlist" });
+    }
+  });
+
+  app.get("/api/watchlists/:id/quotes", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const userId = currentUserId(req);
+      if (!(await storage.getWatchlist(id, userId))) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+
+      res.json(await getWatchlistQuotes(await storage.getWatchlistItems(id, userId)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch watchlist quotes" });
+    }
+  });
+
+  // The quote confirms the symbol exists and gives its name and currency
+  app.post("/api/watchlists/:id/items", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const parsed = addWatchlistItemSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      if (!(await storage.getWatchlist(id, userId))) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      if ((await storage.getWatchlistItems(id, userId)).some(item => item.symbol === parsed.data.symbol)) {
+        return res.status(409).json({ error: `${parsed.data.symbol} is already on the watchlist` });
+      }
+
+      const quote = await getQuote(parsed.data.symbol);
+      const item = await storage.addWatchlistItem({
+        watchlistId: id,
+        symbol: quote.symbol,
+        name: quote.name,
+        currency: quote.currency
+      }, userId);
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to add to watchlist" });
+    }
+  });
+
+  app.delete("/api/watchlists/:id/items/:symbol", async (req, res) => {
+    try {
+      const removed = await storage.removeWatchlistItem(Number(req.params.id), req.params.symbol, currentUserId(req));
+      if (!removed) {
+        return res.status(404).json({ error: "Symbol not on the watchlist" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove from watchlist" });
+    }
+  });
+
+  // Buys a watched symbol into a portfolio, opening the holding if needed, and takes it off the watchlist
+  app.post("/api/watchlists/:id/items/:symbol/move", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const parsed = moveToPortfolioSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const { portfolioId, quantity, fees, executedAt } = parsed.data;
+      const item = (await storage.getWatchlistItems(id, userId)).find(item => item.symbol === req.params.symbol.toUpperCase());
+      if (!item) {
+        return res.status(404).json({ error: "Symbol not on the watchlist" });
+      }
+      const portfolio = await storage.getPortfolio(portfolioId, userId);
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const price = parsed.data.price ?? (await getQuote(item.symbol)).price;
+      const existing = await storage.getStock(item.symbol, userId, portfolioId);
+      const stock = existing && existing.isActive
+        ? existing
+        : await storage.addStock({ symbol: item.symbol, name: item.name, currency: item.currency, portfolioId }, userId);
+
+      await storage.addTransaction({
+        symbol: stock.symbol,
+        portfolioId,
+        type: "buy",
+        quantity: String(quantity),
+        price: String(price),
+        fees: fees !== undefined ? String(fees) : undefined,
+        executedAt: executedAt ?? new Date()
+      }, userId);
+      await storage.removeWatchlistItem(id, item.symbol, userId);
+
+      if (stock !== existing) {
+        runWithPriority("background", () => backfillHistory(stock.symbol)).catch(() => {});
+      }
+
+      const transactions = await storage.getTransactions(userId, { portfolioId, symbol: stock.symbol });
+      res.status(201).json({ ...stock, ...derivePosition(transactions, portfolio.costBasisMethod) });
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to move to portfolio" });
+    }
+  });
+
+  // Alert endpoints; the scheduler in alerts.ts checks active alerts and records what fired
+  app.get("/api/alerts", async (req, res) => {
+    try {
+      res.json(await storage.getAlerts(currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alerts" });
+    }
+  });
+
+  // The quote confirms the symbol exists before anything is watched
+  app.post("/api/alerts", async (req, res) => {
+    try {
+      const parsed = insertAlertSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const quote = await getQuote(parsed.data.symbol);
+      const alert = await storage.createAlert({ ...parsed.data, symbol: quote.symbol }, currentUserId(req));
+      res.status(201).json(alert);
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to create alert" });
+    }
+  });
+
+  app.put("/api/alerts/:id", async (req, res) => {
+    try {
+      const parsed = insertAlertSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const existing = await storage.getAlert(Number(req.params.id), userId);
+      if (!existing) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      // A new symbol is stored as the provider names it, as when the alert was created
+      const symbol = parsed.data.symbol.toUpperCase() === existing.symbol
+        ? existing.symbol
+        : (await getQuote(parsed.data.symbol)).symbol;
+
+      res.json(await storage.updateAlert(existing.id, { ...parsed.data, symbol }, userId));
+    } catch (error) {
+      if (error instanceof MarketDataError) {
+        return res.status(error.status).json(error.toBody());
+      }
+      res.status(500).json({ error: "Failed to update alert" });
+    }
+  });
+
+  app.delete("/api/alerts/:id", async (req, res) => {
+    try {
+      const removed = await storage.removeAlert(Number(req.params.id), currentUserId(req));
+      if (!removed) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove alert" });
+    }
+  });
+
+  // Triggered alerts, newest first, with the unread count for the header
+  app.get("/api/alerts/events", async (req, res) => {
+    try {
+      const parsed = alertEventQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const userId = currentUserId(req);
+      const list: AlertEventList = {
+        events: await storage.getAlertEvents(userId, parsed.data),
+        unread: await storage.countUnreadAlertEvents(userId)
+      };
+      res.json(list);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alert history" });
+    }
+  });
+
+  app.post("/api/alerts/events/read", async (req, res) => {
+    try {
+      const parsed = markAlertEventsReadSchema.safeParse(req.body ?? {});
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.json({ updated: await storage.markAlertEventsRead(currentUserId(req), parsed.data.ids) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to mark alerts read" });
+    }
+  });
+
+  // Queue depth, estimated wait and circuit state per upstream service
+  app.get("/api/market/status", (_req, res) => {
+    res.json(getUpstreamStatus());
+  });
+
+  // Hit/miss counters of the market data cache
+  app.get("/api/cache/stats", (_req, res) => {
+    res.json(getCacheStats());
+  });
+
+  const httpServer = createServer(app);
 
-export default app;
+  return httpServer;
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { screenDefinitionSchema, type CompanyProfile, type Quote } from "@shared/schema";
+import { runScreen, ScreenerError } from "./screener";
+import { getCompanyProfile, getQuote, MarketDataError } from "./marketData";
+import { getIndicators } from "./indicators";
+import { getHistory } from "./priceHistory";
+import { storage } from "./storage";
+
+vi.mock("./marketData", async () => ({
+  MarketDataError: (await import("./marketProviders")).MarketDataError,
+  getQuote: vi.fn(),
+  getCompanyProfile: vi.fn(),
+}));
+vi.mock("./indicators", () => ({ getIndicators: vi.fn() }));
+vi.mock("./priceHistory", () => ({ getHistory: vi.fn() }));
+vi.mock("./storage", () => ({ storage: { getStocks: vi.fn() } }));
+
+const INSTRUMENTS: Record<string, { quote: Partial<Quote>; profile: Partial<CompanyProfile>; rsi: number | null; volume: number }> = {
+  AAA: { quote: { price: 50, changePercent: 1.5 }, profile: { exchange: "NASDAQ", sector: "Technology", marketCap: 2e9 }, rsi: 25, volume: 1000 },
+  BBB: { quote: { price: 150, changePercent: -2 }, profile: { exchange: "NYSE", sector: "Health Care", marketCap: 5e11 }, rsi: 55, volume: 5000 },
+  CCC: { quote: { price: 100, changePercent: 0.5 }, profile: { exchange: "NASDAQ", sector: "technology", marketCap: null }, rsi: null, volume: 300 },
+  DDD: { quote: { price: 20, changePercent: 3 }, profile: { exchange: "NYSE", sector: "Energy", marketCap: 1e8 }, rsi: 75, volume: 2000 },
+};
+const ALL = Object.keys(INSTRUMENTS);
+
+const page = { page: 1, pageSize: 25 };
+
+// Screens are cached by definition for a minute, so every test screens its own universe
+const custom = (symbols: string[], criteria: Record<string, unknown> = {}) =>
+  screenDefinitionSchema.parse({ universe: { type: "custom", symbols }, ...criteria });
+
+const symbolsOf = (rows: { symbol: string }[]) => rows.map(row => row.symbol);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getQuote).mockImplementation(async symbol => {
+    const found = INSTRUMENTS[symbol];
+    if (!found) {
+      throw new MarketDataError(`Stock ${symbol} not found`, "NOT_FOUND");
+    }
+    return { symbol, name: `${symbol} Inc`, change: 1, currency: "USD", price: 0, changePercent: 0, ...found.quote };
+  });
+  vi.mocked(getCompanyProfile).mockImplementation(async symbol => ({
+    symbol, name: `${symbol} Inc`, currency: "USD", exchange: null, sector: null, marketCap: null, ...INSTRUMENTS[symbol].profile,
+  }));
+  vi.mocked(getIndicators).mockImplementation(async (symbol, names) => ({
+    symbol,
+    resolution: "D",
+    indicators: [...names],
+    parameters: {} as never,
+    values: [{ time: 1, rsi: 10, macd: 1, macdSignal: 1 }, { time: 2, rsi: INSTRUMENTS[symbol].rsi, macd: 2, macdSignal: 1 }],
+  }));
+  vi.mocked(getHistory).mockImplementation(async symbol => [
+    { time: 1, open: 1, high: 1, low: 1, close: 1, adjustedClose: 1, volume: INSTRUMENTS[symbol].volume },
+  ]);
+  vi.mocked(storage.getStocks).mockResolvedValue([]);
+});
+
+describe("runScreen", () => {
+  it("keeps symbols within the price and change ranges, bounds included", async () => {
+    const { rows, total, universeSize } = await runScreen(custom(["DDD", "BBB", "AAA", "CCC"], {
+      price: { min: 50, max: 100 },
+      changePercent: { min: 0.5 },
+    }), page);
+
+    expect(symbolsOf(rows)).toEqual(["AAA", "CCC"]);
+    expect(total).toBe(2);
+    expect(universeSize).toBe(4);
+  });
+
+  it("checks the quote before fetching anything else", async () => {
+    await runScreen(custom(["AAA", "BBB"], { price: { max: 100 } }), page);
+
+    expect(getCompanyProfile).toHaveBeenCalledTimes(1);
+    expect(getCompanyProfile).toHaveBeenCalledWith("AAA");
+    expect(getIndicators).not.toHaveBeenCalled();
+    expect(getHistory).not.toHaveBeenCalled();
+  });
+
+  it("drops a symbol without the value a range asks for", async () => {
+    const { rows } = await runScreen(custom(["AAA", "CCC"], { marketCap: { min: 0 } }), page);
+
+    expect(symbolsOf(rows)).toEqual(["AAA"]);
+  });
+
+  it("matches sectors regardless of case", async () => {
+    const { rows } = await runScreen(custom(ALL, { sectors: ["TECHNOLOGY", "energy"] }), page);
+
+    expect(symbolsOf(rows)).toEqual(["AAA", "CCC", "DDD"]);
+  });
+
+  it("narrows an exchange universe to the known symbols listed there, holdings included", async () => {
+    vi.mocked(storage.getStocks).mockResolvedValue([{ symbol: "CCC" }] as Awaited<ReturnType<typeof storage.getStocks>>);
+
+    const definition = screenDefinitionSchema.parse({ universe: { type: "exchange", exchange: "nasdaq" }, price: { max: 100 } });
+    const { rows } = await runScreen(definition, page, 1);
+
+    expect(symbolsOf(rows)).toContain("CCC");
+    expect(rows.every(row => row.exchange === "NASDAQ")).toBe(true);
+  });
+
+  it("compares the latest indicator values and fails symbols without one", async () => {
+    const { rows } = await runScreen(custom(ALL, {
+      indicators: [{ field: "rsi", operator: "<", value: 60 }, { field: "macd", operator: ">", value: 1.5 }],
+    }), page);
+
+    expect(symbolsOf(rows)).toEqual(["AAA", "BBB"]);
+    expect(rows[0].indicators).toEqual({ rsi: 25, macd: 2 });
+  });
+
+  it("fetches each indicator once however many of its fields are used", async () => {
+    await runScreen(custom(["AAA"], {
+      indicators: [{ field: "macd", operator: ">", value: 0 }, { field: "macdSignal", operator: ">", value: 0 }],
+    }), page);
+
+    expect(vi.mocked(getIndicators).mock.calls[0][1]).toEqual(["macd"]);
+  });
+
+  it("filters on the last bar's volume", async () => {
+    const { rows } = await runScreen(custom(ALL, { volume: { min: 1000, max: 2000 } }), page);
+
+    expect(symbolsOf(rows)).toEqual(["AAA", "DDD"]);
+    expect(rows.map(row => row.volume)).toEqual([1000, 2000]);
+  });
+
+  it("sorts by a field either way with missing values last", async () => {
+    const descending = await runScreen(custom(ALL, { sortBy: "marketCap", sortDirection: "desc" }), page);
+    const ascending = await runScreen(custom([...ALL].reverse(), { sortBy: "marketCap" }), page);
+
+    expect(symbolsOf(descending.rows)).toEqual(["BBB", "AAA", "DDD", "CCC"]);
+    expect(symbolsOf(ascending.rows)).toEqual(["DDD", "AAA", "BBB", "CCC"]);
+  });
+
+  it("pages through the results", async () => {
+    const definition = custom(["AAA", "BBB", "CCC", "DDD"], { sortBy: "price" });
+
+    const second = await runScreen(definition, { page: 2, pageSize: 3 });
+
+    expect(symbolsOf(second.rows)).toEqual(["BBB"]);
+    expect(second).toMatchObject({ total: 4, page: 2, pageSize: 3 });
+    expect(getQuote).toHaveBeenCalledTimes(4);
+  });
+
+  it("lists symbols the market data gateway failed on and keeps screening the rest", async () => {
+    const { rows, failed } = await runScreen(custom(["AAA", "ZZZ", "YYY"]), page);
+
+    expect(symbolsOf(rows)).toEqual(["AAA"]);
+    expect(failed).toEqual(["YYY", "ZZZ"]);
+  });
+
+  it("rejects an unknown index and a universe over the size limit", async () => {
+    const unknown = screenDefinitionSchema.parse({ universe: { type: "index", id: "ftse9000" } });
+    const huge = custom(Array.from({ length: 201 }, (_, i) => `S${i}`));
+
+    await expect(runScreen(unknown, page)).rejects.toBeInstanceOf(ScreenerError);
+    await expect(runScreen(huge, page)).rejects.toThrow("at most 200 symbols");
+  });
+});
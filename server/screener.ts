@@ -0,0 +1,244 @@
+import fs from "fs";
+import {
+  indicatorFields,
+  type IndicatorName, type ScreenDefinition, type ScreenerPage, type ScreenerResults,
+  type ScreenerRow, type ScreenerUniverses
+} from "@shared/schema";
+import { getCompanyProfile, getQuote, MarketDataError } from "./marketData";
+import { getHistory } from "./priceHistory";
+import { getIndicators } from "./indicators";
+import { storage } from "./storage";
+
+// Stock screener. A screen runs over a universe of symbols and keeps the ones that meet
+// all of its criteria, checking the cheap ones (quote, then profile) before anything that
+// needs price history. Results are kept for a minute so paging through them doesn't
+// refetch the universe.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RESULTS_TTL_MS = 60 * 1000;
+const MAX_SYMBOLS = Number(process.env.SCREENER_MAX_SYMBOLS) || 200;
+
+interface IndexList {
+  name: string;
+  symbols: string[];
+}
+
+// Built-in index lists; SCREENER_UNIVERSES may name a JSON file of more, in the same
+// shape, which also replaces built-in lists with the same id
+const BUILT_IN_INDICES: Record<string, IndexList> = {
+  dow30: {
+    name: "Dow Jones Industrial Average",
+    symbols: [
+      "AAPL", "AMGN", "AMZN", "AXP", "BA", "CAT", "CRM", "CSCO", "CVX", "DIS", "GS", "HD", "HON", "IBM", "JNJ",
+      "JPM", "KO", "MCD", "MMM", "MRK", "MSFT", "NKE", "NVDA", "PG", "SHW", "TRV", "UNH", "V", "VZ", "WMT",
+    ],
+  },
+  nasdaq100top: {
+    name: "NASDAQ-100, 20 largest",
+    symbols: [
+      "AAPL", "MSFT", "NVDA", "AMZN", "META", "GOOGL", "AVGO", "TSLA", "COST", "NFLX",
+      "ADBE", "PEP", "AMD", "LIN", "CSCO", "TMUS", "QCOM", "INTU", "TXN", "AMGN",
+    ],
+  },
+  europe: {
+    name: "European large caps",
+    symbols: ["ASML.AS", "NESN.SW", "HSBA.L", "ENI.MI", "ISP.MI"],
+  },
+  trending: {
+    name: "Trending",
+    symbols: ["NVDA", "TSLA", "AAPL", "MSFT", "GOOGL"],
+  },
+};
+
+function loadIndices(): Record<string, IndexList> {
+  const file = process.env.SCREENER_UNIVERSES;
+  if (!file) {
+    return BUILT_IN_INDICES;
+  }
+  const configured: Record<string, IndexList> = JSON.parse(fs.readFileSync(file, "utf-8"));
+  return { ...BUILT_IN_INDICES, ...configured };
+}
+
+const indices = loadIndices();
+
+export class ScreenerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScreenerError";
+  }
+}
+
+// Every symbol the screener knows of: the index lists and the user's portfolio
+async function knownSymbols(userId?: number): Promise<string[]> {
+  const held = userId !== undefined ? (await storage.getStocks(userId)).map(stock => stock.symbol) : [];
+  return Array.from(new Set([...Object.values(indices).flatMap(index => index.symbols), ...held])).sort();
+}
+
+export async function getUniverses(userId?: number): Promise<ScreenerUniverses> {
+  return {
+    indices: Object.entries(indices).map(([id, { name, symbols }]) => ({ id, name, size: symbols.length })),
+    exchanges: Array.from(new Set(
+      (await Promise.all((await knownSymbols(userId)).map(symbol => getCompanyProfile(symbol).catch(() => null))))
+        .map(profile => profile?.exchange)
+        .filter((exchange): exchange is string => !!exchange)
+        .map(exchange => exchange.toUpperCase())
+    )).sort(),
+  };
+}
+
+export async function resolveUniverse(universe: ScreenDefinition["universe"], userId?: number): Promise<string[]> {
+  switch (universe.type) {
+    case "index": {
+      const index = indices[universe.id];
+      if (!index) {
+        throw new ScreenerError(`Unknown index "${universe.id}"; expected one of ${Object.keys(indices).join(", ")}`);
+      }
+      return index.symbols.map(symbol => symbol.toUpperCase());
+    }
+    // The provider has no listing per exchange, so this narrows the symbols we know of
+    case "exchange":
+      return knownSymbols(userId);
+    case "custom":
+      return Array.from(new Set(universe.symbols));
+  }
+}
+
+const within = (value: number | null, range?: { min?: number; max?: number }) =>
+  !range || (value !== null && (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max));
+
+const COMPARE: Record<NonNullable<ScreenDefinition["indicators"]>[number]["operator"], (a: number, b: number) => boolean> = {
+  "<": (a, b) => a < b,
+  "<=": (a, b) => a <= b,
+  ">": (a, b) => a > b,
+  ">=": (a, b) => a >= b,
+};
+
+// The symbol's row if it passes every criterion, else null
+async function screenSymbol(symbol: string, definition: ScreenDefinition): Promise<ScreenerRow | null> {
+  const quote = await getQuote(symbol);
+  if (!within(quote.price, definition.price) || !within(quote.changePercent, definition.changePercent)) {
+    return null;
+  }
+
+  const profile = await getCompanyProfile(symbol);
+  const { universe, sectors } = definition;
+  if (universe.type === "exchange" && profile.exchange?.toUpperCase() !== universe.exchange) {
+    return null;
+  }
+  if (sectors?.length && !sectors.some(sector => sector.toLowerCase() === profile.sector?.toLowerCase())) {
+    return null;
+  }
+  if (!within(profile.marketCap, definition.marketCap)) {
+    return null;
+  }
+
+  const now = new Date();
+  let volume: number | null = null;
+  if (definition.volume || definition.sortBy === "volume") {
+    const bars = await getHistory(symbol, new Date(now.getTime() - 10 * DAY_MS), now);
+    volume = bars.length > 0 ? bars[bars.length - 1].volume : null;
+    if (!within(volume, definition.volume)) {
+      return null;
+    }
+  }
+
+  const conditions = definition.indicators ?? [];
+  const indicators: ScreenerRow["indicators"] = {};
+  if (conditions.length > 0) {
+    const names = Array.from(new Set(conditions.map(({ field }) => indicatorFields[field] as IndicatorName)));
+    const { values } = await getIndicators(symbol, names, new Date(now.getTime() - 10 * DAY_MS), now);
+    const latest = values[values.length - 1];
+    for (const { field } of conditions) {
+      indicators[field] = latest?.[field] ?? null;
+    }
+    const passes = conditions.every(({ field, operator, value }) => {
+      const actual = indicators[field];
+      return actual != null && COMPARE[operator](actual, value);
+    });
+    if (!passes) {
+      return null;
+    }
+  }
+
+  return {
+    symbol,
+    name: quote.name,
+    currency: quote.currency,
+    exchange: profile.exchange,
+    sector: profile.sector,
+    price: quote.price,
+    change: quote.change,
+    changePercent: quote.changePercent,
+    volume,
+    marketCap: profile.marketCap,
+    indicators,
+  };
+}
+
+function sortRows(rows: ScreenerRow[], { sortBy, sortDirection }: ScreenDefinition): ScreenerRow[] {
+  const sign = sortDirection === "desc" ? -1 : 1;
+  return rows.sort((a, b) => {
+    if (sortBy === "symbol") {
+      return sign * a.symbol.localeCompare(b.symbol);
+    }
+    const x = a[sortBy];
+    const y = b[sortBy];
+    // Missing values go last either way
+    if (x === null || y === null) {
+      return x === y ? a.symbol.localeCompare(b.symbol) : x === null ? 1 : -1;
+    }
+    return sign * (x - y) || a.symbol.localeCompare(b.symbol);
+  });
+}
+
+const results = new Map<string, { at: number; universeSize: number; rows: ScreenerRow[]; failed: string[] }>();
+
+// Runs the screen over its universe, or reuses its result from the last minute
+async function screen(definition: ScreenDefinition, userId?: number) {
+  // Exchange universes include the user's holdings, so they are cached per user
+  const key = JSON.stringify(definition.universe.type === "exchange" ? { ...definition, userId } : definition);
+  const cached = results.get(key);
+  if (cached && Date.now() - cached.at < RESULTS_TTL_MS) {
+    return cached;
+  }
+
+  const symbols = await resolveUniverse(definition.universe, userId);
+  if (symbols.length > MAX_SYMBOLS) {
+    throw new ScreenerError(`A screen can cover at most ${MAX_SYMBOLS} symbols, this one has ${symbols.length}`);
+  }
+
+  // Symbols are screened concurrently; the rate limiter paces the upstream calls
+  const failed: string[] = [];
+  const rows = (await Promise.all(symbols.map(symbol => screenSymbol(symbol, definition).catch(error => {
+    if (!(error instanceof MarketDataError)) {
+      throw error;
+    }
+    failed.push(symbol);
+    return null;
+  })))).filter((row): row is ScreenerRow => row !== null);
+
+  const result = { at: Date.now(), universeSize: symbols.length, rows: sortRows(rows, definition), failed: failed.sort() };
+  results.forEach((entry, cachedKey) => {
+    if (Date.now() - entry.at >= RESULTS_TTL_MS) {
+      results.delete(cachedKey);
+    }
+  });
+  results.set(key, result);
+  return result;
+}
+
+export async function runScreen(
+  definition: ScreenDefinition,
+  { page, pageSize }: ScreenerPage,
+  userId?: number
+): Promise<ScreenerResults> {
+  const { universeSize, rows, failed } = await screen(definition, userId);
+  return {
+    universeSize,
+    total: rows.length,
+    page,
+    pageSize,
+    rows: rows.slice((page - 1) * pageSize, page * pageSize),
+    failed,
+  };
+}
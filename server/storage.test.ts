@@ -0,0 +1,298 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+import { insertAlertSchema, insertScreenSchema, type User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// One conformance suite for both storage implementations. DatabaseStorage runs on an
+// in-process Postgres with the tables generated from the schema, as `db:push` would.
+
+// storage.ts opens the app's pool when it is loaded, which needs a connection string;
+// nothing connects through it here
+process.env.DATABASE_URL ||= "postgres://localhost/unused";
+const { DatabaseStorage, MemStorage } = await import("./storage");
+
+// The ESM build of drizzle-kit's API does not load under Vitest, the CommonJS one does
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") = createRequire(import.meta.url)("drizzle-kit/api");
+
+async function createTestDatabase() {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return drizzle(client, { schema });
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", async () => new DatabaseStorage(await createTestDatabase())],
+];
+
+const screen = insertScreenSchema.parse({
+  name: "Cheap tech",
+  definition: { universe: { type: "custom", symbols: ["AAPL", "MSFT"] }, price: { max: 100 } },
+});
+
+describe.each(implementations)("%s", (_name, create) => {
+  let storage: IStorage;
+  let alice: User;
+  let bob: User;
+
+  beforeAll(async () => {
+    storage = await create();
+    alice = (await storage.createUser({ username: "alice", password: "hash-a" }))!;
+    bob = (await storage.createUser({ username: "bob", password: "hash-b" }))!;
+  });
+
+  // Alice's default portfolio, created on first read
+  const mainPortfolio = async () => (await storage.getPortfolios(alice.id))[0];
+
+  describe("users", () => {
+    it("finds users by id and by name", async () => {
+      expect(await storage.getUser(alice.id)).toMatchObject({ username: "alice" });
+      expect(await storage.getUserByUsername("bob")).toMatchObject({ id: bob.id });
+      expect(await storage.getUserByUsername("carol")).toBeUndefined();
+    });
+
+    it("refuses a username that is taken", async () => {
+      const attempts = await Promise.all([1, 2].map(() => storage.createUser({ username: "carol", password: "hash-c" })));
+
+      expect(attempts.filter(Boolean)).toHaveLength(1);
+      expect(await storage.createUser({ username: "alice", password: "other" })).toBeUndefined();
+      expect(await storage.getUser(alice.id)).toMatchObject({ password: "hash-a" });
+    });
+  });
+
+  describe("portfolios", () => {
+    it("starts every user with their own default portfolio", async () => {
+      const [main] = await storage.getPortfolios(alice.id);
+      const [bobsMain] = await storage.getPortfolios(bob.id);
+
+      expect(main).toMatchObject({ name: "Main", userId: alice.id, costBasisMethod: "fifo" });
+      expect(bobsMain.id).not.toBe(main.id);
+    });
+
+    it("hides another user's portfolio from reads and writes", async () => {
+      const retirement = await storage.createPortfolio({ name: "Retirement" }, alice.id);
+
+      expect(await storage.getPortfolio(retirement.id, bob.id)).toBeUndefined();
+      expect((await storage.getPortfolios(bob.id)).map(portfolio => portfolio.id)).not.toContain(retirement.id);
+      expect(await storage.updatePortfolio(retirement.id, { name: "Mine now" }, bob.id)).toBeUndefined();
+      expect(await storage.removePortfolio(retirement.id, bob.id)).toBe(false);
+
+      expect(await storage.getPortfolio(retirement.id, alice.id)).toMatchObject({ name: "Retirement" });
+    });
+
+    it("updates only the fields given", async () => {
+      const kids = await storage.createPortfolio({ name: "Kids" }, alice.id);
+      const updated = await storage.updatePortfolio(kids.id, { costBasisMethod: "average" }, alice.id);
+
+      expect(updated).toMatchObject({ name: "Kids", costBasisMethod: "average" });
+    });
+
+    it("removes a portfolio only once its holdings are gone, with their old rows", async () => {
+      const old = await storage.createPortfolio({ name: "Old broker" }, alice.id);
+      await storage.addStock({ symbol: "IBM", name: "IBM", portfolioId: old.id }, alice.id);
+      await storage.addTransaction({ symbol: "IBM", portfolioId: old.id, type: "buy", quantity: "1", price: "100", executedAt: new Date() }, alice.id);
+
+      expect(await storage.removePortfolio(old.id, alice.id)).toBe(false);
+      expect(await storage.getStocks(alice.id, old.id)).toHaveLength(1);
+
+      await storage.removeStock("IBM", alice.id, old.id);
+      expect(await storage.removePortfolio(old.id, alice.id)).toBe(true);
+      expect(await storage.getPortfolio(old.id, alice.id)).toBeUndefined();
+      expect(await storage.getStock("IBM", alice.id, old.id)).toBeUndefined();
+    });
+  });
+
+  describe("stocks", () => {
+    it("hides another user's holdings", async () => {
+      const main = await mainPortfolio();
+      await storage.addStock({ symbol: "AAPL", name: "Apple Inc", portfolioId: main.id }, alice.id);
+
+      expect(await storage.getStocks(bob.id)).toEqual([]);
+      expect(await storage.getStocks(bob.id, main.id)).toEqual([]);
+      expect(await storage.getStock("AAPL", bob.id, main.id)).toBeUndefined();
+      expect(await storage.getStock("aapl", alice.id, main.id)).toMatchObject({ symbol: "AAPL", isActive: true });
+    });
+
+    it("ignores another user removing a holding", async () => {
+      const main = await mainPortfolio();
+      await storage.addStock({ symbol: "MSFT", name: "Microsoft", portfolioId: main.id }, alice.id);
+      await storage.removeStock("MSFT", bob.id, main.id);
+
+      expect(await storage.getStock("MSFT", alice.id, main.id)).toMatchObject({ isActive: true });
+    });
+
+    it("removes a holding's ledger with the holding", async () => {
+      const main = await mainPortfolio();
+      await storage.addStock({ symbol: "NVDA", name: "NVIDIA", portfolioId: main.id }, alice.id);
+      await storage.addTransaction({ symbol: "NVDA", portfolioId: main.id, type: "buy", quantity: "10", price: "100", executedAt: new Date() }, alice.id);
+      await storage.removeStock("NVDA", alice.id, main.id);
+
+      expect(await storage.getStock("NVDA", alice.id, main.id)).toMatchObject({ isActive: false });
+      expect(await storage.getTransactions(alice.id, { symbol: "NVDA" })).toEqual([]);
+      expect(await storage.getStocks(alice.id, main.id)).not.toContainEqual(expect.objectContaining({ symbol: "NVDA" }));
+    });
+
+    it("lists the symbols held by anyone", async () => {
+      expect(await storage.getHeldSymbols()).toEqual(expect.arrayContaining(["AAPL", "MSFT"]));
+    });
+  });
+
+  describe("transactions", () => {
+    it("hides another user's transactions from reads and writes", async () => {
+      const main = await mainPortfolio();
+      const buy = await storage.addTransaction({
+        symbol: "AAPL", portfolioId: main.id, type: "buy", quantity: "5", price: "150", executedAt: new Date("2024-01-02")
+      }, alice.id);
+
+      expect(await storage.getTransactions(bob.id)).toEqual([]);
+      expect(await storage.getTransactions(bob.id, { symbol: "AAPL" })).toEqual([]);
+      expect(await storage.getTransaction(buy.id, bob.id)).toBeUndefined();
+      expect(await storage.updateTransaction(buy.id, {
+        symbol: "AAPL", portfolioId: main.id, type: "buy", quantity: "500", price: "1", executedAt: new Date("2024-01-02")
+      }, bob.id)).toBeUndefined();
+      expect(await storage.removeTransaction(buy.id, bob.id)).toBe(false);
+
+      expect(await storage.getTransaction(buy.id, alice.id)).toMatchObject({ quantity: expect.stringMatching(/^5(\.0+)?$/) });
+    });
+
+    it("replaces every field of an updated transaction", async () => {
+      const main = await mainPortfolio();
+      const sale = await storage.addTransaction({
+        symbol: "AAPL", portfolioId: main.id, type: "sell", quantity: "1", price: "200", fees: "1", notes: "trim", executedAt: new Date("2024-02-01")
+      }, alice.id);
+      const updated = await storage.updateTransaction(sale.id, {
+        symbol: "AAPL", portfolioId: main.id, type: "sell", quantity: "2", price: "210", executedAt: new Date("2024-02-02")
+      }, alice.id);
+
+      expect(updated).toMatchObject({ fees: null, notes: null });
+      expect(Number(updated?.quantity)).toBe(2);
+      expect(await storage.removeTransaction(sale.id, alice.id)).toBe(true);
+    });
+  });
+
+  describe("settings", () => {
+    it("keeps each user's settings apart", async () => {
+      await storage.updateSettings({ baseCurrency: "USD" }, alice.id);
+
+      expect((await storage.getSettings(alice.id)).baseCurrency).toBe("USD");
+      expect((await storage.getSettings(bob.id)).baseCurrency).toBe("EUR");
+    });
+  });
+
+  describe("watchlists", () => {
+    it("hides another user's watchlist and its items from reads and writes", async () => {
+      const list = await storage.createWatchlist({ name: "Semis" }, alice.id);
+      await storage.addWatchlistItem({ watchlistId: list.id, symbol: "AMD", name: "AMD", currency: "USD" }, alice.id);
+
+      expect(await storage.getWatchlists(bob.id)).toEqual([]);
+      expect(await storage.getWatchlist(list.id, bob.id)).toBeUndefined();
+      expect(await storage.getWatchlistItems(list.id, bob.id)).toEqual([]);
+      expect(await storage.addWatchlistItem({ watchlistId: list.id, symbol: "INTC", name: "Intel", currency: "USD" }, bob.id)).toBeUndefined();
+      expect(await storage.removeWatchlistItem(list.id, "AMD", bob.id)).toBe(false);
+      expect(await storage.updateWatchlist(list.id, { name: "Bob's" }, bob.id)).toBeUndefined();
+      expect(await storage.removeWatchlist(list.id, bob.id)).toBe(false);
+
+      expect(await storage.getWatchlist(list.id, alice.id)).toMatchObject({ name: "Semis" });
+      expect((await storage.getWatchlistItems(list.id, alice.id)).map(item => item.symbol)).toEqual(["AMD"]);
+    });
+
+    it("returns the listed item when a symbol is added twice", async () => {
+      const list = await storage.createWatchlist({ name: "Twice" }, alice.id);
+      const first = await storage.addWatchlistItem({ watchlistId: list.id, symbol: "amd", name: "AMD", currency: "USD" }, alice.id);
+      const second = await storage.addWatchlistItem({ watchlistId: list.id, symbol: "AMD", name: "AMD", currency: "USD" }, alice.id);
+
+      expect(second?.id).toBe(first?.id);
+      expect(await storage.getWatchlistItems(list.id, alice.id)).toHaveLength(1);
+    });
+  });
+
+  describe("screens", () => {
+    it("hides another user's saved screens from reads and writes", async () => {
+      const saved = await storage.createScreen(screen, alice.id);
+
+      expect(await storage.getScreens(bob.id)).toEqual([]);
+      expect(await storage.getScreen(saved.id, bob.id)).toBeUndefined();
+      expect(await storage.updateScreen(saved.id, { ...screen, name: "Bob's" }, bob.id)).toBeUndefined();
+      expect(await storage.removeScreen(saved.id, bob.id)).toBe(false);
+
+      expect(await storage.getScreen(saved.id, alice.id)).toMatchObject({ name: "Cheap tech", definition: screen.definition });
+    });
+  });
+
+  describe("alerts", () => {
+    const priceAlert = insertAlertSchema.parse({ symbol: "aapl", type: "price_cross", direction: "below", threshold: 150 });
+
+    it("hides another user's alerts from reads and writes", async () => {
+      const alert = await storage.createAlert(priceAlert, alice.id);
+
+      expect(alert).toMatchObject({ symbol: "AAPL", active: true, conditionMet: false });
+      expect(await storage.getAlerts(bob.id)).toEqual([]);
+      expect(await storage.getAlert(alert.id, bob.id)).toBeUndefined();
+      expect(await storage.updateAlert(alert.id, { ...priceAlert, active: false }, bob.id)).toBeUndefined();
+      expect(await storage.removeAlert(alert.id, bob.id)).toBe(false);
+
+      expect(await storage.getAlert(alert.id, alice.id)).toMatchObject({ active: true });
+      expect((await storage.getActiveAlerts()).map(active => active.id)).toContain(alert.id);
+    });
+
+    it("starts an updated alert's condition afresh", async () => {
+      const alert = await storage.createAlert(priceAlert, alice.id);
+      await storage.saveAlertState(alert.id, { conditionMet: true, lastValue: "140", lastTriggeredAt: new Date() });
+      const updated = await storage.updateAlert(alert.id, { ...priceAlert, active: false }, alice.id);
+
+      expect(updated).toMatchObject({ active: false, conditionMet: false, lastValue: null, lastTriggeredAt: null });
+      expect((await storage.getActiveAlerts()).map(active => active.id)).not.toContain(alert.id);
+    });
+
+    it("keeps triggered alerts to their owner and marks only theirs read", async () => {
+      const alert = await storage.createAlert(priceAlert, alice.id);
+      const event = await storage.addAlertEvent({
+        alertId: alert.id, userId: alice.id, symbol: "AAPL", type: "price_cross", message: "AAPL is below 150.00 USD", value: "149"
+      });
+
+      expect(await storage.getAlertEvents(bob.id, { limit: 50 })).toEqual([]);
+      expect(await storage.countUnreadAlertEvents(bob.id)).toBe(0);
+      expect(await storage.markAlertEventsRead(bob.id, [event.id])).toBe(0);
+      expect(await storage.markAlertEventsRead(bob.id)).toBe(0);
+
+      expect(await storage.countUnreadAlertEvents(alice.id)).toBe(1);
+      expect(await storage.getAlertEvents(alice.id, { unread: true, limit: 50 })).toEqual([expect.objectContaining({ id: event.id })]);
+      expect(await storage.markAlertEventsRead(alice.id, [event.id])).toBe(1);
+      expect(await storage.countUnreadAlertEvents(alice.id)).toBe(0);
+    });
+  });
+});
+
+// Only a database can hold rows from before there were accounts; MemStorage starts empty
+describe("DatabaseStorage with data from before accounts", () => {
+  it("gives it to the first account, which adopts the holdings into its default portfolio", async () => {
+    const db = await createTestDatabase();
+    await db.insert(schema.stocks).values({ symbol: "AAPL", name: "Apple Inc." });
+    await db.insert(schema.transactions).values({ symbol: "AAPL", type: "buy", quantity: "10", price: "150", executedAt: new Date("2024-01-02") });
+    await db.insert(schema.settings).values({ baseCurrency: "USD" });
+    await db.insert(schema.screens).values(screen);
+    await db.insert(schema.recommendationRecords).values({ symbol: "AAPL", source: "analysis", rating: "buy", asOf: "2024-01-02", currency: "USD", price: "150" });
+    const storage = new DatabaseStorage(db);
+
+    const first = (await storage.createUser({ username: "alice", password: "hash-a" }))!;
+    const second = (await storage.createUser({ username: "bob", password: "hash-b" }))!;
+    const [main] = await storage.getPortfolios(first.id);
+
+    expect(await storage.getStocks(first.id, main.id)).toEqual([expect.objectContaining({ symbol: "AAPL", portfolioId: main.id })]);
+    expect(await storage.getTransactions(first.id, { portfolioId: main.id })).toEqual([expect.objectContaining({ quantity: "10.000000" })]);
+    expect(await storage.getSettings(first.id)).toMatchObject({ baseCurrency: "USD" });
+    expect(await storage.getScreens(first.id)).toEqual([expect.objectContaining({ name: "Cheap tech" })]);
+    expect(await storage.getRecommendationRecords({ userId: first.id })).toHaveLength(1);
+
+    expect(await storage.getStocks(second.id)).toEqual([]);
+    expect(await storage.getTransactions(second.id)).toEqual([]);
+    expect(await storage.getSettings(second.id)).toMatchObject({ baseCurrency: "EUR" });
+    expect(await storage.getScreens(second.id)).toEqual([]);
+  });
+});
@@ -1,76 +1,620 @@
 
-import { users, stocks, type User, type InsertUser, type Stock, type InsertStock } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import {
+  users, portfolios, watchlists, watchlistItems, stocks, transactions, settings, priceHistory, forecastRecords, screens, recommendationRecords, alerts, alertEvents,
+  type User, type InsertUser, type Portfolio, type InsertPortfolio, type UpdatePortfolio, type PortfolioFilter, type Stock, type InsertStock, type Transaction, type InsertTransaction,
+  type Watchlist, type InsertWatchlist, type WatchlistItem, type InsertWatchlistItem,
+  type Settings, type UpdateSettings, type PriceBar, type InsertPriceBar,
+  type ForecastRecord, type InsertForecastRecord, type Screen, type InsertScreen,
+  type RecommendationRecord, type InsertRecommendationRecord, type RecommendationSource,
+  type Alert, type InsertAlert, type AlertEvent, type InsertAlertEvent, type AlertEventQuery
+} from "@shared/schema";
+import { db as defaultDb } from "./db";
+import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import type * as schema from "@shared/schema";
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  
-  // Stock operations
-  getStocks(userId?: number): Promise<Stock[]>;
-  addStock(stock: InsertStock): Promise<Stock>;
-  removeStock(symbol: string, userId?: number): Promise<void>;
-  getStock(symbol: string, userId?: number): Promise<Stock | undefined>;
+  // Undefined if the username is taken. The first account takes over the holdings, ledger,
+  // settings, saved screens and recommendations stored before there were accounts.
+  createUser(user: InsertUser): Promise<User | undefined>;
+
+  // Everything a user owns is read and written through their id; another user's
+  // records behave as if they did not exist
+
+  // Portfolios; the first read creates the default one and moves holdings from before
+  // portfolios into it. Only a portfolio without active holdings is removed, together
+  // with the rows of holdings removed from it earlier; false if it still holds any.
+  getPortfolios(userId: number): Promise<Portfolio[]>;
+  getPortfolio(id: number, userId: number): Promise<Portfolio | undefined>;
+  createPortfolio(portfolio: InsertPortfolio, userId: number): Promise<Portfolio>;
+  updatePortfolio(id: number, portfolio: UpdatePortfolio, userId: number): Promise<Portfolio | undefined>;
+  removePortfolio(id: number, userId: number): Promise<boolean>;
+
+  // Watchlists; items are read and written through the list's owner
+  getWatchlists(userId: number): Promise<Watchlist[]>;
+  getWatchlist(id: number, userId: number): Promise<Watchlist | undefined>;
+  createWatchlist(watchlist: InsertWatchlist, userId: number): Promise<Watchlist>;
+  updateWatchlist(id: number, watchlist: InsertWatchlist, userId: number): Promise<Watchlist | undefined>;
+  removeWatchlist(id: number, userId: number): Promise<boolean>;
+  getWatchlistItems(watchlistId: number, userId: number): Promise<WatchlistItem[]>;
+  // Undefined if the list isn't the user's; adding a symbol already listed returns the listed item
+  addWatchlistItem(item: Omit<InsertWatchlistItem, "id" | "addedAt">, userId: number): Promise<WatchlistItem | undefined>;
+  removeWatchlistItem(watchlistId: number, symbol: string, userId: number): Promise<boolean>;
+
+  // Stock operations; getStocks lists active holdings (of every portfolio without
+  // portfolioId), getStock prefers the active row. Removing a holding also removes its
+  // ledger, so adding the symbol again starts from an empty one.
+  getStocks(userId: number, portfolioId?: number): Promise<Stock[]>;
+  addStock(stock: InsertStock & { portfolioId: number }, userId: number): Promise<Stock>;
+  removeStock(symbol: string, userId: number, portfolioId: number): Promise<void>;
+  getStock(symbol: string, userId: number, portfolioId: number): Promise<Stock | undefined>;
+  // Symbols held by anyone, for market data jobs
+  getHeldSymbols(): Promise<string[]>;
+
+  // Transaction ledger
+  getTransactions(userId: number, filter?: PortfolioFilter): Promise<Transaction[]>;
+  getTransaction(id: number, userId: number): Promise<Transaction | undefined>;
+  addTransaction(transaction: InsertTransaction, userId: number): Promise<Transaction>;
+  updateTransaction(id: number, transaction: InsertTransaction, userId: number): Promise<Transaction | undefined>;
+  removeTransaction(id: number, userId: number): Promise<boolean>;
+
+  // Settings are created with defaults on first read
+  getSettings(userId: number): Promise<Settings>;
+  updateSettings(update: UpdateSettings, userId: number): Promise<Settings>;
+
+  // Daily price history is market data, shared by all users; dates are YYYY-MM-DD
+  getPriceHistory(symbol: string, from: string, to: string): Promise<PriceBar[]>;
+  getLatestPriceDate(symbol: string): Promise<string | undefined>;
+  // Inserts new days and overwrites days already stored
+  savePriceHistory(bars: InsertPriceBar[]): Promise<void>;
+
+  // Forecast records; a symbol, model and horizon keeps the first forecast made from each day
+  saveForecasts(records: InsertForecastRecord[]): Promise<void>;
+  getForecastRecords(filter: ForecastRecordFilter): Promise<ForecastRecord[]>;
+  scoreForecast(id: number, actual: string): Promise<void>;
+
+  // Saved screener definitions
+  getScreens(userId: number): Promise<Screen[]>;
+  getScreen(id: number, userId: number): Promise<Screen | undefined>;
+  createScreen(screen: InsertScreen, userId: number): Promise<Screen>;
+  updateScreen(id: number, screen: InsertScreen, userId: number): Promise<Screen | undefined>;
+  removeScreen(id: number, userId: number): Promise<boolean>;
+
+  // Recommendation records; a user, symbol and source keeps the first recommendation of each day
+  saveRecommendations(records: InsertRecommendationRecord[]): Promise<void>;
+  getRecommendationRecords(filter: RecommendationRecordFilter): Promise<RecommendationRecord[]>;
+  scoreRecommendation(id: number, closes: RecommendationCloses): Promise<void>;
+
+  // Alerts; changing an alert starts its condition afresh
+  getAlerts(userId: number): Promise<Alert[]>;
+  getAlert(id: number, userId: number): Promise<Alert | undefined>;
+  createAlert(alert: InsertAlert, userId: number): Promise<Alert>;
+  updateAlert(id: number, alert: InsertAlert, userId: number): Promise<Alert | undefined>;
+  removeAlert(id: number, userId: number): Promise<boolean>;
+  // Active alerts of every user, for the scheduler
+  getActiveAlerts(): Promise<Alert[]>;
+  saveAlertState(id: number, state: AlertState): Promise<void>;
+
+  // Triggered alert history, newest first
+  addAlertEvent(event: InsertAlertEvent): Promise<AlertEvent>;
+  getAlertEvents(userId: number, query: AlertEventQuery): Promise<AlertEvent[]>;
+  countUnreadAlertEvents(userId: number): Promise<number>;
+  // Returns how many were marked
+  markAlertEventsRead(userId: number, ids?: number[]): Promise<number>;
+}
+
+export interface ForecastRecordFilter {
+  symbol?: string;
+  model?: string;
+  scored?: boolean;
+}
+
+export interface RecommendationRecordFilter {
+  userId?: number; // every user's records when left out, for the scoring job
+  symbol?: string;
+  source?: RecommendationSource;
+  settled?: boolean; // has its 3-month close
+}
+
+// Any Postgres driver with the app's schema: Neon in the app, an in-process Postgres in tests
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type AlertState = Partial<Pick<Alert, "conditionMet" | "lastValue" | "lastSentiment" | "lastCheckedAt" | "lastTriggeredAt">>;
+
+export type RecommendationCloses = Partial<Pick<RecommendationRecord, "close1w" | "close1m" | "close3m">>;
+
+export const DEFAULT_PORTFOLIO = "Main";
+
+// Rows per insert statement, well below Postgres' limit on bind parameters
+const PRICE_HISTORY_BATCH = 1000;
+
+// Fill optional columns with nulls so a saved transaction fully replaces the previous one
+function toTransactionFields(transaction: InsertTransaction, userId: number): Omit<Transaction, "id" | "createdAt"> {
+  return {
+    symbol: transaction.symbol,
+    userId,
+    portfolioId: transaction.portfolioId,
+    type: transaction.type,
+    quantity: transaction.quantity ?? null,
+    price: transaction.price ?? null,
+    amount: transaction.amount ?? null,
+    fees: transaction.fees ?? null,
+    splitRatio: transaction.splitRatio ?? null,
+    executedAt: transaction.executedAt,
+    notes: transaction.notes ?? null
+  };
 }
 
 export class DatabaseStorage implements IStorage {
+  // The app's connection pool unless another database is handed in, as the tests do
+  constructor(private readonly db: Database = defaultDb) {}
+
   async getUser(id: number): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
     return result[0];
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.username, username)).limit(1);
+    const result = await this.db.select().from(users).where(eq(users.username, username)).limit(1);
     return result[0];
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(insertUser).returning();
+  async createUser(insertUser: InsertUser): Promise<User | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Two signups with one name at once: the unique username lets one win
+      const [user] = await tx.insert(users).values(insertUser).onConflictDoNothing().returning();
+      if (!user) {
+        return undefined;
+      }
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(users);
+      if (count > 1) {
+        return user;
+      }
+      await tx.update(stocks).set({ userId: user.id }).where(isNull(stocks.userId));
+      await tx.update(transactions).set({ userId: user.id }).where(isNull(transactions.userId));
+      await tx.update(screens).set({ userId: user.id }).where(isNull(screens.userId));
+      await tx.update(recommendationRecords).set({ userId: user.id }).where(isNull(recommendationRecords.userId));
+      // userId is unique, so only one settings row can be claimed
+      const [unowned] = await tx.select({ id: settings.id }).from(settings).where(isNull(settings.userId)).orderBy(asc(settings.id)).limit(1);
+      if (unowned) {
+        await tx.update(settings).set({ userId: user.id }).where(eq(settings.id, unowned.id));
+      }
+      return user;
+    });
+  }
+
+  async getPortfolios(userId: number): Promise<Portfolio[]> {
+    const existing = await this.db.select().from(portfolios).where(eq(portfolios.userId, userId)).orderBy(asc(portfolios.id));
+    if (existing.length > 0) {
+      return existing;
+    }
+    await this.db.insert(portfolios).values({ userId, name: DEFAULT_PORTFOLIO }).onConflictDoNothing();
+    const created = await this.db.select().from(portfolios).where(eq(portfolios.userId, userId)).orderBy(asc(portfolios.id));
+    await this.db.update(stocks).set({ portfolioId: created[0].id }).where(and(eq(stocks.userId, userId), isNull(stocks.portfolioId)));
+    await this.db.update(transactions).set({ portfolioId: created[0].id })
+      .where(and(eq(transactions.userId, userId), isNull(transactions.portfolioId)));
+    return created;
+  }
+
+  async getPortfolio(id: number, userId: number): Promise<Portfolio | undefined> {
+    const result = await this.db.select().from(portfolios).where(and(eq(portfolios.id, id), eq(portfolios.userId, userId))).limit(1);
+    return result[0];
+  }
+
+  async createPortfolio(portfolio: InsertPortfolio, userId: number): Promise<Portfolio> {
+    const result = await this.db.insert(portfolios).values({ ...portfolio, userId }).returning();
     return result[0];
   }
 
-  async getStocks(userId?: number): Promise<Stock[]> {
-    if (userId) {
-      return await db.select().from(stocks).where(eq(stocks.userId, userId));
+  async updatePortfolio(id: number, portfolio: UpdatePortfolio, userId: number): Promise<Portfolio | undefined> {
+    const result = await this.db.update(portfolios).set(portfolio)
+      .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async removePortfolio(id: number, userId: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const owned = await tx.select({ id: portfolios.id }).from(portfolios)
+        .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId)))
+        .for("update");
+      const held = await tx.select({ id: stocks.id }).from(stocks)
+        .where(and(eq(stocks.userId, userId), eq(stocks.portfolioId, id), eq(stocks.isActive, true)))
+        .limit(1);
+      if (owned.length === 0 || held.length > 0) {
+        return false;
+      }
+      await tx.delete(transactions).where(and(eq(transactions.userId, userId), eq(transactions.portfolioId, id)));
+      await tx.delete(stocks).where(and(eq(stocks.userId, userId), eq(stocks.portfolioId, id)));
+      await tx.delete(portfolios).where(eq(portfolios.id, id));
+      return true;
+    });
+  }
+
+  async getWatchlists(userId: number): Promise<Watchlist[]> {
+    return await this.db.select().from(watchlists).where(eq(watchlists.userId, userId)).orderBy(asc(watchlists.id));
+  }
+
+  async getWatchlist(id: number, userId: number): Promise<Watchlist | undefined> {
+    const result = await this.db.select().from(watchlists).where(and(eq(watchlists.id, id), eq(watchlists.userId, userId))).limit(1);
+    return result[0];
+  }
+
+  async createWatchlist(watchlist: InsertWatchlist, userId: number): Promise<Watchlist> {
+    const result = await this.db.insert(watchlists).values({ ...watchlist, userId }).returning();
+    return result[0];
+  }
+
+  async updateWatchlist(id: number, watchlist: InsertWatchlist, userId: number): Promise<Watchlist | undefined> {
+    const result = await this.db.update(watchlists).set(watchlist)
+      .where(and(eq(watchlists.id, id), eq(watchlists.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async removeWatchlist(id: number, userId: number): Promise<boolean> {
+    const result = await this.db.delete(watchlists).where(and(eq(watchlists.id, id), eq(watchlists.userId, userId))).returning();
+    if (result.length === 0) {
+      return false;
+    }
+    await this.db.delete(watchlistItems).where(eq(watchlistItems.watchlistId, id));
+    return true;
+  }
+
+  async getWatchlistItems(watchlistId: number, userId: number): Promise<WatchlistItem[]> {
+    if (!(await this.getWatchlist(watchlistId, userId))) {
+      return [];
     }
-    // For now, get all stocks (single-user mode)
-    return await db.select().from(stocks).where(eq(stocks.isActive, true));
+    return await this.db.select().from(watchlistItems)
+      .where(eq(watchlistItems.watchlistId, watchlistId))
+      .orderBy(asc(watchlistItems.id));
   }
 
-  async addStock(stock: InsertStock): Promise<Stock> {
-    const result = await db.insert(stocks).values(stock).returning();
+  async addWatchlistItem(item: Omit<InsertWatchlistItem, "id" | "addedAt">, userId: number): Promise<WatchlistItem | undefined> {
+    if (!(await this.getWatchlist(item.watchlistId, userId))) {
+      return undefined;
+    }
+    const symbol = item.symbol.toUpperCase();
+    await this.db.insert(watchlistItems).values({ ...item, symbol }).onConflictDoNothing();
+    const result = await this.db.select().from(watchlistItems)
+      .where(and(eq(watchlistItems.watchlistId, item.watchlistId), eq(watchlistItems.symbol, symbol)))
+      .limit(1);
     return result[0];
   }
 
-  async removeStock(symbol: string, userId?: number): Promise<void> {
-    if (userId) {
-      await db.update(stocks).set({ isActive: false }).where(eq(stocks.symbol, symbol.toUpperCase()));
-    } else {
-      await db.update(stocks).set({ isActive: false }).where(eq(stocks.symbol, symbol.toUpperCase()));
+  async removeWatchlistItem(watchlistId: number, symbol: string, userId: number): Promise<boolean> {
+    if (!(await this.getWatchlist(watchlistId, userId))) {
+      return false;
     }
+    const result = await this.db.delete(watchlistItems)
+      .where(and(eq(watchlistItems.watchlistId, watchlistId), eq(watchlistItems.symbol, symbol.toUpperCase())))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getStocks(userId: number, portfolioId?: number): Promise<Stock[]> {
+    const conditions = [eq(stocks.userId, userId), eq(stocks.isActive, true)];
+    if (portfolioId) conditions.push(eq(stocks.portfolioId, portfolioId));
+    return await this.db.select().from(stocks).where(and(...conditions)).orderBy(asc(stocks.id));
+  }
+
+  async addStock(stock: InsertStock & { portfolioId: number }, userId: number): Promise<Stock> {
+    const result = await this.db.insert(stocks).values({ ...stock, userId }).returning();
+    return result[0];
+  }
+
+  async removeStock(symbol: string, userId: number, portfolioId: number): Promise<void> {
+    await this.db.update(stocks).set({ isActive: false })
+      .where(and(eq(stocks.userId, userId), eq(stocks.portfolioId, portfolioId), eq(stocks.symbol, symbol.toUpperCase())));
+    await this.db.delete(transactions)
+      .where(and(eq(transactions.userId, userId), eq(transactions.portfolioId, portfolioId), eq(transactions.symbol, symbol.toUpperCase())));
   }
 
-  async getStock(symbol: string, userId?: number): Promise<Stock | undefined> {
-    const result = await db.select().from(stocks)
-      .where(eq(stocks.symbol, symbol.toUpperCase()))
+  async getStock(symbol: string, userId: number, portfolioId: number): Promise<Stock | undefined> {
+    const result = await this.db.select().from(stocks)
+      .where(and(eq(stocks.userId, userId), eq(stocks.portfolioId, portfolioId), eq(stocks.symbol, symbol.toUpperCase())))
+      .orderBy(desc(stocks.isActive), desc(stocks.id))
       .limit(1);
     return result[0];
   }
+
+  async getHeldSymbols(): Promise<string[]> {
+    const result = await this.db.selectDistinct({ symbol: stocks.symbol }).from(stocks)
+      .where(eq(stocks.isActive, true))
+      .orderBy(asc(stocks.symbol));
+    return result.map(row => row.symbol);
+  }
+
+  async getTransactions(userId: number, filter: PortfolioFilter = {}): Promise<Transaction[]> {
+    const conditions = [eq(transactions.userId, userId)];
+    if (filter.portfolioId) conditions.push(eq(transactions.portfolioId, filter.portfolioId));
+    if (filter.symbol) conditions.push(eq(transactions.symbol, filter.symbol.toUpperCase()));
+
+    return await this.db.select().from(transactions)
+      .where(and(...conditions))
+      .orderBy(asc(transactions.executedAt), asc(transactions.id));
+  }
+
+  async getTransaction(id: number, userId: number): Promise<Transaction | undefined> {
+    const result = await this.db.select().from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async addTransaction(transaction: InsertTransaction, userId: number): Promise<Transaction> {
+    const result = await this.db.insert(transactions).values(toTransactionFields(transaction, userId)).returning();
+    return result[0];
+  }
+
+  async updateTransaction(id: number, transaction: InsertTransaction, userId: number): Promise<Transaction | undefined> {
+    const result = await this.db.update(transactions).set(toTransactionFields(transaction, userId))
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async removeTransaction(id: number, userId: number): Promise<boolean> {
+    const result = await this.db.delete(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getSettings(userId: number): Promise<Settings> {
+    const result = await this.db.select().from(settings).where(eq(settings.userId, userId)).limit(1);
+    if (result[0]) {
+      return result[0];
+    }
+    // Two first reads at once may both insert; the unique userId lets one win
+    await this.db.insert(settings).values({ userId }).onConflictDoNothing();
+    const created = await this.db.select().from(settings).where(eq(settings.userId, userId)).limit(1);
+    return created[0];
+  }
+
+  async updateSettings(update: UpdateSettings, userId: number): Promise<Settings> {
+    const current = await this.getSettings(userId);
+    if (Object.keys(update).length === 0) {
+      return current;
+    }
+    const result = await this.db.update(settings).set(update).where(eq(settings.id, current.id)).returning();
+    return result[0];
+  }
+
+  async getPriceHistory(symbol: string, from: string, to: string): Promise<PriceBar[]> {
+    return await this.db.select().from(priceHistory)
+      .where(and(
+        eq(priceHistory.symbol, symbol.toUpperCase()),
+        gte(priceHistory.date, from),
+        lte(priceHistory.date, to)
+      ))
+      .orderBy(asc(priceHistory.date));
+  }
+
+  async getLatestPriceDate(symbol: string): Promise<string | undefined> {
+    const result = await this.db.select({ date: priceHistory.date }).from(priceHistory)
+      .where(eq(priceHistory.symbol, symbol.toUpperCase()))
+      .orderBy(desc(priceHistory.date))
+      .limit(1);
+    return result[0]?.date;
+  }
+
+  async savePriceHistory(bars: InsertPriceBar[]): Promise<void> {
+    for (let i = 0; i < bars.length; i += PRICE_HISTORY_BATCH) {
+      await this.db.insert(priceHistory)
+        .values(bars.slice(i, i + PRICE_HISTORY_BATCH))
+        .onConflictDoUpdate({
+          target: [priceHistory.symbol, priceHistory.date],
+          set: {
+            open: sql`excluded.open`,
+            high: sql`excluded.high`,
+            low: sql`excluded.low`,
+            close: sql`excluded.close`,
+            adjustedClose: sql`excluded.adjusted_close`,
+            volume: sql`excluded.volume`,
+          },
+        });
+    }
+  }
+
+  async saveForecasts(records: InsertForecastRecord[]): Promise<void> {
+    if (records.length > 0) {
+      await this.db.insert(forecastRecords).values(records).onConflictDoNothing();
+    }
+  }
+
+  async getForecastRecords(filter: ForecastRecordFilter): Promise<ForecastRecord[]> {
+    const conditions = [];
+    if (filter.symbol) conditions.push(eq(forecastRecords.symbol, filter.symbol.toUpperCase()));
+    if (filter.model) conditions.push(eq(forecastRecords.model, filter.model));
+    if (filter.scored !== undefined) {
+      conditions.push(filter.scored ? isNotNull(forecastRecords.actual) : isNull(forecastRecords.actual));
+    }
+
+    return await this.db.select().from(forecastRecords)
+      .where(and(...conditions))
+      .orderBy(asc(forecastRecords.targetDate), asc(forecastRecords.id));
+  }
+
+  async scoreForecast(id: number, actual: string): Promise<void> {
+    await this.db.update(forecastRecords).set({ actual, scoredAt: new Date() }).where(eq(forecastRecords.id, id));
+  }
+
+  async getScreens(userId: number): Promise<Screen[]> {
+    return await this.db.select().from(screens)
+      .where(eq(screens.userId, userId))
+      .orderBy(asc(screens.name), asc(screens.id));
+  }
+
+  async getScreen(id: number, userId: number): Promise<Screen | undefined> {
+    const result = await this.db.select().from(screens).where(and(eq(screens.id, id), eq(screens.userId, userId))).limit(1);
+    return result[0];
+  }
+
+  async createScreen(screen: InsertScreen, userId: number): Promise<Screen> {
+    const result = await this.db.insert(screens).values({ ...screen, userId }).returning();
+    return result[0];
+  }
+
+  async updateScreen(id: number, screen: InsertScreen, userId: number): Promise<Screen | undefined> {
+    const result = await this.db.update(screens).set(screen).where(and(eq(screens.id, id), eq(screens.userId, userId))).returning();
+    return result[0];
+  }
+
+  async removeScreen(id: number, userId: number): Promise<boolean> {
+    const result = await this.db.delete(screens).where(and(eq(screens.id, id), eq(screens.userId, userId))).returning();
+    return result.length > 0;
+  }
+  async saveRecommendations(records: InsertRecommendationRecord[]): Promise<void> {
+    if (records.length > 0) {
+      await this.db.insert(recommendationRecords).values(records).onConflictDoNothing();
+    }
+  }
+
+  async getRecommendationRecords(filter: RecommendationRecordFilter): Promise<RecommendationRecord[]> {
+    const conditions = [];
+    if (filter.userId) conditions.push(eq(recommendationRecords.userId, filter.userId));
+    if (filter.symbol) conditions.push(eq(recommendationRecords.symbol, filter.symbol.toUpperCase()));
+    if (filter.source) conditions.push(eq(recommendationRecords.source, filter.source));
+    if (filter.settled !== undefined) {
+      conditions.push(filter.settled ? isNotNull(recommendationRecords.close3m) : isNull(recommendationRecords.close3m));
+    }
+
+    return await this.db.select().from(recommendationRecords)
+      .where(and(...conditions))
+      .orderBy(asc(recommendationRecords.asOf), asc(recommendationRecords.id));
+  }
+
+  async scoreRecommendation(id: number, closes: RecommendationCloses): Promise<void> {
+    await this.db.update(recommendationRecords).set(closes).where(eq(recommendationRecords.id, id));
+  }
+
+  async getAlerts(userId: number): Promise<Alert[]> {
+    return await this.db.select().from(alerts).where(eq(alerts.userId, userId)).orderBy(asc(alerts.symbol), asc(alerts.id));
+  }
+
+  async getAlert(id: number, userId: number): Promise<Alert | undefined> {
+    const result = await this.db.select().from(alerts).where(and(eq(alerts.id, id), eq(alerts.userId, userId))).limit(1);
+    return result[0];
+  }
+
+  async createAlert(alert: InsertAlert, userId: number): Promise<Alert> {
+    const result = await this.db.insert(alerts).values({ ...alert, userId }).returning();
+    return result[0];
+  }
+
+  async updateAlert(id: number, alert: InsertAlert, userId: number): Promise<Alert | undefined> {
+    const result = await this.db.update(alerts)
+      .set({ ...alert, conditionMet: false, lastValue: null, lastSentiment: null, lastTriggeredAt: null })
+      .where(and(eq(alerts.id, id), eq(alerts.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async removeAlert(id: number, userId: number): Promise<boolean> {
+    const result = await this.db.delete(alerts).where(and(eq(alerts.id, id), eq(alerts.userId, userId))).returning();
+    return result.length > 0;
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    return await this.db.select().from(alerts).where(eq(alerts.active, true)).orderBy(asc(alerts.symbol), asc(alerts.id));
+  }
+
+  async saveAlertState(id: number, state: AlertState): Promise<void> {
+    await this.db.update(alerts).set(state).where(eq(alerts.id, id));
+  }
+
+  async addAlertEvent(event: InsertAlertEvent): Promise<AlertEvent> {
+    const result = await this.db.insert(alertEvents).values(event).returning();
+    return result[0];
+  }
+
+  async getAlertEvents(userId: number, query: AlertEventQuery): Promise<AlertEvent[]> {
+    const conditions = [eq(alertEvents.userId, userId)];
+    if (query.unread !== undefined) {
+      conditions.push(query.unread ? isNull(alertEvents.readAt) : isNotNull(alertEvents.readAt));
+    }
+
+    return await this.db.select().from(alertEvents)
+      .where(and(...conditions))
+      .orderBy(desc(alertEvents.triggeredAt), desc(alertEvents.id))
+      .limit(query.limit);
+  }
+
+  async countUnreadAlertEvents(userId: number): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)::int` }).from(alertEvents)
+      .where(and(eq(alertEvents.userId, userId), isNull(alertEvents.readAt)));
+    return result[0].count;
+  }
+
+  async markAlertEventsRead(userId: number, ids?: number[]): Promise<number> {
+    const conditions = [eq(alertEvents.userId, userId), isNull(alertEvents.readAt)];
+    if (ids) {
+      if (ids.length === 0) {
+        return 0;
+      }
+      conditions.push(inArray(alertEvents.id, ids));
+    }
+    const result = await this.db.update(alertEvents).set({ readAt: new Date() }).where(and(...conditions)).returning();
+    return result.length;
+  }
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
-  private stocks: Map<string, Stock>;
+  private portfolios: Map<number, Portfolio>;
+  private watchlists: Map<number, Watchlist>;
+  private watchlistItems: Map<number, WatchlistItem>;
+  private stocks: Map<number, Stock>;
+  private transactions: Map<number, Transaction>;
+  private settings: Map<number, Settings>; // by user
+  private priceHistory: Map<string, Map<string, PriceBar>>; // symbol → date → bar
+  private forecastRecords: Map<number, ForecastRecord>;
+  private screens: Map<number, Screen>;
+  private recommendationRecords: Map<number, RecommendationRecord>;
+  private alerts: Map<number, Alert>;
+  private alertEvents: Map<number, AlertEvent>;
   currentId: number;
+  currentPortfolioId: number;
+  currentWatchlistId: number;
+  currentWatchlistItemId: number;
   currentStockId: number;
+  currentTransactionId: number;
+  currentPriceBarId: number;
+  currentForecastId: number;
+  currentScreenId: number;
+  currentRecommendationId: number;
+  currentAlertId: number;
+  currentAlertEventId: number;
 
   constructor() {
     this.users = new Map();
+    this.portfolios = new Map();
+    this.watchlists = new Map();
+    this.watchlistItems = new Map();
     this.stocks = new Map();
+    this.transactions = new Map();
+    this.settings = new Map();
+    this.priceHistory = new Map();
+    this.forecastRecords = new Map();
+    this.screens = new Map();
+    this.recommendationRecords = new Map();
+    this.alerts = new Map();
+    this.alertEvents = new Map();
     this.currentId = 1;
+    this.currentPortfolioId = 1;
+    this.currentWatchlistId = 1;
+    this.currentWatchlistItemId = 1;
     this.currentStockId = 1;
+    this.currentTransactionId = 1;
+    this.currentPriceBarId = 1;
+    this.currentForecastId = 1;
+    this.currentScreenId = 1;
+    this.currentRecommendationId = 1;
+    this.currentAlertId = 1;
+    this.currentAlertEventId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -83,37 +627,484 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser): Promise<User | undefined> {
+    // Checked and inserted without awaiting in between, so two signups can't both pass
+    if (Array.from(this.users.values()).some(user => user.username === insertUser.username)) {
+      return undefined;
+    }
     const id = this.currentId++;
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
+    if (this.users.size === 1) {
+      this.stocks.forEach(stock => {
+        if (stock.userId === null) stock.userId = id;
+      });
+      this.transactions.forEach(tx => {
+        if (tx.userId === null) tx.userId = id;
+      });
+      this.screens.forEach(screen => {
+        if (screen.userId === null) screen.userId = id;
+      });
+      this.recommendationRecords.forEach(record => {
+        if (record.userId === null) record.userId = id;
+      });
+    }
     return user;
   }
 
-  async getStocks(userId?: number): Promise<Stock[]> {
-    return Array.from(this.stocks.values()).filter(stock => stock.isActive);
+  async getPortfolios(userId: number): Promise<Portfolio[]> {
+    const existing = Array.from(this.portfolios.values())
+      .filter(portfolio => portfolio.userId === userId)
+      .sort((a, b) => a.id - b.id);
+    if (existing.length > 0) {
+      return existing;
+    }
+    const main = await this.createPortfolio({ name: DEFAULT_PORTFOLIO }, userId);
+    this.stocks.forEach(stock => {
+      if (stock.userId === userId && stock.portfolioId === null) stock.portfolioId = main.id;
+    });
+    this.transactions.forEach(tx => {
+      if (tx.userId === userId && tx.portfolioId === null) tx.portfolioId = main.id;
+    });
+    return [main];
+  }
+
+  async getPortfolio(id: number, userId: number): Promise<Portfolio | undefined> {
+    const portfolio = this.portfolios.get(id);
+    return portfolio?.userId === userId ? portfolio : undefined;
+  }
+
+  async createPortfolio(portfolio: InsertPortfolio, userId: number): Promise<Portfolio> {
+    const newPortfolio: Portfolio = {
+      ...portfolio,
+      id: this.currentPortfolioId++,
+      userId,
+      costBasisMethod: portfolio.costBasisMethod ?? "fifo",
+      createdAt: new Date()
+    };
+    this.portfolios.set(newPortfolio.id, newPortfolio);
+    return newPortfolio;
+  }
+
+  async updatePortfolio(id: number, portfolio: UpdatePortfolio, userId: number): Promise<Portfolio | undefined> {
+    const existing = await this.getPortfolio(id, userId);
+    if (!existing) {
+      return undefined;
+    }
+    const updated: Portfolio = { ...existing, ...portfolio };
+    this.portfolios.set(id, updated);
+    return updated;
+  }
+
+  async removePortfolio(id: number, userId: number): Promise<boolean> {
+    const held = Array.from(this.stocks.values())
+      .some(stock => stock.userId === userId && stock.portfolioId === id && stock.isActive);
+    if (this.portfolios.get(id)?.userId !== userId || held) {
+      return false;
+    }
+    this.transactions.forEach((tx, txId) => {
+      if (tx.userId === userId && tx.portfolioId === id) this.transactions.delete(txId);
+    });
+    this.stocks.forEach((stock, stockId) => {
+      if (stock.userId === userId && stock.portfolioId === id) this.stocks.delete(stockId);
+    });
+    this.portfolios.delete(id);
+    return true;
+  }
+
+  async getWatchlists(userId: number): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values())
+      .filter(watchlist => watchlist.userId === userId)
+      .sort((a, b) => a.id - b.id);
   }
 
-  async addStock(stock: InsertStock): Promise<Stock> {
+  async getWatchlist(id: number, userId: number): Promise<Watchlist | undefined> {
+    const watchlist = this.watchlists.get(id);
+    return watchlist?.userId === userId ? watchlist : undefined;
+  }
+
+  async createWatchlist(watchlist: InsertWatchlist, userId: number): Promise<Watchlist> {
+    const newWatchlist: Watchlist = { ...watchlist, id: this.currentWatchlistId++, userId, createdAt: new Date() };
+    this.watchlists.set(newWatchlist.id, newWatchlist);
+    return newWatchlist;
+  }
+
+  async updateWatchlist(id: number, watchlist: InsertWatchlist, userId: number): Promise<Watchlist | undefined> {
+    const existing = await this.getWatchlist(id, userId);
+    if (!existing) {
+      return undefined;
+    }
+    const updated: Watchlist = { ...existing, ...watchlist };
+    this.watchlists.set(id, updated);
+    return updated;
+  }
+
+  async removeWatchlist(id: number, userId: number): Promise<boolean> {
+    if (!(await this.getWatchlist(id, userId))) {
+      return false;
+    }
+    this.watchlists.delete(id);
+    this.watchlistItems.forEach((item, itemId) => {
+      if (item.watchlistId === id) this.watchlistItems.delete(itemId);
+    });
+    return true;
+  }
+
+  async getWatchlistItems(watchlistId: number, userId: number): Promise<WatchlistItem[]> {
+    if (!(await this.getWatchlist(watchlistId, userId))) {
+      return [];
+    }
+    return Array.from(this.watchlistItems.values())
+      .filter(item => item.watchlistId === watchlistId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async addWatchlistItem(item: Omit<InsertWatchlistItem, "id" | "addedAt">, userId: number): Promise<WatchlistItem | undefined> {
+    if (!(await this.getWatchlist(item.watchlistId, userId))) {
+      return undefined;
+    }
+    const symbol = item.symbol.toUpperCase();
+    const existing = Array.from(this.watchlistItems.values())
+      .find(other => other.watchlistId === item.watchlistId && other.symbol === symbol);
+    if (existing) {
+      return existing;
+    }
+    const newItem: WatchlistItem = {
+      ...item,
+      symbol,
+      id: this.currentWatchlistItemId++,
+      currency: item.currency ?? "USD",
+      addedAt: new Date()
+    };
+    this.watchlistItems.set(newItem.id, newItem);
+    return newItem;
+  }
+
+  async removeWatchlistItem(watchlistId: number, symbol: string, userId: number): Promise<boolean> {
+    const item = (await this.getWatchlistItems(watchlistId, userId)).find(item => item.symbol === symbol.toUpperCase());
+    return item !== undefined && this.watchlistItems.delete(item.id);
+  }
+
+  async getStocks(userId: number, portfolioId?: number): Promise<Stock[]> {
+    return Array.from(this.stocks.values())
+      .filter(stock => stock.userId === userId && stock.isActive)
+      .filter(stock => !portfolioId || stock.portfolioId === portfolioId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async addStock(stock: InsertStock & { portfolioId: number }, userId: number): Promise<Stock> {
     const newStock: Stock = {
       ...stock,
       id: this.currentStockId++,
+      userId,
+      currency: stock.currency ?? "USD",
       addedAt: new Date(),
       isActive: true
     };
-    this.stocks.set(stock.symbol.toUpperCase(), newStock);
+    this.stocks.set(newStock.id, newStock);
     return newStock;
   }
 
-  async removeStock(symbol: string, userId?: number): Promise<void> {
-    const stock = this.stocks.get(symbol.toUpperCase());
-    if (stock) {
-      stock.isActive = false;
+  async removeStock(symbol: string, userId: number, portfolioId: number): Promise<void> {
+    this.stocks.forEach(stock => {
+      if (stock.userId === userId && stock.portfolioId === portfolioId && stock.symbol === symbol.toUpperCase()) {
+        stock.isActive = false;
+      }
+    });
+    this.transactions.forEach((tx, txId) => {
+      if (tx.userId === userId && tx.portfolioId === portfolioId && tx.symbol === symbol.toUpperCase()) this.transactions.delete(txId);
+    });
+  }
+
+  async getStock(symbol: string, userId: number, portfolioId: number): Promise<Stock | undefined> {
+    return Array.from(this.stocks.values())
+      .filter(stock => stock.userId === userId && stock.portfolioId === portfolioId && stock.symbol === symbol.toUpperCase())
+      .sort((a, b) => Number(b.isActive) - Number(a.isActive) || b.id - a.id)[0];
+  }
+
+  async getHeldSymbols(): Promise<string[]> {
+    const held = Array.from(this.stocks.values()).filter(stock => stock.isActive).map(stock => stock.symbol);
+    return Array.from(new Set(held)).sort();
+  }
+
+  async getTransactions(userId: number, filter: PortfolioFilter = {}): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(tx => tx.userId === userId)
+      .filter(tx => !filter.portfolioId || tx.portfolioId === filter.portfolioId)
+      .filter(tx => !filter.symbol || tx.symbol === filter.symbol.toUpperCase())
+      .sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime() || a.id - b.id);
+  }
+
+  async getTransaction(id: number, userId: number): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction?.userId === userId ? transaction : undefined;
+  }
+
+  async addTransaction(transaction: InsertTransaction, userId: number): Promise<Transaction> {
+    const newTransaction: Transaction = {
+      ...toTransactionFields(transaction, userId),
+      id: this.currentTransactionId++,
+      createdAt: new Date()
+    };
+    this.transactions.set(newTransaction.id, newTransaction);
+    return newTransaction;
+  }
+
+  async updateTransaction(id: number, transaction: InsertTransaction, userId: number): Promise<Transaction | undefined> {
+    const existing = await this.getTransaction(id, userId);
+    if (!existing) {
+      return undefined;
+    }
+    const updated: Transaction = { ...existing, ...toTransactionFields(transaction, userId) };
+    this.transactions.set(id, updated);
+    return updated;
+  }
+
+  async removeTransaction(id: number, userId: number): Promise<boolean> {
+    return (await this.getTransaction(id, userId)) !== undefined && this.transactions.delete(id);
+  }
+
+  async getSettings(userId: number): Promise<Settings> {
+    let current = this.settings.get(userId);
+    if (!current) {
+      current = { id: this.settings.size + 1, userId, baseCurrency: "EUR" };
+      this.settings.set(userId, current);
+    }
+    return current;
+  }
+
+  async updateSettings(update: UpdateSettings, userId: number): Promise<Settings> {
+    const updated: Settings = { ...(await this.getSettings(userId)), ...update };
+    this.settings.set(userId, updated);
+    return updated;
+  }
+
+  async getPriceHistory(symbol: string, from: string, to: string): Promise<PriceBar[]> {
+    return Array.from(this.priceHistory.get(symbol.toUpperCase())?.values() ?? [])
+      .filter(bar => bar.date >= from && bar.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getLatestPriceDate(symbol: string): Promise<string | undefined> {
+    let latest: string | undefined;
+    this.priceHistory.get(symbol.toUpperCase())?.forEach(bar => {
+      if (!latest || bar.date > latest) {
+        latest = bar.date;
+      }
+    });
+    return latest;
+  }
+
+  async savePriceHistory(bars: InsertPriceBar[]): Promise<void> {
+    for (const bar of bars) {
+      let days = this.priceHistory.get(bar.symbol);
+      if (!days) {
+        days = new Map();
+        this.priceHistory.set(bar.symbol, days);
+      }
+      const existing = days.get(bar.date);
+      days.set(bar.date, { ...bar, id: existing?.id ?? this.currentPriceBarId++ });
+    }
+  }
+
+  async saveForecasts(records: InsertForecastRecord[]): Promise<void> {
+    const existing = Array.from(this.forecastRecords.values());
+    for (const record of records) {
+      const duplicate = existing.some(other =>
+        other.symbol === record.symbol && other.model === record.model &&
+        other.horizon === record.horizon && other.asOf === record.asOf
+      );
+      if (duplicate) {
+        continue;
+      }
+      const saved: ForecastRecord = {
+        ...record,
+        id: this.currentForecastId++,
+        actual: record.actual ?? null,
+        createdAt: new Date(),
+        scoredAt: null
+      };
+      this.forecastRecords.set(saved.id, saved);
+      existing.push(saved);
+    }
+  }
+
+  async getForecastRecords(filter: ForecastRecordFilter): Promise<ForecastRecord[]> {
+    return Array.from(this.forecastRecords.values())
+      .filter(record => !filter.symbol || record.symbol === filter.symbol.toUpperCase())
+      .filter(record => !filter.model || record.model === filter.model)
+      .filter(record => filter.scored === undefined || (record.actual !== null) === filter.scored)
+      .sort((a, b) => a.targetDate.localeCompare(b.targetDate) || a.id - b.id);
+  }
+
+  async scoreForecast(id: number, actual: string): Promise<void> {
+    const record = this.forecastRecords.get(id);
+    if (record) {
+      record.actual = actual;
+      record.scoredAt = new Date();
+    }
+  }
+
+  async getScreens(userId: number): Promise<Screen[]> {
+    return Array.from(this.screens.values())
+      .filter(screen => screen.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getScreen(id: number, userId: number): Promise<Screen | undefined> {
+    const screen = this.screens.get(id);
+    return screen?.userId === userId ? screen : undefined;
+  }
+
+  async createScreen(screen: InsertScreen, userId: number): Promise<Screen> {
+    const newScreen: Screen = { ...screen, id: this.currentScreenId++, userId, createdAt: new Date() };
+    this.screens.set(newScreen.id, newScreen);
+    return newScreen;
+  }
+
+  async updateScreen(id: number, screen: InsertScreen, userId: number): Promise<Screen | undefined> {
+    const existing = await this.getScreen(id, userId);
+    if (!existing) {
+      return undefined;
     }
+    const updated: Screen = { ...existing, ...screen };
+    this.screens.set(id, updated);
+    return updated;
+  }
+
+  async removeScreen(id: number, userId: number): Promise<boolean> {
+    return (await this.getScreen(id, userId)) !== undefined && this.screens.delete(id);
+  }
+  async saveRecommendations(records: InsertRecommendationRecord[]): Promise<void> {
+    const existing = Array.from(this.recommendationRecords.values());
+    for (const record of records) {
+      const duplicate = existing.some(other =>
+        (other.userId ?? null) === (record.userId ?? null) && other.symbol === record.symbol &&
+        other.source === record.source && other.asOf === record.asOf
+      );
+      if (duplicate) {
+        continue;
+      }
+      const saved: RecommendationRecord = {
+        ...record,
+        id: this.currentRecommendationId++,
+        userId: record.userId ?? null,
+        score: record.score ?? null,
+        targetPrice: record.targetPrice ?? null,
+        summary: record.summary ?? null,
+        close1w: record.close1w ?? null,
+        close1m: record.close1m ?? null,
+        close3m: record.close3m ?? null,
+        createdAt: new Date()
+      };
+      this.recommendationRecords.set(saved.id, saved);
+      existing.push(saved);
+    }
+  }
+
+  async getRecommendationRecords(filter: RecommendationRecordFilter): Promise<RecommendationRecord[]> {
+    return Array.from(this.recommendationRecords.values())
+      .filter(record => !filter.userId || record.userId === filter.userId)
+      .filter(record => !filter.symbol || record.symbol === filter.symbol.toUpperCase())
+      .filter(record => !filter.source || record.source === filter.source)
+      .filter(record => filter.settled === undefined || (record.close3m !== null) === filter.settled)
+      .sort((a, b) => a.asOf.localeCompare(b.asOf) || a.id - b.id);
+  }
+
+  async scoreRecommendation(id: number, closes: RecommendationCloses): Promise<void> {
+    const record = this.recommendationRecords.get(id);
+    if (record) {
+      Object.assign(record, closes);
+    }
+  }
+
+  async getAlerts(userId: number): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.userId === userId)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.id - b.id);
+  }
+
+  async getAlert(id: number, userId: number): Promise<Alert | undefined> {
+    const alert = this.alerts.get(id);
+    return alert?.userId === userId ? alert : undefined;
+  }
+
+  async createAlert(alert: InsertAlert, userId: number): Promise<Alert> {
+    const newAlert: Alert = {
+      ...alert,
+      id: this.currentAlertId++,
+      userId,
+      conditionMet: false,
+      lastValue: null,
+      lastSentiment: null,
+      lastCheckedAt: null,
+      lastTriggeredAt: null,
+      createdAt: new Date()
+    };
+    this.alerts.set(newAlert.id, newAlert);
+    return newAlert;
+  }
+
+  async updateAlert(id: number, alert: InsertAlert, userId: number): Promise<Alert | undefined> {
+    const existing = await this.getAlert(id, userId);
+    if (!existing) {
+      return undefined;
+    }
+    const updated: Alert = { ...existing, ...alert, conditionMet: false, lastValue: null, lastSentiment: null, lastTriggeredAt: null };
+    this.alerts.set(id, updated);
+    return updated;
+  }
+
+  async removeAlert(id: number, userId: number): Promise<boolean> {
+    return (await this.getAlert(id, userId)) !== undefined && this.alerts.delete(id);
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.active)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.id - b.id);
+  }
+
+  async saveAlertState(id: number, state: AlertState): Promise<void> {
+    const alert = this.alerts.get(id);
+    if (alert) {
+      Object.assign(alert, state);
+    }
+  }
+
+  async addAlertEvent(event: InsertAlertEvent): Promise<AlertEvent> {
+    const saved: AlertEvent = {
+      ...event,
+      id: this.currentAlertEventId++,
+      value: event.value ?? null,
+      triggeredAt: event.triggeredAt ?? new Date(),
+      readAt: event.readAt ?? null
+    };
+    this.alertEvents.set(saved.id, saved);
+    return saved;
+  }
+
+  async getAlertEvents(userId: number, query: AlertEventQuery): Promise<AlertEvent[]> {
+    return Array.from(this.alertEvents.values())
+      .filter(event => event.userId === userId)
+      .filter(event => query.unread === undefined || (event.readAt === null) === query.unread)
+      .sort((a, b) => (b.triggeredAt?.getTime() ?? 0) - (a.triggeredAt?.getTime() ?? 0) || b.id - a.id)
+      .slice(0, query.limit);
+  }
+
+  async countUnreadAlertEvents(userId: number): Promise<number> {
+    return Array.from(this.alertEvents.values()).filter(event => event.userId === userId && event.readAt === null).length;
   }
 
-  async getStock(symbol: string, userId?: number): Promise<Stock | undefined> {
-    return this.stocks.get(symbol.toUpperCase());
+  async markAlertEventsRead(userId: number, ids?: number[]): Promise<number> {
+    let marked = 0;
+    this.alertEvents.forEach(event => {
+      if (event.userId === userId && event.readAt === null && (!ids || ids.includes(event.id))) {
+        event.readAt = new Date();
+        marked++;
+      }
+    });
+    return marked;
   }
 }
 
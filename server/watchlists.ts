@@ -0,0 +1,40 @@
+import { classifySentiment } from "@shared/sentiment";
+import type { NewsArticle, WatchlistItem, WatchlistQuote } from "@shared/schema";
+import { getNews, getQuote, MarketDataError } from "./marketData";
+
+// Live view of a watchlist: each symbol's quote and the tone of its recent news, read
+// through the cached gateway like the rest of the dashboard
+
+// Tone of recent articles by keyword count; also what sentiment alerts watch
+export function summarizeSentiment(news: NewsArticle[]): WatchlistQuote["sentiment"] {
+  if (news.length === 0) {
+    return null;
+  }
+  const sentiments = news.map(article => classifySentiment(`${article.title} ${article.summary}`));
+  const score = (sentiments.filter(sentiment => sentiment === "positive").length
+    - sentiments.filter(sentiment => sentiment === "negative").length) / news.length;
+  return {
+    label: score > 0 ? "positive" : score < 0 ? "negative" : "neutral",
+    score,
+    articles: news.length,
+  };
+}
+
+async function quoteItem(item: WatchlistItem): Promise<WatchlistQuote> {
+  const [quote, news] = await Promise.allSettled([getQuote(item.symbol), getNews(item.symbol)]);
+  const failed = quote.status === "rejected" ? quote.reason : undefined;
+
+  return {
+    symbol: item.symbol,
+    name: item.name,
+    currency: item.currency,
+    quote: quote.status === "fulfilled" ? quote.value : null,
+    // News is optional; a symbol without any still shows its quote
+    sentiment: news.status === "fulfilled" ? summarizeSentiment(news.value) : null,
+    ...(failed && { error: failed instanceof MarketDataError ? failed.message : "Quote unavailable" }),
+  };
+}
+
+export async function getWatchlistQuotes(items: WatchlistItem[]): Promise<WatchlistQuote[]> {
+  return Promise.all(items.map(quoteItem));
+}
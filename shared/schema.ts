@@ -1,5 +1,4 @@
-
-import { pgTable, text, serial, integer, boolean, timestamp, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, date, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,27 +8,886 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+export const costBasisMethods = ["fifo", "lifo", "average"] as const;
+
+// Named accounts a user's holdings are split into, e.g. personal and retirement. Each
+// keeps its own cost basis method, as brokers apply one per account.
+export const portfolios = pgTable("portfolios", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  costBasisMethod: text("cost_basis_method", { enum: costBasisMethods }).notNull().default("fifo"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("portfolios_user_name").on(table.userId, table.name)]);
+
+// Named lists of symbols to follow without holding them
+export const watchlists = pgTable("watchlists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("watchlists_user_name").on(table.userId, table.name)]);
+
+export const watchlistItems = pgTable("watchlist_items", {
+  id: serial("id").primaryKey(),
+  watchlistId: integer("watchlist_id").notNull(),
+  symbol: text("symbol").notNull(),
+  name: text("name").notNull(),
+  currency: text("currency").notNull().default("USD"), // from the quote when the symbol was added
+  addedAt: timestamp("added_at").defaultNow(),
+}, (table) => [unique("watchlist_items_watchlist_symbol").on(table.watchlistId, table.symbol)]);
+
 export const stocks = pgTable("stocks", {
   id: serial("id").primaryKey(),
   symbol: text("symbol").notNull(),
   name: text("name").notNull(),
-  userId: integer("user_id"), // For multi-user support later
+  userId: integer("user_id"),
+  portfolioId: integer("portfolio_id"), // null only for rows from before portfolios, until adopted
+  currency: text("currency").notNull().default("USD"), // ISO code the instrument is quoted and traded in
   addedAt: timestamp("added_at").defaultNow(),
   isActive: boolean("is_active").default(true),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const transactionTypes = ["buy", "sell", "dividend", "fee", "split"] as const;
+
+// Ledger of everything that happened to a holding; positions are derived from it.
+// Numeric columns come back as strings to keep precision.
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  userId: integer("user_id"),
+  portfolioId: integer("portfolio_id"), // a holding's ledger is its symbol within one portfolio
+  type: text("type", { enum: transactionTypes }).notNull(),
+  quantity: decimal("quantity", { precision: 18, scale: 6 }), // shares bought or sold
+  price: decimal("price", { precision: 18, scale: 6 }), // per share, in the stock's currency
+  amount: decimal("amount", { precision: 18, scale: 6 }), // cash received (dividend) or paid (fee)
+  fees: decimal("fees", { precision: 18, scale: 6 }), // commission on a buy or sell
+  splitRatio: decimal("split_ratio", { precision: 18, scale: 6 }), // new shares per old share
+  executedAt: timestamp("executed_at").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const currencies = ["EUR", "USD", "GBP", "CHF", "JPY", "CAD", "AUD", "SEK", "NOK", "DKK"] as const;
+
+// Per-user preferences, one row per user
+export const settings = pgTable("settings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").unique(),
+  baseCurrency: text("base_currency", { enum: currencies }).notNull().default("EUR"),
+});
+
+// Daily bars kept locally so charts, risk metrics and forecasts read one source;
+// filled incrementally from the market data gateway by server/priceHistory.ts
+export const priceHistory = pgTable("price_history", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // trading day in UTC, YYYY-MM-DD
+  open: decimal("open", { precision: 18, scale: 6 }).notNull(),
+  high: decimal("high", { precision: 18, scale: 6 }).notNull(),
+  low: decimal("low", { precision: 18, scale: 6 }).notNull(),
+  close: decimal("close", { precision: 18, scale: 6 }).notNull(),
+  adjustedClose: decimal("adjusted_close", { precision: 18, scale: 6 }).notNull(), // close adjusted for splits and dividends
+  volume: decimal("volume", { precision: 20, scale: 0 }).notNull(),
+}, (table) => [unique("price_history_symbol_date").on(table.symbol, table.date)]);
+
+export const forecastHorizons = ["1d", "1w", "1m"] as const;
+
+// Every forecast made, one per symbol, model and horizon for each history day it was
+// made from; scored against the actual close once its target day is in the history
+export const forecastRecords = pgTable("forecasts", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  model: text("model").notNull(),
+  horizon: text("horizon", { enum: forecastHorizons }).notNull(),
+  asOf: date("as_of", { mode: "string" }).notNull(), // last history day the model saw
+  targetDate: date("target_date", { mode: "string" }).notNull(), // trading day the forecast is for
+  startPrice: decimal("start_price", { precision: 18, scale: 6 }).notNull(),
+  prediction: decimal("prediction", { precision: 18, scale: 6 }).notNull(), // median
+  p10: decimal("p10", { precision: 18, scale: 6 }).notNull(),
+  p25: decimal("p25", { precision: 18, scale: 6 }).notNull(),
+  p75: decimal("p75", { precision: 18, scale: 6 }).notNull(),
+  p90: decimal("p90", { precision: 18, scale: 6 }).notNull(),
+  actual: decimal("actual", { precision: 18, scale: 6 }), // close on the target day, once known
+  createdAt: timestamp("created_at").defaultNow(),
+  scoredAt: timestamp("scored_at"),
+}, (table) => [unique("forecasts_symbol_model_horizon_as_of").on(table.symbol, table.model, table.horizon, table.asOf)]);
+
+export const recommendationSources = ["score", "analysis"] as const; // factor score or news analysis
+export const recommendationRatings = ["buy", "hold", "sell"] as const;
+export const recommendationHorizons = ["1w", "1m", "3m"] as const;
+
+// Every recommendation shown, at most one per symbol and source a day, with the price it
+// was made at; the close at each horizon is filled in once that day is in the history
+export const recommendationRecords = pgTable("recommendations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  symbol: text("symbol").notNull(),
+  source: text("source", { enum: recommendationSources }).notNull(),
+  rating: text("rating", { enum: recommendationRatings }).notNull(),
+  score: decimal("score", { precision: 6, scale: 2 }), // 0–100, for factor scores only
+  asOf: date("as_of", { mode: "string" }).notNull(), // day it was made
+  currency: text("currency").notNull(),
+  price: decimal("price", { precision: 18, scale: 6 }).notNull(),
+  targetPrice: decimal("target_price", { precision: 18, scale: 6 }),
+  summary: text("summary"),
+  close1w: decimal("close_1w", { precision: 18, scale: 6 }),
+  close1m: decimal("close_1m", { precision: 18, scale: 6 }),
+  close3m: decimal("close_3m", { precision: 18, scale: 6 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("recommendations_user_symbol_source_as_of").on(table.userId, table.symbol, table.source, table.asOf).nullsNotDistinct()
+]);
+
+// Saved stock screens; the definition is validated by screenDefinitionSchema
+export const screens = pgTable("screens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  name: text("name").notNull(),
+  definition: jsonb("definition").$type<ScreenDefinition>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// price_cross: price above or below a level; daily_move: day's change of at least
+// threshold % either way; rsi: daily RSI above or below a level; forecast_deviation: price
+// at least threshold % off the ensemble's forecast for the day; sentiment_flip: recent
+// news turns from positive to negative or back
+export const alertTypes = ["price_cross", "daily_move", "rsi", "forecast_deviation", "sentiment_flip"] as const;
+export const alertDirections = ["above", "below"] as const;
+
+// User-defined alerts. An alert fires when its condition becomes true, and again only
+// after it has been false in between; the scheduler keeps what it last saw here.
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  symbol: text("symbol").notNull(),
+  type: text("type", { enum: alertTypes }).notNull(),
+  direction: text("direction", { enum: alertDirections }), // price_cross and rsi only
+  threshold: decimal("threshold", { precision: 18, scale: 6 }), // level or percent; none for sentiment_flip
+  active: boolean("active").notNull().default(true),
+  conditionMet: boolean("condition_met").notNull().default(false),
+  lastValue: decimal("last_value", { precision: 18, scale: 6 }),
+  lastSentiment: text("last_sentiment"), // last positive or negative reading, for sentiment_flip
+  lastCheckedAt: timestamp("last_checked_at"),
+  lastTriggeredAt: timestamp("last_triggered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every time an alert fired; kept when the alert is deleted
+export const alertEvents = pgTable("alert_events", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull(),
+  userId: integer("user_id").notNull(),
+  symbol: text("symbol").notNull(),
+  type: text("type", { enum: alertTypes }).notNull(),
+  message: text("message").notNull(),
+  value: decimal("value", { precision: 18, scale: 6 }),
+  triggeredAt: timestamp("triggered_at").defaultNow(),
+  readAt: timestamp("read_at"),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3, "Username must be at least 3 characters").max(32),
+  password: (schema) => schema.min(8, "Password must be at least 8 characters").max(128),
+}).pick({
   username: true,
   password: true,
 });
 
-export const insertStockSchema = createInsertSchema(stocks).pick({
+export const insertStockSchema = createInsertSchema(stocks, {
+  currency: z.string().regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO code")
+    .transform((currency) => currency.toUpperCase())
+    .optional(),
+}).pick({
   symbol: true,
   name: true,
-  userId: true,
+  currency: true,
+});
+
+export const insertPortfolioSchema = createInsertSchema(portfolios, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(60),
+}).pick({
+  name: true,
+  costBasisMethod: true,
+});
+
+// Renames a portfolio or changes its cost basis method, or both
+export const updatePortfolioSchema = insertPortfolioSchema.partial()
+  .refine((update) => Object.keys(update).length > 0, "Nothing to update");
+
+const portfolioId = z.coerce.number({ invalid_type_error: "Choose a portfolio" }).int().positive();
+
+// Query of holding and ledger reads; without portfolioId they cover all the user's portfolios
+export const portfolioFilterSchema = z.object({
+  portfolioId: portfolioId.optional(),
+  symbol: z.string().min(1).transform((symbol) => symbol.toUpperCase()).optional(),
+});
+
+export const insertWatchlistSchema = createInsertSchema(watchlists, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(60),
+}).pick({
+  name: true,
+});
+
+// The name and currency of a watched symbol come from its quote
+export const addWatchlistItemSchema = z.object({
+  symbol: z.string().trim().min(1).max(20).transform((symbol) => symbol.toUpperCase()),
+});
+
+// Moving a watched symbol into a portfolio buys it, at the current quote unless a price is given
+export const moveToPortfolioSchema = z.object({
+  portfolioId,
+  quantity: z.coerce.number().positive(),
+  price: z.coerce.number().nonnegative().optional(),
+  fees: z.coerce.number().nonnegative().optional(),
+  executedAt: z.coerce.date().optional(),
+});
+
+// Accept plain numbers from the client and store them as numeric strings
+const decimalAmount = z.coerce.number().nonnegative().transform(String);
+
+// Adding a holding may open it with an initial buy
+export const addHoldingSchema = insertStockSchema.extend({
+  portfolioId,
+  quantity: z.coerce.number().nonnegative().optional(),
+  averageCost: z.coerce.number().nonnegative().optional(),
+  purchaseDate: z.coerce.date().nullish(),
+});
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  symbol: (schema) => schema.min(1).transform((symbol) => symbol.toUpperCase()),
+  quantity: decimalAmount.nullish(),
+  price: decimalAmount.nullish(),
+  amount: decimalAmount.nullish(),
+  fees: decimalAmount.nullish(),
+  splitRatio: decimalAmount.nullish(),
+  executedAt: z.coerce.date(),
+}).extend({
+  portfolioId,
+}).pick({
+  symbol: true,
+  portfolioId: true,
+  type: true,
+  quantity: true,
+  price: true,
+  amount: true,
+  fees: true,
+  splitRatio: true,
+  executedAt: true,
+  notes: true,
+}).superRefine((tx, ctx) => {
+  const requireField = (field: "quantity" | "price" | "amount" | "splitRatio", positive = false) => {
+    const value = tx[field];
+    if (value == null || (positive && Number(value) <= 0)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `${field} is required${positive ? " and must be positive" : ""} for a ${tx.type}`,
+      });
+    }
+  };
+
+  switch (tx.type) {
+    case "buy":
+    case "sell":
+      requireField("quantity", true);
+      requireField("price");
+      break;
+    case "dividend":
+    case "fee":
+      requireField("amount");
+      break;
+    case "split":
+      requireField("splitRatio", true);
+      break;
+  }
+});
+
+export const updateSettingsSchema = createInsertSchema(settings).pick({
+  baseCurrency: true,
+}).partial();
+
+// User-initiated market data requests are served before background refreshes
+export const requestPriorities = ["interactive", "background"] as const;
+
+// Why a market data request failed; sent as `code` next to `error` in gateway responses
+export const marketDataErrorCodes = [
+  "NOT_FOUND", // the provider has no such symbol or data
+  "RATE_LIMITED", // our limiter's queue or the provider's quota is exhausted
+  "UPSTREAM_UNAVAILABLE", // the provider answered with a 5xx
+  "UPSTREAM_REJECTED", // the provider refused the request (4xx or an error payload)
+  "NETWORK", // the provider could not be reached
+  "CIRCUIT_OPEN", // the provider is failing and calls are paused
+] as const;
+
+export const candleResolutions = ["1", "5", "15", "30", "60", "D", "W", "M"] as const;
+
+// Query of GET /api/candles/:symbol; defaults to daily candles over the last month
+export const candleQuerySchema = z.object({
+  resolution: z.enum(candleResolutions).default("D"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Stored history can be read as daily bars or rolled up into weeks and months
+export const historyResolutions = ["D", "W", "M"] as const;
+
+// Query of GET /api/history/:symbol; defaults to daily bars over the last year
+export const historyQuerySchema = z.object({
+  resolution: z.enum(historyResolutions).default("D"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Technical indicators computed from stored history by server/indicators.ts
+export const indicatorNames = ["sma", "ema", "rsi", "macd", "bollinger", "atr", "vwap"] as const;
+
+// Query of GET /api/indicators/:symbol; `indicators` is a comma-separated list, by default all of them
+export const indicatorQuerySchema = historyQuerySchema.extend({
+  indicators: z.string()
+    .transform((list) => list.split(",").map((name) => name.trim().toLowerCase()).filter(Boolean))
+    .pipe(z.array(z.enum(indicatorNames)).min(1))
+    .optional(),
+});
+
+// Indicator values a screen can filter on, and which indicator produces each
+export const indicatorFields = {
+  sma: "sma",
+  ema: "ema",
+  rsi: "rsi",
+  macd: "macd",
+  macdSignal: "macd",
+  macdHistogram: "macd",
+  bollingerUpper: "bollinger",
+  bollingerMiddle: "bollinger",
+  bollingerLower: "bollinger",
+  atr: "atr",
+  vwap: "vwap",
+} as const satisfies Record<string, (typeof indicatorNames)[number]>;
+
+export const screenOperators = ["<", "<=", ">", ">="] as const;
+export const screenSortFields = ["symbol", "price", "changePercent", "volume", "marketCap"] as const;
+
+const screenSymbol = z.string().trim().min(1).transform((symbol) => symbol.toUpperCase());
+
+// Bounds on one number; either side may be left open
+const screenRange = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+}).refine((range) => range.min === undefined || range.max === undefined || range.min <= range.max, {
+  message: "min must not be above max",
+});
+
+// Symbols a screen runs over: a configured index list, every known symbol listed on an
+// exchange, or a list of its own
+export const screenUniverseSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("index"), id: z.string().min(1) }),
+  z.object({ type: z.literal("exchange"), exchange: z.string().trim().min(1).transform((exchange) => exchange.toUpperCase()) }),
+  z.object({ type: z.literal("custom"), symbols: z.array(screenSymbol).min(1) }),
+]);
+
+// Criteria all have to hold; marketCap is in the listing currency, volume is the last daily bar's
+export const screenDefinitionSchema = z.object({
+  universe: screenUniverseSchema,
+  price: screenRange.optional(),
+  changePercent: screenRange.optional(),
+  volume: screenRange.optional(),
+  marketCap: screenRange.optional(),
+  sectors: z.array(z.string().trim().min(1)).optional(),
+  indicators: z.array(z.object({
+    field: z.enum(Object.keys(indicatorFields) as [keyof typeof indicatorFields, ...(keyof typeof indicatorFields)[]]),
+    operator: z.enum(screenOperators),
+    value: z.number(),
+  })).optional(),
+  sortBy: z.enum(screenSortFields).default("symbol"),
+  sortDirection: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export const insertScreenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  definition: screenDefinitionSchema,
+});
+
+// Pages of screener results are counted from 1
+export const screenerPageSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// What a recommendation score is built from
+export const recommendationFactors = ["momentum", "valuation", "sentiment", "volatility", "analysts"] as const;
+
+// Query of GET /api/recommendations; universe is a screener index id, maxPrice is in `currency`
+export const recommendationQuerySchema = z.object({
+  universe: z.string().min(1).default("trending"),
+  maxPrice: z.coerce.number().positive().optional(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO code")
+    .transform((currency) => currency.toUpperCase())
+    .default("USD"),
+  limit: z.coerce.number().int().min(1).max(50).default(5),
+});
+
+// Query of GET /api/forecast/:symbol; price is where the projection starts, by default the
+// last close, and model picks one registered model instead of the ensemble
+export const forecastQuerySchema = z.object({
+  price: z.coerce.number().positive().optional(),
+  model: z.string().min(1).optional(),
+});
+
+// A call from the client's news analysis; the server records it at the current quote
+export const recordRecommendationSchema = z.object({
+  symbol: z.string().min(1).transform((symbol) => symbol.toUpperCase()),
+  rating: z.enum(recommendationRatings),
+  summary: z.string().max(1000).optional(),
+});
+
+export const recommendationHistoryQuerySchema = z.object({
+  symbol: z.string().min(1).transform((symbol) => symbol.toUpperCase()).optional(),
+  source: z.enum(recommendationSources).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// Query of GET /api/forecasts/accuracy; without filters every symbol and model is reported
+export const forecastAccuracyQuerySchema = z.object({
+  symbol: z.string().min(1).transform((symbol) => symbol.toUpperCase()).optional(),
+  model: z.string().min(1).optional(),
+});
+
+export const insertAlertSchema = z.object({
+  symbol: z.string().trim().min(1).max(20).transform((symbol) => symbol.toUpperCase()),
+  type: z.enum(alertTypes),
+  direction: z.enum(alertDirections).nullish(),
+  threshold: z.coerce.number().positive().nullish(),
+  active: z.boolean().default(true),
+}).superRefine((alert, ctx) => {
+  const needsDirection = alert.type === "price_cross" || alert.type === "rsi";
+  if (needsDirection && !alert.direction) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["direction"], message: `direction is required for a ${alert.type} alert` });
+  }
+  if (alert.type !== "sentiment_flip" && alert.threshold == null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: `threshold is required for a ${alert.type} alert` });
+  }
+  if (alert.type === "rsi" && alert.threshold != null && alert.threshold >= 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "RSI threshold must be below 100" });
+  }
+}).transform((alert) => ({
+  ...alert,
+  // Only kept where the type uses them
+  direction: alert.type === "price_cross" || alert.type === "rsi" ? alert.direction ?? null : null,
+  threshold: alert.type !== "sentiment_flip" && alert.threshold != null ? String(alert.threshold) : null,
+}));
+
+export const alertEventQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).transform((unread) => unread === "true").optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Marks the given events read, or all of them without ids
+export const markAlertEventsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Portfolio = typeof portfolios.$inferSelect;
+export type InsertPortfolio = z.infer<typeof insertPortfolioSchema>;
+export type UpdatePortfolio = z.infer<typeof updatePortfolioSchema>;
+export type PortfolioFilter = z.infer<typeof portfolioFilterSchema>;
+export type Watchlist = typeof watchlists.$inferSelect;
+export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
+export type WatchlistItem = typeof watchlistItems.$inferSelect;
+export type InsertWatchlistItem = typeof watchlistItems.$inferInsert;
+export type AddWatchlistItem = z.infer<typeof addWatchlistItemSchema>;
+export type MoveToPortfolio = z.infer<typeof moveToPortfolioSchema>;
+// What the client sees of an account; the password hash never leaves the server
+export type PublicUser = Pick<User, "id" | "username">;
 export type Stock = typeof stocks.$inferSelect;
 export type InsertStock = z.infer<typeof insertStockSchema>;
+export type AddHolding = z.infer<typeof addHoldingSchema>;
+export type Transaction = typeof transactions.$inferSelect;
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type TransactionType = (typeof transactionTypes)[number];
+export type Settings = typeof settings.$inferSelect;
+export type UpdateSettings = z.infer<typeof updateSettingsSchema>;
+export type CostBasisMethod = (typeof costBasisMethods)[number];
+export type Currency = (typeof currencies)[number];
+export type CandleResolution = (typeof candleResolutions)[number];
+export type RequestPriority = (typeof requestPriorities)[number];
+export type MarketDataErrorCode = (typeof marketDataErrorCodes)[number];
+export type CandleQuery = z.infer<typeof candleQuerySchema>;
+export type PriceBar = typeof priceHistory.$inferSelect;
+export type InsertPriceBar = typeof priceHistory.$inferInsert;
+export type HistoryResolution = (typeof historyResolutions)[number];
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+export type ForecastHorizon = (typeof forecastHorizons)[number];
+export type IndicatorName = (typeof indicatorNames)[number];
+export type IndicatorQuery = z.infer<typeof indicatorQuerySchema>;
+export type ForecastRecord = typeof forecastRecords.$inferSelect;
+export type IndicatorField = keyof typeof indicatorFields;
+export type ScreenUniverse = z.infer<typeof screenUniverseSchema>;
+export type ScreenDefinition = z.infer<typeof screenDefinitionSchema>;
+export type Screen = typeof screens.$inferSelect;
+export type InsertScreen = z.infer<typeof insertScreenSchema>;
+export type ScreenerPage = z.infer<typeof screenerPageSchema>;
+export type RecommendationFactorName = (typeof recommendationFactors)[number];
+export type RecommendationQuery = z.infer<typeof recommendationQuerySchema>;
+export type InsertForecastRecord = typeof forecastRecords.$inferInsert;
+export type ForecastAccuracyQuery = z.infer<typeof forecastAccuracyQuerySchema>;
+export type RecommendationSource = (typeof recommendationSources)[number];
+export type RecommendationRating = (typeof recommendationRatings)[number];
+export type RecommendationHorizon = (typeof recommendationHorizons)[number];
+export type RecommendationRecord = typeof recommendationRecords.$inferSelect;
+export type InsertRecommendationRecord = typeof recommendationRecords.$inferInsert;
+export type RecordRecommendation = z.infer<typeof recordRecommendationSchema>;
+export type RecommendationHistoryQuery = z.infer<typeof recommendationHistoryQuerySchema>;
+export type AlertType = (typeof alertTypes)[number];
+export type AlertDirection = (typeof alertDirections)[number];
+export type Alert = typeof alerts.$inferSelect;
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type InsertAlertEvent = typeof alertEvents.$inferInsert;
+export type AlertEventQuery = z.infer<typeof alertEventQuerySchema>;
+
+// Shares from one buy that are still held; costBasis includes the buy commission
+export interface Lot {
+  transactionId: number | null;
+  acquiredAt: Date;
+  quantity: number;
+  costBasis: number;
+}
+
+// Gain or loss locked in by one sell, after commission
+export interface RealizedSale {
+  transactionId: number | null;
+  soldAt: Date;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
+// Position rebuilt from a holding's ledger; amounts are in the quote currency
+export interface DerivedPosition {
+  quantity: number;
+  averageCost: number;
+  costBasis: number;
+  realizedPnl: number;
+  dividends: number;
+  fees: number;
+  purchaseDate: Date | null;
+  lots: Lot[];
+  sales: RealizedSale[];
+}
+
+export type Holding = Stock & DerivedPosition & {
+  // Only in the all-portfolios view, where a symbol held in several portfolios is one holding
+  byPortfolio?: { portfolioId: number; quantity: number }[];
+};
+
+export type WatchlistWithItems = Watchlist & { items: WatchlistItem[] };
+
+// A watched symbol as the watchlist shows it; quote and sentiment are null when the
+// provider had nothing, so one bad symbol doesn't empty the list
+export interface WatchlistQuote {
+  symbol: string;
+  name: string;
+  currency: string;
+  quote: Quote | null;
+  sentiment: {
+    label: "positive" | "negative" | "neutral";
+    score: number; // -1 (all negative) to 1 (all positive)
+    articles: number;
+  } | null;
+  error?: string;
+}
+
+// Market data served by our gateway; prices are in the quote's currency
+export interface Quote {
+  symbol: string;
+  name: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  currency: string;
+}
+
+export interface Candle {
+  time: number; // Unix seconds at the start of the period
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  adjustedClose?: number; // only when the provider reports split- and dividend-adjusted closes
+}
+
+// Bar read from the local price history
+export interface HistoricalCandle extends Candle {
+  adjustedClose: number;
+}
+
+// Indicator values at one bar; null while an indicator is still warming up, and only the
+// requested indicators' fields are present
+export interface IndicatorValues {
+  time: number;
+  sma?: number | null;
+  ema?: number | null;
+  rsi?: number | null; // 0–100
+  macd?: number | null;
+  macdSignal?: number | null;
+  macdHistogram?: number | null;
+  bollingerUpper?: number | null;
+  bollingerMiddle?: number | null;
+  bollingerLower?: number | null;
+  atr?: number | null;
+  vwap?: number | null; // anchored at the first bar of the range
+}
+
+export interface Indicators {
+  symbol: string;
+  resolution: HistoryResolution;
+  indicators: IndicatorName[];
+  parameters: Record<string, number>; // periods and multipliers the values were computed with
+  values: IndicatorValues[];
+}
+
+export interface NewsArticle {
+  title: string;
+  summary: string;
+  url: string;
+  published: string;
+  source: string;
+}
+
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  currency: string | null;
+}
+
+// Company details from the provider's profile; missing fields are null
+export interface CompanyProfile {
+  symbol: string;
+  name: string;
+  currency: string;
+  exchange: string | null;
+  sector: string | null;
+  marketCap: number | null; // in the listing currency
+}
+
+// Analyst recommendations on a symbol, counted per rating
+export interface AnalystRatings {
+  strongBuy: number;
+  buy: number;
+  hold: number;
+  sell: number;
+  strongSell: number;
+}
+
+// Valuation and analyst data from the provider; missing fields are null
+export interface CompanyFundamentals {
+  symbol: string;
+  peRatio: number | null;
+  analysts: AnalystRatings | null;
+  targetPrice: number | null; // analysts' mean price target, in the listing currency
+}
+
+// One factor's part in a recommendation. score runs from -1 (bearish) to 1 (bullish) and
+// is null without data; contribution is what it added to the 0–100 score, in points.
+export interface RecommendationFactor {
+  factor: RecommendationFactorName;
+  label: string;
+  weight: number;
+  score: number | null;
+  contribution: number;
+  detail: string;
+}
+
+export interface Recommendation {
+  symbol: string;
+  name: string;
+  currency: string;
+  price: number;
+  targetPrice: number | null;
+  targetSource: "analysts" | "forecast" | null; // consensus target, else the 1-month forecast median
+  upside: number | null; // percent from price to targetPrice
+  score: number; // 0–100, 50 is neutral
+  rating: RecommendationRating;
+  coverage: number; // share of the factor weight that had data, 0–1
+  factors: RecommendationFactor[];
+  summary: string;
+}
+
+// Where a recorded recommendation stood at one horizon; null until that day has a close
+export interface RecommendationOutcome {
+  horizon: RecommendationHorizon;
+  targetDate: string; // YYYY-MM-DD
+  close: number | null;
+  return: number | null; // percent from the recommendation price
+}
+
+export interface TrackedRecommendation {
+  id: number;
+  symbol: string;
+  source: RecommendationSource;
+  rating: RecommendationRating;
+  score: number | null;
+  asOf: string;
+  currency: string;
+  price: number;
+  targetPrice: number | null;
+  summary: string | null;
+  outcomes: RecommendationOutcome[];
+}
+
+// How the calls of one source and rating did at one horizon
+export interface RecommendationPerformance {
+  source: RecommendationSource;
+  rating: RecommendationRating;
+  horizon: RecommendationHorizon;
+  count: number; // calls with a close at this horizon
+  hitRate: number; // 0–1; buys that rose, sells that fell, holds that stayed within the hold band
+  averageReturn: number; // percent
+}
+
+export interface RecommendationHistory {
+  recommendations: TrackedRecommendation[]; // newest first
+  performance: RecommendationPerformance[];
+  pending: number; // recommendations still waiting for their 3-month close
+}
+
+// A configured index list a screen can run over
+export interface ScreenerIndex {
+  id: string;
+  name: string;
+  size: number;
+}
+
+// Symbols the screener can run over without a custom list
+export interface ScreenerUniverses {
+  indices: ScreenerIndex[];
+  exchanges: string[];
+}
+
+// A symbol that passed a screen. Volume and indicators are only looked up when the
+// screen filters or sorts on them, and are null otherwise.
+export interface ScreenerRow {
+  symbol: string;
+  name: string;
+  currency: string;
+  exchange: string | null;
+  sector: string | null;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number | null;
+  marketCap: number | null;
+  indicators: Partial<Record<IndicatorField, number | null>>;
+}
+
+export interface ScreenerResults {
+  universeSize: number;
+  total: number; // symbols that passed
+  page: number;
+  pageSize: number;
+  rows: ScreenerRow[];
+  failed: string[]; // symbols whose data could not be loaded
+}
+
+// Units of each currency per one unit of base
+export interface FxRates {
+  base: string;
+  rates: Record<string, number>;
+}
+
+// State of one upstream service behind the gateway's rate limiter, as shown in the UI
+export interface UpstreamStatus {
+  service: string;
+  limit: string; // e.g. "60/min"
+  tokens: number; // requests that can start right now
+  queued: Record<RequestPriority, number>;
+  estimatedWaitMs: Record<RequestPriority, number>; // for a request enqueued now
+  circuit: "closed" | "open" | "half-open";
+  degraded: boolean; // failing recently; answers may come from cache or fallbacks
+  consecutiveFailures: number;
+  lastError: string | null;
+  retryAt: string | null; // when an open circuit lets a trial call through
+}
+
+// Body of a failed gateway request
+export interface MarketDataErrorBody {
+  error: string;
+  code: MarketDataErrorCode;
+  retryable: boolean;
+}
+
+// Prices the model expects the outcome to stay below with 10%, 25%, ... probability;
+// p10–p90 is the 80% prediction interval and p25–p75 the 50% one
+export interface ForecastQuantiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+// Forecast of one horizon. prediction is the model's median price; confidence is the
+// model's probability, in percent, that the price ends on the side of today's price
+// that `trend` names (for "neutral", whichever side is likelier).
+export interface ForecastPoint {
+  model: string;
+  period: ForecastHorizon;
+  label: string;
+  prediction: number;
+  quantiles: ForecastQuantiles;
+  confidence: number;
+  trend: "up" | "down" | "neutral";
+  reasoning: string;
+}
+
+// Walk-forward evaluation of one model on a symbol's stored history, and the weight
+// it gets in that symbol's ensemble
+export interface ModelEvaluation {
+  model: string;
+  rmse: Record<ForecastHorizon, number | null>; // of predicted log returns; null without enough history
+  weight: Record<ForecastHorizon, number>;
+}
+
+// Forecast from a model fitted to daily log returns of the stored history
+export interface Forecast {
+  symbol: string;
+  model: string; // which model produced the points; "ensemble" blends all of them
+  price: number; // where the projection starts
+  asOf: string; // last history day used, YYYY-MM-DD
+  observations: number; // daily returns the model was fitted to
+  drift: number; // mean daily log return
+  volatility: number; // standard deviation of daily log returns
+  points: ForecastPoint[];
+  evaluation: ModelEvaluation[];
+}
+
+// How scored forecasts of one horizon did. Errors are in the listing currency; rates are 0–1.
+export interface ForecastAccuracy {
+  symbol: string | null; // null when aggregated over all symbols
+  model: string;
+  horizon: ForecastHorizon;
+  count: number; // forecasts scored
+  mae: number; // mean absolute error of the median
+  mape: number; // mean absolute percentage error, in percent
+  hitRate: number; // share that called the direction of the move right
+  coverage50: number; // share of actual closes inside p25–p75
+  coverage80: number; // share of actual closes inside p10–p90
+}
+
+export interface ForecastAccuracyReport {
+  bySymbol: ForecastAccuracy[]; // per symbol, model and horizon
+  byModel: ForecastAccuracy[]; // per model and horizon over all symbols
+  pending: number; // forecasts not scored yet, mostly because their target day is still ahead
+}
+
+// Triggered alerts for the header notifications, newest first
+export interface AlertEventList {
+  events: AlertEvent[];
+  unread: number; // across all of the user's events, not just the ones listed
+}
@@ -0,0 +1,16 @@
+export type Sentiment = "positive" | "negative" | "neutral";
+
+const POSITIVE_KEYWORDS = ['growth', 'profit', 'strong', 'positive', 'increase', 'bullish', 'outperform', 'buy', 'upgrade', 'beat', 'exceed'];
+const NEGATIVE_KEYWORDS = ['loss', 'decline', 'weak', 'negative', 'decrease', 'bearish', 'underperform', 'sell', 'downgrade', 'miss', 'below'];
+
+// Keyword count of a headline and summary; shared so the dashboard's news list and the
+// server's recommendation scoring read the same articles the same way
+export function classifySentiment(text: string): Sentiment {
+  const lowerText = text.toLowerCase();
+  const positiveScore = POSITIVE_KEYWORDS.filter(keyword => lowerText.includes(keyword)).length;
+  const negativeScore = NEGATIVE_KEYWORDS.filter(keyword => lowerText.includes(keyword)).length;
+
+  if (positiveScore > negativeScore) return "positive";
+  if (negativeScore > positiveScore) return "negative";
+  return "neutral";
+}